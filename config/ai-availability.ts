@@ -0,0 +1,101 @@
+/**
+ * AI Availability & Degradation Policies
+ *
+ * Central answer to "can AI be used right now?". When it can't (provider
+ * not configured, e.g. no ANTHROPIC_API_KEY, no cassette to replay and not
+ * estimating), each feature follows its declared policy instead of crashing:
+ *
+ *   skip      - the AI step is skipped with a warning (assertions)
+ *   fallback  - a non-AI path is used (OTP regex extraction, plain locators)
+ *   fail      - a clear AIUnavailableError is thrown (CLIs that only make sense with AI)
+ *
+ * Override a policy per feature group in .env, e.g.:
+ *   AI_UNAVAILABLE_ASSERTIONS=fail
+ *
+ * The active policies are reported once per run (by global setup, or on
+ * first use outside the Playwright runner).
+ */
+
+import { aiClient } from './ai-client';
+import { getCassetteMode } from './ai-cassette';
+import { AIUnavailableError } from './ai-errors';
+import { isEstimateOnly } from './ai-estimate';
+
+export type AIFeatureGroup = 'assertions' | 'healing' | 'otp' | 'generation' | 'planning' | 'maintenance';
+
+export type AIDegradationPolicy = 'skip' | 'fallback' | 'fail';
+
+export const DEFAULT_DEGRADATION_POLICIES: Record<AIFeatureGroup, AIDegradationPolicy> = {
+  assertions: 'skip',
+  healing: 'fallback',
+  otp: 'fallback',
+  generation: 'fail',
+  planning: 'fail',
+  maintenance: 'fail',
+};
+
+/**
+ * Reason AI can't be used, or null when it is available
+ *
+ * Asks the provider aiClient sends to: the one selected by AI_PROVIDER, or
+ * the one installed with aiClient.setProvider().
+ */
+export function getAIUnavailableReason(): string | null {
+  // Estimates and replays never reach the provider
+  if (getCassetteMode() === 'replay' || isEstimateOnly()) return null;
+  return aiClient.getProvider().getUnavailableReason();
+}
+
+export function isAIAvailable(): boolean {
+  return getAIUnavailableReason() === null;
+}
+
+export function getDegradationPolicy(group: AIFeatureGroup): AIDegradationPolicy {
+  const override = process.env[`AI_UNAVAILABLE_${group.toUpperCase()}`];
+
+  if (override === 'skip' || override === 'fallback' || override === 'fail') {
+    return override;
+  }
+
+  return DEFAULT_DEGRADATION_POLICIES[group];
+}
+
+/**
+ * Print the availability status and active policies (once per run)
+ *
+ * Workers inherit AI_AVAILABILITY_REPORTED from global setup, so the
+ * report isn't repeated by every worker process.
+ */
+export function reportAIAvailability(): void {
+  if (process.env.AI_AVAILABILITY_REPORTED === 'true') return;
+  process.env.AI_AVAILABILITY_REPORTED = 'true';
+
+  const reason = getAIUnavailableReason();
+  if (!reason) return;
+
+  console.warn(`\n⚠️  AI features unavailable: ${reason}`);
+  console.warn('   Degradation policies:');
+  for (const group of Object.keys(DEFAULT_DEGRADATION_POLICIES) as AIFeatureGroup[]) {
+    console.warn(`   - ${group.padEnd(12)} → ${getDegradationPolicy(group)}`);
+  }
+  console.warn('');
+}
+
+/**
+ * Check AI availability for a feature and apply its degradation policy
+ *
+ * @returns true when AI can be used, false when the caller should skip or fall back
+ * @throws AIUnavailableError when AI is unavailable and the feature's policy is 'fail'
+ */
+export function ensureAIAvailable(group: AIFeatureGroup): boolean {
+  const reason = getAIUnavailableReason();
+  if (!reason) return true;
+
+  reportAIAvailability();
+
+  if (getDegradationPolicy(group) === 'fail') {
+    throw new AIUnavailableError(`Feature "${group}" requires AI, but it is unavailable: ${reason}`);
+  }
+
+  return false;
+}
@@ -0,0 +1,149 @@
+/**
+ * AI Response Cache
+ *
+ * Opt-in, content-addressed disk cache for AIClient responses. Entries are
+ * keyed by a hash of model ID, system prompt, prompt text and image bytes,
+ * so sending the same prompt with the same screenshot twice only pays once.
+ *
+ * Configuration (.env):
+ *   AI_CACHE_ENABLED=true        (default: false)
+ *   AI_CACHE_DIR=./.ai-cache     (default: ./.ai-cache)
+ *   AI_CACHE_TTL_HOURS=24        (default: 24)
+ *   AI_CACHE_MAX_MB=50           (default: 50)
+ *
+ * When the cache grows beyond its max size, least recently used entries
+ * are evicted first.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AIRequest, getRequestKey } from './ai-request';
+
+interface CacheEntry {
+  model: string;
+  createdAt: number;
+  response: string;
+}
+
+export interface AICacheOptions {
+  dir?: string;
+  ttlMs?: number;
+  maxBytes?: number;
+}
+
+export interface AICacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+}
+
+export class AIResponseCache {
+  private dir: string;
+  private ttlMs: number;
+  private maxBytes: number;
+  private stats: AICacheStats = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+
+  constructor(options?: AICacheOptions) {
+    this.dir = path.resolve(options?.dir || process.env.AI_CACHE_DIR || './.ai-cache');
+    this.ttlMs = options?.ttlMs ?? parseFloat(process.env.AI_CACHE_TTL_HOURS || '24') * 3600000;
+    this.maxBytes = options?.maxBytes ?? parseFloat(process.env.AI_CACHE_MAX_MB || '50') * 1024 * 1024;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.dir, key.slice(0, 2), `${key}.json`);
+  }
+
+  /**
+   * Look up a cached response
+   *
+   * @returns The cached response, or null on a miss or expired entry
+   */
+  get(request: AIRequest): string | null {
+    const file = this.entryPath(getRequestKey(request));
+
+    try {
+      if (fs.existsSync(file)) {
+        const entry: CacheEntry = JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+        if (Date.now() - entry.createdAt < this.ttlMs) {
+          // Touch the file so eviction treats it as recently used
+          const now = new Date();
+          fs.utimesSync(file, now, now);
+          this.stats.hits++;
+          return entry.response;
+        }
+
+        fs.unlinkSync(file);
+      }
+    } catch (error) {
+      console.warn('Could not read AI cache entry:', error);
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  /**
+   * Store a response and evict old entries if the cache is over its size limit
+   */
+  set(request: AIRequest, response: string): void {
+    const file = this.entryPath(getRequestKey(request));
+    const entry: CacheEntry = { model: request.model, createdAt: Date.now(), response };
+
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(entry));
+      this.stats.writes++;
+      this.evict();
+    } catch (error) {
+      console.warn('Could not save AI cache entry:', error);
+    }
+  }
+
+  private evict(): void {
+    const files: Array<{ file: string; size: number; lastUsed: number }> = [];
+
+    for (const bucket of fs.readdirSync(this.dir)) {
+      const bucketDir = path.join(this.dir, bucket);
+      if (!fs.statSync(bucketDir).isDirectory()) continue;
+
+      for (const name of fs.readdirSync(bucketDir)) {
+        const file = path.join(bucketDir, name);
+        const stat = fs.statSync(file);
+        files.push({ file, size: stat.size, lastUsed: stat.mtimeMs });
+      }
+    }
+
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    if (total <= this.maxBytes) return;
+
+    // Least recently used first
+    files.sort((a, b) => a.lastUsed - b.lastUsed);
+
+    for (const f of files) {
+      if (total <= this.maxBytes) break;
+      try {
+        fs.unlinkSync(f.file);
+      } catch {
+        // Another worker may have removed it already
+      }
+      total -= f.size;
+      this.stats.evictions++;
+    }
+  }
+
+  getStats(): AICacheStats {
+    return { ...this.stats };
+  }
+
+  clear(): void {
+    if (fs.existsSync(this.dir)) {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+    }
+  }
+}
+
+export function isAICacheEnabled(): boolean {
+  return process.env.AI_CACHE_ENABLED === 'true';
+}
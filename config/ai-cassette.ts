@@ -0,0 +1,206 @@
+/**
+ * AI Cassettes - Record/replay of AIClient calls
+ *
+ * A cassette is a JSON file holding every AI request made by one test
+ * together with the response the model gave. In record mode the live API
+ * is called and each interaction is written to the cassette. In replay mode
+ * the stored responses are served instead, so AI-heavy tests run offline,
+ * for free, and give the same verdict every time.
+ *
+ * Configuration (.env):
+ *   AI_CASSETTE_MODE=off|record|replay   (default: off)
+ *   AI_CASSETTE_DIR=./ai-cassettes       (default: ./ai-cassettes)
+ *   AI_CASSETTE_MATCH_IMAGES=false       (replay ignoring screenshot bytes, whatever the recording used)
+ *
+ * Cassettes are attached automatically per test by fixtures/ai-fixtures.ts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  AIRequest,
+  DescribedRequest,
+  countImages,
+  describeMessages,
+  getDescribedRequestKey,
+  getLastPrompt,
+  getRequestKey,
+} from './ai-request';
+import { PromptRef } from './ai-prompts';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteInteraction {
+  /** Request key, with image hashes */
+  key: string;
+  request: DescribedRequest & {
+    maxTokens: number;
+    prompt?: PromptRef;
+  };
+  response: string;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Thrown in replay mode when a request has no recorded response
+ */
+export class CassetteMismatchError extends Error {
+  constructor(cassettePath: string, request: AIRequest) {
+    super(
+      `No recorded AI response matches this request in cassette: ${cassettePath}\n` +
+      `  Model: ${request.model}\n` +
+      `  System prompt: ${request.system ? request.system.slice(0, 80) : '(none)'}\n` +
+      `  Messages: ${request.messages.length}, images: ${countImages(request)}\n` +
+      `  Prompt: ${getLastPrompt(request).trim().slice(0, 200)}\n` +
+      `Re-record the cassette with AI_CASSETTE_MODE=record`
+    );
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+export function getCassetteMode(): CassetteMode {
+  const mode = (process.env.AI_CASSETTE_MODE || 'off').toLowerCase();
+
+  if (mode !== 'off' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid AI_CASSETTE_MODE: "${mode}" (expected off, record or replay)`);
+  }
+
+  return mode;
+}
+
+export function getCassetteDir(): string {
+  return path.resolve(process.env.AI_CASSETTE_DIR || './ai-cassettes');
+}
+
+export class AICassette {
+  readonly filePath: string;
+  readonly mode: Exclude<CassetteMode, 'off'>;
+  private interactions: CassetteInteraction[] = [];
+  private used = new Set<number>();
+  private matchImages: boolean;
+
+  constructor(filePath: string, mode: Exclude<CassetteMode, 'off'>) {
+    this.filePath = filePath;
+    this.mode = mode;
+    this.matchImages = process.env.AI_CASSETTE_MATCH_IMAGES !== 'false';
+
+    if (mode === 'replay') {
+      this.load();
+    }
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(
+        `AI cassette not found: ${this.filePath}\n` +
+        `Record it first with AI_CASSETTE_MODE=record`
+      );
+    }
+
+    const data: CassetteFile = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    this.interactions = data.interactions || [];
+  }
+
+  /**
+   * Key a recorded interaction is matched on: the stored key, or without
+   * images one rebuilt from the stored request, so a cassette recorded
+   * with images replays with AI_CASSETTE_MATCH_IMAGES=false
+   */
+  private keyOf(interaction: CassetteInteraction): string {
+    return this.matchImages ? interaction.key : getDescribedRequestKey(interaction.request, { includeImage: false });
+  }
+
+  /**
+   * Find the recorded response for a request (replay mode)
+   *
+   * Identical requests are served in the order they were recorded.
+   * Once all recordings for a request are used, the last one is reused.
+   *
+   * @throws CassetteMismatchError if nothing was recorded for this request
+   */
+  replay(request: AIRequest): string {
+    const key = getRequestKey(request, { includeImage: this.matchImages });
+    let lastMatch = -1;
+
+    for (let i = 0; i < this.interactions.length; i++) {
+      if (this.keyOf(this.interactions[i]) !== key) continue;
+      lastMatch = i;
+
+      if (!this.used.has(i)) {
+        this.used.add(i);
+        return this.interactions[i].response;
+      }
+    }
+
+    if (lastMatch >= 0) {
+      return this.interactions[lastMatch].response;
+    }
+
+    throw new CassetteMismatchError(this.filePath, request);
+  }
+
+  /**
+   * Store a live interaction (record mode)
+   */
+  record(request: AIRequest, response: string) {
+    this.interactions.push({
+      key: getRequestKey(request),
+      request: {
+        model: request.model,
+        maxTokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.system,
+        messages: describeMessages(request.messages),
+        prompt: request.prompt,
+      },
+      response,
+      recordedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Write recorded interactions to disk (record mode only)
+   *
+   * A test that made no AI calls leaves no cassette behind; a stale
+   * cassette from a previous recording is removed.
+   */
+  save() {
+    if (this.mode !== 'record') return;
+
+    if (this.interactions.length === 0) {
+      if (fs.existsSync(this.filePath)) {
+        fs.unlinkSync(this.filePath);
+      }
+      return;
+    }
+
+    const data: CassetteFile = { version: 1, interactions: this.interactions };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2) + '\n');
+  }
+}
+
+/**
+ * Build the cassette path for a test
+ *
+ * Layout: <AI_CASSETTE_DIR>/<spec path>/<test title>[.<project>].json
+ */
+export function getCassettePath(specFile: string, titlePath: string[], projectName?: string): string {
+  const slug = (text: string) =>
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 80);
+
+  const specDir = path.relative(process.cwd(), specFile).replace(/\.(spec|test)\.[jt]s$/, '');
+  const testName = titlePath.map(slug).filter(Boolean).join('--');
+  const suffix = projectName ? `.${slug(projectName)}` : '';
+
+  return path.join(getCassetteDir(), specDir, `${testName}${suffix}.json`);
+}
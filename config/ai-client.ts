@@ -1,46 +1,221 @@
-import Anthropic from '@anthropic-ai/sdk';
 import * as dotenv from 'dotenv';
-import { MODEL_VERSIONS } from './model-versions';
+import {
+  AIContentBlock,
+  AIFeature,
+  AIMessage,
+  AIRequest,
+  ImageMediaType,
+  countImages,
+  estimateInputTokens,
+  toContentBlocks,
+} from './ai-request';
+import { AICassette, CassetteMode } from './ai-cassette';
+import { AIResponseCache, AICacheStats, isAICacheEnabled } from './ai-cache';
+import { AIUsageTracker, aiUsage } from './ai-usage';
+import { AIDegradedError, classifyAIError } from './ai-errors';
+import { CircuitBreaker, withRetry } from './ai-resilience';
+import { AIResponseValidationError, JSONSchema, parseJSONResponse, placeholderFromSchema } from './ai-json';
+import { AIConversation } from './ai-conversation';
+import {
+  EscalatedResult,
+  EscalationAttempt,
+  getEscalationChain,
+  getEscalationThreshold,
+} from './ai-escalation';
+import { AIRateLimiter, getRateLimits } from './ai-rate-limiter';
+import { PromptRef } from './ai-prompts';
+import { AIProviderResponse, AIProviderUsage, BaseAIProvider, createAIProvider } from './ai-providers';
+import { AITranscript, TranscriptSource } from './ai-transcript';
+import { aiRedactor } from './ai-redaction';
+import { getDefaultModel, modelRouter } from './ai-routing';
+import { isEstimateOnly, recordEstimate } from './ai-estimate';
+import { reportModelDeprecations } from './model-lifecycle';
 
 dotenv.config();
 
 export type AIModel = 'haiku' | 'sonnet' | 'opus';
 
+/**
+ * Per-call options
+ *
+ * model, maxTokens and temperature default to the feature's route
+ * (see config/ai-routing.ts); pass them only to override the route.
+ */
 export interface AIClientOptions {
   model?: AIModel;
   maxTokens?: number;
+  /** Sampling temperature (0-1) */
+  temperature?: number;
+  /** Calling feature, used for model routing and usage/cost breakdowns */
+  feature?: AIFeature;
+  /** Prompt template id/version, recorded with the request (see config/ai-prompts.ts) */
+  prompt?: PromptRef;
 }
 
+export interface AskJSONOptions extends AIClientOptions {
+  systemPrompt?: string;
+  /** Base64 image to send before the prompt */
+  image?: string;
+  mediaType?: ImageMediaType;
+}
+
+export interface EscalationOptions<T> extends AskJSONOptions {
+  /** Read the model's confidence (0-1) from an answer; without it only unparseable answers escalate */
+  getConfidence?: (value: T) => number | undefined;
+  /** Overrides the feature's AI_ESCALATION_THRESHOLD */
+  threshold?: number;
+}
+
+/**
+ * Claude API client
+ *
+ * Construction is side-effect free: the LLM provider and the response
+ * cache are created on first use, so importing this module never fails
+ * when ANTHROPIC_API_KEY is missing. Use isAIAvailable() /
+ * ensureAIAvailable() from config/ai-availability.ts to check beforehand.
+ *
+ * The backend is picked with AI_PROVIDER (see config/ai-providers/):
+ * 'anthropic' (default) or 'openai-compatible'.
+ */
 export class AIClient {
-  private client: Anthropic;
-  private defaultModel: string;
+  private provider: BaseAIProvider | null = null;
+  private initialized = false;
   private defaultMaxTokens: number;
-
-  // Model mappings - imported from centralized config
-  // To update model versions, edit config/model-versions.ts
-  private modelMap: Record<AIModel, string> = {
-    haiku: MODEL_VERSIONS.haiku,
-    sonnet: MODEL_VERSIONS.sonnet,
-    opus: MODEL_VERSIONS.opus,
-  };
+  private cassette: AICassette | null = null;
+  private transcript: AITranscript | null = null;
+  private cache: AIResponseCache | null = null;
+  private circuitBreaker = new CircuitBreaker();
+  private rateLimiter = new AIRateLimiter();
+  private usage: AIUsageTracker = aiUsage;
 
   constructor() {
-    if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error('ANTHROPIC_API_KEY is not set in environment variables');
+    // Used by calls without a feature route (see config/ai-routing.ts)
+    this.defaultMaxTokens = parseInt(process.env.AI_MAX_TOKENS || '4096', 10);
+  }
+
+  /**
+   * One-time setup on first request
+   */
+  private init(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    // Already reported by global setup when running under Playwright
+    reportModelDeprecations();
+
+    if (isAICacheEnabled()) {
+      this.cache = new AIResponseCache();
+      process.on('exit', () => this.reportCacheStats());
     }
+  }
 
-    this.client = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
+  // Model mappings come from the provider
+  // For Anthropic, edit config/model-versions.ts to update model versions
+  private getModelId(model: AIModel): string {
+    return this.getProvider().resolveModel(model);
+  }
 
-    // Default to opus for now (will be overridden by feature-specific defaults)
-    this.defaultModel = this.modelMap.opus;
-    this.defaultMaxTokens = parseInt(process.env.AI_MAX_TOKENS || '4096', 10);
+  /**
+   * The LLM backend selected by AI_PROVIDER (created on first use)
+   */
+  getProvider(): BaseAIProvider {
+    if (!this.provider) {
+      this.provider = createAIProvider();
+    }
+
+    return this.provider;
+  }
+
+  /**
+   * Use a specific LLM backend instead of the one configured by AI_PROVIDER
+   *
+   * @param provider The backend, or null to go back to the one selected by
+   *   AI_PROVIDER (created on next use)
+   */
+  setProvider(provider: BaseAIProvider | null): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Tracker the calls are recorded in (the shared aiUsage unless replaced)
+   */
+  getUsageTracker(): AIUsageTracker {
+    return this.usage;
+  }
+
+  /**
+   * Record usage in another tracker than the shared aiUsage (which feeds
+   * the run's usage report and budgets)
+   */
+  setUsageTracker(usage: AIUsageTracker): void {
+    this.usage = usage;
+  }
+
+  /**
+   * Start serving/recording AI calls from a cassette file
+   *
+   * @param filePath Cassette JSON file
+   * @param mode 'record' to call the API and store responses, 'replay' to serve stored ones
+   */
+  useCassette(filePath: string, mode: Exclude<CassetteMode, 'off'>): void {
+    this.ejectCassette();
+    this.cassette = new AICassette(filePath, mode);
   }
 
-  private getModelId(model?: AIModel): string {
-    if (!model) return this.defaultModel;
-    return this.modelMap[model] || this.defaultModel;
+  /**
+   * Stop using the current cassette, writing it to disk when recording
+   */
+  ejectCassette(): void {
+    if (this.cassette) {
+      this.cassette.save();
+      this.cassette = null;
+    }
+  }
+
+  /**
+   * Start recording every call into a new transcript (replaces the current one)
+   */
+  startTranscript(): AITranscript {
+    this.transcript = new AITranscript();
+    return this.transcript;
+  }
+
+  /**
+   * Stop recording and return the transcript (null when none was started)
+   */
+  stopTranscript(): AITranscript | null {
+    const transcript = this.transcript;
+    this.transcript = null;
+    return transcript;
+  }
+
+  /**
+   * Response cache statistics (null when AI_CACHE_ENABLED is not set)
+   */
+  getCacheStats(): AICacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
+  }
+
+  private reportCacheStats(): void {
+    const stats = this.getCacheStats();
+    if (!stats || stats.hits + stats.misses === 0) return;
+
+    const total = stats.hits + stats.misses;
+    const hitRate = ((stats.hits / total) * 100).toFixed(0);
+    console.log(
+      `💾 AI cache: ${stats.hits} hit(s), ${stats.misses} miss(es) (${hitRate}% hit rate), ` +
+      `${stats.evictions} eviction(s)`
+    );
+  }
+
+  /**
+   * Whether the AI backend is in degraded mode (circuit breaker open)
+   *
+   * While degraded, AI assertions are skipped with a warning and
+   * self-healing is disabled.
+   */
+  isDegraded(): boolean {
+    return this.circuitBreaker.isOpen();
   }
 
   async ask(
@@ -48,81 +223,300 @@ export class AIClient {
     systemPrompt?: string,
     options?: AIClientOptions
   ): Promise<string> {
-    const modelId = this.getModelId(options?.model);
-    const maxTokens = options?.maxTokens || this.defaultMaxTokens;
-
-    try {
-      const message = await this.client.messages.create({
-        model: modelId,
-        max_tokens: maxTokens,
-        system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      });
-
-      const content = message.content[0];
-      if (content.type === 'text') {
-        return content.text;
-      }
-
-      throw new Error('Unexpected response type from AI');
-    } catch (error) {
-      console.error(`AI Client Error (model: ${modelId}):`, error);
-      throw error;
-    }
+    return this.askMessages([{ role: 'user', content: prompt }], systemPrompt, options);
   }
 
   async askWithImage(
     prompt: string,
     imageBase64: string,
-    mediaType: 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp' = 'image/png',
+    mediaType: ImageMediaType = 'image/png',
     options?: AIClientOptions,
     systemPrompt?: string
   ): Promise<string> {
-    const modelId = this.getModelId(options?.model);
-    const maxTokens = options?.maxTokens || this.defaultMaxTokens;
+    return this.askWithContent(
+      [
+        { type: 'image', data: imageBase64, mediaType },
+        { type: 'text', text: prompt },
+      ],
+      systemPrompt,
+      options
+    );
+  }
+
+  /**
+   * Ask with an ordered list of text and image blocks
+   *
+   * Use for before/after comparisons or an element crop plus full-page context.
+   *
+   * @example
+   * ```typescript
+   * await aiClient.askWithContent([
+   *   { type: 'text', text: 'Before:' },
+   *   { type: 'image', data: beforeBase64, mediaType: 'image/png' },
+   *   { type: 'text', text: 'After:' },
+   *   { type: 'image', data: afterBase64, mediaType: 'image/png' },
+   *   { type: 'text', text: 'What changed?' },
+   * ], systemPrompt, { model: 'sonnet' });
+   * ```
+   */
+  async askWithContent(
+    content: AIContentBlock[],
+    systemPrompt?: string,
+    options?: AIClientOptions
+  ): Promise<string> {
+    return this.askMessages([{ role: 'user', content }], systemPrompt, options);
+  }
+
+  /**
+   * Ask with a full message history (last message must be a user turn)
+   */
+  async askMessages(
+    messages: AIMessage[],
+    systemPrompt?: string,
+    options?: AIClientOptions
+  ): Promise<string> {
+    const route = modelRouter.resolveFor(options?.feature);
+    const tier = options?.model ?? route?.model ?? getDefaultModel();
+
+    return this.send({
+      model: this.getModelId(tier),
+      tier,
+      maxTokens: options?.maxTokens ?? route?.maxTokens ?? this.defaultMaxTokens,
+      temperature: options?.temperature ?? route?.temperature,
+      system: systemPrompt,
+      messages,
+      feature: options?.feature,
+      prompt: options?.prompt,
+    });
+  }
+
+  /**
+   * Start a multi-turn conversation that keeps its message history
+   */
+  createConversation(systemPrompt?: string, options?: AIClientOptions): AIConversation {
+    return new AIConversation(this, systemPrompt, options);
+  }
+
+  /**
+   * Ask for a structured JSON answer
+   *
+   * The response is validated against the schema. If it is not valid JSON
+   * or doesn't match, one repair prompt with the validation errors is sent.
+   *
+   * @example
+   * ```typescript
+   * const result = await aiClient.askJSON<{ matches: boolean }>(prompt, {
+   *   type: 'object',
+   *   properties: { matches: { type: 'boolean' } },
+   *   required: ['matches'],
+   * }, { model: 'haiku' });
+   * ```
+   *
+   * @throws AIResponseValidationError if the repaired response is still invalid
+   */
+  async askJSON<T>(
+    prompt: string | AIContentBlock[],
+    schema: JSONSchema,
+    options?: AskJSONOptions
+  ): Promise<T> {
+    const content = toContentBlocks(prompt);
+    if (options?.image) {
+      content.unshift({ type: 'image', data: options.image, mediaType: options.mediaType || 'image/png' });
+    }
+
+    const response = await this.askWithContent(content, options?.systemPrompt, options);
+
+    // Nothing was asked in estimate mode, answer with a value that fits the schema
+    if (isEstimateOnly()) {
+      return placeholderFromSchema(schema) as T;
+    }
+
+    const parsed = parseJSONResponse<T>(response, schema);
+    if (parsed.ok) {
+      return parsed.value;
+    }
+
+    console.warn(`⚠️  Invalid JSON from AI (${parsed.errors.join('; ')}), sending repair prompt`);
+
+    const repairPrompt = `
+Your previous response did not match the required JSON format.
+
+Problems:
+${parsed.errors.map((e) => `- ${e}`).join('\n')}
+
+Previous response:
+${response}
+
+Required JSON schema:
+${JSON.stringify(schema, null, 2)}
+
+Respond again with ONLY valid JSON matching the schema. Keep the same content and verdict.
+`;
+
+    const repaired = await this.ask(repairPrompt, options?.systemPrompt, options);
+    const reparsed = parseJSONResponse<T>(repaired, schema);
+    if (reparsed.ok) {
+      return reparsed.value;
+    }
+
+    throw new AIResponseValidationError(reparsed.errors, repaired);
+  }
+
+  /**
+   * askJSON() with confidence-based model escalation
+   *
+   * Starts on options.model (or the feature's routed model) and moves up the haiku → sonnet → opus chain
+   * while the answer's confidence is below the feature's threshold or the
+   * answer can't be parsed. The last tier's answer is always returned.
+   * See config/ai-escalation.ts for configuration.
+   *
+   * @example
+   * ```typescript
+   * const { value, model } = await aiClient.askJSONWithEscalation<AIVerdict>(prompt, VERDICT_SCHEMA, {
+   *   feature: 'assertions.semantic', // starts on the routed model (haiku)
+   *   getConfidence: (verdict) => verdict.confidence,
+   * });
+   * ```
+   *
+   * @throws AIResponseValidationError if the last tier's response is still invalid
+   */
+  async askJSONWithEscalation<T>(
+    prompt: string | AIContentBlock[],
+    schema: JSONSchema,
+    options: EscalationOptions<T>
+  ): Promise<EscalatedResult<T>> {
+    const chain = getEscalationChain(
+      options.model ?? modelRouter.resolveFor(options.feature)?.model ?? getDefaultModel(),
+      (model) => this.getModelId(model)
+    );
+    const threshold = options.threshold ?? getEscalationThreshold(options.feature);
+    const attempts: EscalationAttempt[] = [];
+
+    for (let i = 0; ; i++) {
+      const model = chain[i];
+      const next = chain[i + 1];
+      let value: T;
+
+      try {
+        value = await this.askJSON<T>(prompt, schema, { ...options, model });
+      } catch (error) {
+        if (!(error instanceof AIResponseValidationError) || !next) {
+          throw error;
+        }
+
+        attempts.push({ model, error: 'unparseable response' });
+        console.warn(`⬆️  Unparseable answer from ${model}, escalating to ${next}`);
+        continue;
+      }
+
+      const confidence = options.getConfidence?.(value);
+      attempts.push({ model, confidence });
+
+      if (!next || confidence === undefined || confidence >= threshold) {
+        return { value, model, attempts, prompt: options.prompt };
+      }
+
+      console.warn(`⬆️  Low confidence from ${model} (${confidence} < ${threshold}), escalating to ${next}`);
+    }
+  }
+
+  private async send(unredactedRequest: AIRequest): Promise<string> {
+    this.init();
+
+    // Secrets and personal data are removed before caching, recording or sending
+    const { request, counts: redactions } = aiRedactor.redactRequest(unredactedRequest);
+    const startedAt = Date.now();
+    let source: TranscriptSource = 'live';
+    let usage: AIProviderUsage | undefined;
 
     try {
-      const message = await this.client.messages.create({
-        model: modelId,
-        max_tokens: maxTokens,
-        system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: mediaType,
-                  data: imageBase64,
-                },
-              },
-              {
-                type: 'text',
-                text: prompt,
-              },
-            ],
-          },
-        ],
-      });
-
-      const content = message.content[0];
-      if (content.type === 'text') {
-        return content.text;
+      let response: string;
+
+      if (this.cassette?.mode === 'replay') {
+        source = 'cassette';
+        response = this.cassette.replay(request);
+      } else {
+        const cached = this.cache?.get(request) ?? null;
+
+        if (cached !== null) {
+          source = 'cache';
+          console.log(`💾 AI cache hit (model: ${request.model})`);
+          response = cached;
+        } else if (isEstimateOnly()) {
+          source = 'estimate';
+          usage = recordEstimate(request, this.usage);
+          response = '';
+        } else {
+          this.usage.assertWithinBudget();
+          const result = await this.callWithResilience(request);
+          usage = result.usage;
+          response = result.text;
+          this.cache?.set(request, response);
+        }
+
+        if (source !== 'estimate') {
+          this.cassette?.record(request, response);
+        }
       }
 
-      throw new Error('Unexpected response type from AI');
+      this.transcript?.record(request, { source, latencyMs: Date.now() - startedAt, usage, response, redactions });
+      return response;
     } catch (error) {
-      console.error(`AI Client Error with Image (model: ${modelId}):`, error);
+      this.transcript?.record(request, { source, latencyMs: Date.now() - startedAt, usage, error, redactions });
       throw error;
     }
   }
+
+  private async callWithResilience(request: AIRequest): Promise<AIProviderResponse> {
+    if (!this.circuitBreaker.tryAcquire()) {
+      const seconds = Math.ceil(this.circuitBreaker.getRemainingCooldownMs() / 1000);
+      throw new AIDegradedError(
+        `AI backend is in degraded mode (${seconds > 0 ? `retrying in ${seconds}s` : 'trial call in progress'})`
+      );
+    }
+
+    try {
+      const response = await withRetry(() => this.callAPI(request), `model: ${request.model}`);
+      this.circuitBreaker.recordSuccess();
+      return response;
+    } catch (error) {
+      const info = classifyAIError(error);
+      const label = countImages(request) > 0 ? 'AI Client Error with Image' : 'AI Client Error';
+      console.error(`${label} (model: ${request.model}):`, error);
+
+      if (info.retryable) {
+        this.circuitBreaker.recordFailure(info);
+
+        if (this.circuitBreaker.isOpen()) {
+          throw new AIDegradedError(`AI backend is in degraded mode: ${info.title} - ${info.message}`, error);
+        }
+      } else {
+        this.circuitBreaker.releaseTrial();
+      }
+
+      throw error;
+    }
+  }
+
+  private async callAPI(request: AIRequest): Promise<AIProviderResponse> {
+    // Shared rate limit across workers (queues instead of failing), per requested tier:
+    // with a single local model, every tier resolves to the same ID
+    const limits = getRateLimits(request.tier);
+    const bucket = request.tier || request.model;
+    const estimatedTokens = limits ? estimateInputTokens(request) : 0;
+
+    if (limits) {
+      await this.rateLimiter.acquire(bucket, limits, estimatedTokens);
+    }
+
+    const result = await this.getProvider().complete(request);
+
+    if (limits) {
+      await this.rateLimiter.settle(bucket, limits, result.usage.inputTokens - estimatedTokens);
+    }
+    this.usage.record(request.model, request.feature, result.usage.inputTokens, result.usage.outputTokens);
+    return result;
+  }
 }
 
 export const aiClient = new AIClient();
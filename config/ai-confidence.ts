@@ -0,0 +1,81 @@
+/**
+ * AI Assertion Confidence - Minimum confidence and the inconclusive policy
+ *
+ * A verdict below the minimum confidence is inconclusive, whether it says
+ * pass or fail: it neither passes nor fails the assertion on its own. What
+ * happens then is the inconclusive policy:
+ *
+ *   fail   - the assertion fails with an AIInconclusiveError (default)
+ *   warn   - a warning is printed and the test goes on
+ *   retry  - the check runs again (fresh screenshot or text) after a delay,
+ *            and fails if it is still inconclusive after the last retry
+ *
+ * Both can be overridden per call, e.g.
+ *   aiAssert.expectVisualState(page, '...', { minConfidence: 0.9, onInconclusive: 'retry' })
+ *
+ * Configuration (.env):
+ *   AI_ASSERTION_MIN_CONFIDENCE=0.7                       (default for all assertions)
+ *   AI_ASSERTION_MIN_CONFIDENCE_ASSERTIONS_VISUAL=0.8     (per feature, e.g. assertions.visual)
+ *   AI_ASSERTION_INCONCLUSIVE=fail                        (fail | warn | retry)
+ *   AI_ASSERTION_INCONCLUSIVE_RETRIES=1                   (retries with the retry policy)
+ *   AI_ASSERTION_INCONCLUSIVE_RETRY_DELAY_MS=1000         (wait before each retry)
+ *   AI_ASSERTIONS_SOFT=false                              (collect failures like expect.soft)
+ */
+
+import { AIFeature } from './ai-request';
+import { parseThreshold } from './ai-escalation';
+
+export type InconclusivePolicy = 'fail' | 'warn' | 'retry';
+
+export const DEFAULT_MIN_CONFIDENCE = 0.7;
+
+/**
+ * Minimum confidence for a verdict to decide an assertion
+ *
+ * AI_ASSERTION_MIN_CONFIDENCE_<FEATURE> wins over AI_ASSERTION_MIN_CONFIDENCE.
+ */
+export function getMinConfidence(feature?: AIFeature): number {
+  const featureVar = feature
+    ? `AI_ASSERTION_MIN_CONFIDENCE_${feature.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`
+    : undefined;
+
+  return (
+    (featureVar ? parseThreshold(featureVar) : undefined) ??
+    parseThreshold('AI_ASSERTION_MIN_CONFIDENCE') ??
+    DEFAULT_MIN_CONFIDENCE
+  );
+}
+
+export function getInconclusivePolicy(): InconclusivePolicy {
+  const policy = (process.env.AI_ASSERTION_INCONCLUSIVE || 'fail').toLowerCase();
+
+  if (policy !== 'fail' && policy !== 'warn' && policy !== 'retry') {
+    throw new Error(`Invalid AI_ASSERTION_INCONCLUSIVE: "${policy}" (expected fail, warn or retry)`);
+  }
+
+  return policy;
+}
+
+function parseCount(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return defaultValue;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid ${name}: "${raw}" (expected a whole number)`);
+  }
+
+  return value;
+}
+
+export function getInconclusiveRetries(): number {
+  return parseCount('AI_ASSERTION_INCONCLUSIVE_RETRIES', 1);
+}
+
+export function getInconclusiveRetryDelayMs(): number {
+  return parseCount('AI_ASSERTION_INCONCLUSIVE_RETRY_DELAY_MS', 1000);
+}
+
+export function isSoftByDefault(): boolean {
+  return process.env.AI_ASSERTIONS_SOFT === 'true';
+}
@@ -0,0 +1,65 @@
+/**
+ * AI Conversation - Multi-turn reasoning sessions
+ *
+ * Keeps the message history so helpers can send follow-ups
+ * ("that selector didn't work, here's the new DOM") without re-sending
+ * the original screenshot and context.
+ *
+ * Usage:
+ * ```typescript
+ * const conversation = aiClient.createConversation(systemPrompt, { model: 'haiku' });
+ * const first = await conversation.send([
+ *   { type: 'image', data: screenshotBase64, mediaType: 'image/png' },
+ *   { type: 'text', text: 'Suggest a selector for the submit button' },
+ * ]);
+ * const second = await conversation.send(`"${first}" matched nothing. Suggest another one.`);
+ * ```
+ */
+
+import type { AIClient, AIClientOptions } from './ai-client';
+import { AIContentBlock, AIMessage } from './ai-request';
+
+export class AIConversation {
+  private client: AIClient;
+  private systemPrompt?: string;
+  private options?: AIClientOptions;
+  private messages: AIMessage[] = [];
+
+  constructor(client: AIClient, systemPrompt?: string, options?: AIClientOptions) {
+    this.client = client;
+    this.systemPrompt = systemPrompt;
+    this.options = options;
+  }
+
+  /**
+   * Send the next user turn and record the model's answer in the history
+   *
+   * @param content Text or an ordered list of text and image blocks
+   * @returns The model's answer
+   */
+  async send(content: string | AIContentBlock[]): Promise<string> {
+    const userMessage: AIMessage = { role: 'user', content };
+    const response = await this.client.askMessages(
+      [...this.messages, userMessage],
+      this.systemPrompt,
+      this.options
+    );
+
+    this.messages.push(userMessage, { role: 'assistant', content: response });
+    return response;
+  }
+
+  /**
+   * Messages exchanged so far
+   */
+  getHistory(): readonly AIMessage[] {
+    return this.messages;
+  }
+
+  /**
+   * Forget the history and start over
+   */
+  reset(): void {
+    this.messages = [];
+  }
+}
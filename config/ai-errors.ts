@@ -0,0 +1,127 @@
+/**
+ * AI Error Classification
+ *
+ * Shared by AIClient (to decide what to retry) and
+ * scripts/check-model-versions.ts (to explain failures).
+ */
+
+export type AIErrorType =
+  | 'authentication'
+  | 'permission'
+  | 'invalid-request'
+  | 'not-found'
+  | 'rate-limit'
+  | 'overloaded'
+  | 'server'
+  | 'timeout'
+  | 'network'
+  | 'unknown';
+
+export interface AIErrorInfo {
+  type: AIErrorType;
+  status?: number;
+  /** Short label, e.g. "Model Not Found (404)" */
+  title: string;
+  /** Human-readable explanation */
+  message: string;
+  /** Transient errors that are worth retrying */
+  retryable: boolean;
+  /** Delay requested by the API through the retry-after header */
+  retryAfterMs?: number;
+}
+
+/**
+ * Thrown when the circuit breaker is open and AI features are degraded
+ */
+export class AIDegradedError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AIDegradedError';
+  }
+}
+
+function getHeader(error: any, name: string): string | undefined {
+  const headers = error?.headers;
+  if (!headers) return undefined;
+
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+  return value ?? undefined;
+}
+
+function parseRetryAfter(error: any): number | undefined {
+  const retryAfterMs = getHeader(error, 'retry-after-ms');
+  if (retryAfterMs && !isNaN(parseFloat(retryAfterMs))) {
+    return parseFloat(retryAfterMs);
+  }
+
+  const retryAfter = getHeader(error, 'retry-after');
+  if (!retryAfter) return undefined;
+
+  const seconds = parseFloat(retryAfter);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  // HTTP-date format
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify an error thrown by the Anthropic SDK (or any fetch-based client)
+ */
+export function classifyAIError(error: any): AIErrorInfo {
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+  const retryAfterMs = parseRetryAfter(error);
+  const base = { status, retryAfterMs };
+
+  if (status === 401) {
+    return { ...base, type: 'authentication', title: 'Authentication Error (401)', message: 'Invalid or missing ANTHROPIC_API_KEY', retryable: false };
+  }
+  if (status === 403) {
+    return { ...base, type: 'permission', title: 'Permission Denied (403)', message: 'API key does not have access to this resource', retryable: false };
+  }
+  if (status === 404) {
+    return { ...base, type: 'not-found', title: 'Model Not Found (404)', message: 'Model version is deprecated or invalid', retryable: false };
+  }
+  if (status === 400 || status === 413 || status === 422) {
+    return { ...base, type: 'invalid-request', title: `Invalid Request (${status})`, message: error?.message || 'Request was rejected by the API', retryable: false };
+  }
+  if (status === 408) {
+    return { ...base, type: 'timeout', title: 'Request Timeout (408)', message: 'Request timed out - try again later', retryable: true };
+  }
+  if (status === 409) {
+    return { ...base, type: 'server', title: 'Conflict (409)', message: 'Temporary conflict - try again later', retryable: true };
+  }
+  if (status === 429) {
+    return { ...base, type: 'rate-limit', title: 'Rate Limited (429)', message: 'Rate limit exceeded - requests are being throttled', retryable: true };
+  }
+  if (status === 529) {
+    return { ...base, type: 'overloaded', title: 'Server Overloaded (529)', message: 'Anthropic servers temporarily overloaded - model is valid', retryable: true };
+  }
+  if (status !== undefined && status >= 500) {
+    return { ...base, type: 'server', title: `Server Error (${status})`, message: 'Anthropic API error - try again later', retryable: true };
+  }
+
+  const name: string = error?.name || '';
+  const code: string = error?.code || error?.cause?.code || '';
+  // fetch aborted by AbortSignal.timeout() (TimeoutError) or another abort signal (AbortError)
+  if (name === 'APIConnectionTimeoutError' || name === 'TimeoutError' || name === 'AbortError') {
+    return { ...base, type: 'timeout', title: 'Connection Timeout', message: 'Request to the AI API timed out', retryable: true };
+  }
+  if (name === 'APIConnectionError' || /^(ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE)$/.test(code)) {
+    return { ...base, type: 'network', title: 'Network Error', message: 'Could not reach the AI API - check network connection', retryable: true };
+  }
+
+  return { ...base, type: 'unknown', title: 'Unknown', message: error?.message || 'Unknown error', retryable: false };
+}
+
+/**
+ * Thrown when AI is needed but not configured (e.g. no ANTHROPIC_API_KEY)
+ */
+export class AIUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIUnavailableError';
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * AI Model Escalation - haiku → sonnet → opus
+ *
+ * Helpers start on the cheapest model that is usually good enough. When
+ * the answer comes back with a confidence below the feature's threshold,
+ * or can't be parsed even after the repair prompt, the same question is
+ * asked again on the next tier. Opus is only paid for on the difficult cases.
+ *
+ * Configuration (.env):
+ *   AI_ESCALATION_ENABLED=true                       (default: true)
+ *   AI_ESCALATION_THRESHOLD=0.7                      (default threshold for all features)
+ *   AI_ESCALATION_THRESHOLD_ASSERTIONS_VISUAL=0.8    (per feature, e.g. assertions.visual)
+ *   AI_ESCALATION_MAX_MODEL=opus                     (highest tier to escalate to)
+ */
+
+import { AIFeature } from './ai-request';
+import { PromptRef } from './ai-prompts';
+import { ModelName } from './model-versions';
+
+/**
+ * Model tiers from cheapest to most capable
+ */
+export const MODEL_TIERS: readonly ModelName[] = ['haiku', 'sonnet', 'opus'];
+
+export const DEFAULT_ESCALATION_THRESHOLD = 0.7;
+
+export interface EscalationAttempt {
+  model: ModelName;
+  /** Confidence reported by the model (undefined when the answer had none) */
+  confidence?: number;
+  /** Why the answer was rejected, when it couldn't be used at all */
+  error?: string;
+}
+
+export interface EscalatedResult<T> {
+  value: T;
+  /** Model that produced the final answer */
+  model: ModelName;
+  attempts: EscalationAttempt[];
+  /** Prompt template the question was rendered from */
+  prompt?: PromptRef;
+}
+
+export function isEscalationEnabled(): boolean {
+  return process.env.AI_ESCALATION_ENABLED !== 'false';
+}
+
+/**
+ * Read a 0-1 threshold from an environment variable (undefined when unset)
+ */
+export function parseThreshold(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return undefined;
+
+  const value = parseFloat(raw);
+  if (isNaN(value) || value < 0 || value > 1) {
+    throw new Error(`Invalid ${name}: "${raw}" (expected a number between 0 and 1)`);
+  }
+
+  return value;
+}
+
+/**
+ * Minimum confidence to accept an answer without escalating
+ *
+ * AI_ESCALATION_THRESHOLD_<FEATURE> wins over AI_ESCALATION_THRESHOLD.
+ */
+export function getEscalationThreshold(feature?: AIFeature): number {
+  const featureVar = feature
+    ? `AI_ESCALATION_THRESHOLD_${feature.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`
+    : undefined;
+
+  return (
+    (featureVar ? parseThreshold(featureVar) : undefined) ??
+    parseThreshold('AI_ESCALATION_THRESHOLD') ??
+    DEFAULT_ESCALATION_THRESHOLD
+  );
+}
+
+function getMaxModel(): ModelName {
+  const max = (process.env.AI_ESCALATION_MAX_MODEL || 'opus').toLowerCase() as ModelName;
+
+  if (!MODEL_TIERS.includes(max)) {
+    throw new Error(
+      `Invalid AI_ESCALATION_MAX_MODEL: "${max}" (expected ${MODEL_TIERS.join(', ')})`
+    );
+  }
+
+  return max;
+}
+
+/**
+ * Models to try, in order, for a call that starts on startModel
+ *
+ * With resolveModel, a tier that resolves to the same model ID as the one before it
+ * is dropped: re-asking the same model would not raise its confidence.
+ *
+ * @example
+ * ```typescript
+ * getEscalationChain('haiku'); // ['haiku', 'sonnet', 'opus']
+ * getEscalationChain('opus');  // ['opus']
+ * getEscalationChain('haiku', () => 'llama3.1'); // ['haiku']
+ * ```
+ */
+export function getEscalationChain(
+  startModel: ModelName,
+  resolveModel?: (model: ModelName) => string
+): ModelName[] {
+  if (!isEscalationEnabled()) {
+    return [startModel];
+  }
+
+  const start = MODEL_TIERS.indexOf(startModel);
+  const end = MODEL_TIERS.indexOf(getMaxModel());
+  const chain = start < end ? MODEL_TIERS.slice(start, end + 1) : [startModel];
+
+  if (!resolveModel) {
+    return chain;
+  }
+
+  return chain.filter((model, i) => i === 0 || resolveModel(model) !== resolveModel(chain[i - 1]));
+}
@@ -0,0 +1,95 @@
+/**
+ * AI Cost Estimate - What a run would cost, without calling the API
+ *
+ * In estimate mode AIClient doesn't send anything: it estimates the input
+ * tokens of each request (prompt text at ~4 characters per token, images
+ * from their pixel size) and records them in the usage tracker with the
+ * request's max tokens as output. The usual breakdown by feature and model
+ * then becomes an upper-bound estimate, priced with MODEL_CATALOG pricing.
+ *
+ * While estimating, JSON answers are placeholders that satisfy the schema,
+ * AI assertions are not evaluated, and the CLIs don't write any files.
+ * Cache hits and cassette replays are free, as in a real run.
+ *
+ * Usage:
+ *   npm run ai:maintain analyze -- --estimate
+ *   npm run test:estimate                       (AI_ESTIMATE_ONLY=true playwright test)
+ *
+ * Configuration (.env):
+ *   AI_ESTIMATE_ONLY=true    (default: false)
+ */
+
+import { AIRequest, countImages, estimateInputTokens } from './ai-request';
+import { AIUsageTracker, UsageSummary, aiUsage, calculateCost, formatUsageSummary } from './ai-usage';
+
+export const ESTIMATE_FLAG = '--estimate';
+
+export function isEstimateOnly(): boolean {
+  return process.env.AI_ESTIMATE_ONLY === 'true';
+}
+
+/**
+ * Record the estimated usage of a request instead of sending it
+ *
+ * @param usage Tracker to record in (default: the shared aiUsage)
+ * @returns Estimated input tokens and the output tokens counted (max tokens)
+ */
+export function recordEstimate(
+  request: AIRequest,
+  usage: AIUsageTracker = aiUsage
+): { inputTokens: number; outputTokens: number } {
+  const inputTokens = estimateInputTokens(request);
+  const images = countImages(request);
+
+  usage.record(request.model, request.feature, inputTokens, request.maxTokens);
+  console.log(
+    `🧮 Estimated ${request.feature || 'AI'} call (model: ${request.model}): ` +
+    `~${inputTokens} input tokens${images > 0 ? ` incl. ${images} image(s)` : ''}, up to ${request.maxTokens} output`
+  );
+
+  return { inputTokens, outputTokens: request.maxTokens };
+}
+
+/**
+ * Format estimated usage, with the input-only cost as the lower bound
+ */
+export function formatCostEstimate(summary: UsageSummary): string {
+  const inputOnlyUsd = Object.entries(summary.byModel).reduce(
+    (sum, [model, totals]) => sum + calculateCost(model, totals.inputTokens, 0),
+    0
+  );
+
+  return [
+    formatUsageSummary(summary, '🧮 AI Cost Estimate (no API calls made)'),
+    '',
+    '   Input is estimated from prompt text and image sizes; output is counted at',
+    "   each call's max tokens, so the total is an upper bound.",
+    `   Input only: $${inputOnlyUsd.toFixed(4)}   With max output: $${summary.total.costUsd.toFixed(4)}`,
+  ].join('\n');
+}
+
+/**
+ * Enable estimate mode from a CLI's arguments
+ *
+ * Removes --estimate from the arguments. In estimate mode (flag or
+ * AI_ESTIMATE_ONLY), the estimate is printed when the process exits.
+ *
+ * @returns The arguments without the flag
+ */
+export function handleEstimateFlag(args: string[]): string[] {
+  const rest = args.filter((arg) => arg !== ESTIMATE_FLAG);
+  if (rest.length !== args.length) {
+    process.env.AI_ESTIMATE_ONLY = 'true';
+  }
+
+  if (isEstimateOnly()) {
+    process.on('exit', () => {
+      const usage = aiUsage.getWorkerUsage();
+      if (usage.total.calls > 0) {
+        console.log('\n' + formatCostEstimate(usage) + '\n');
+      }
+    });
+  }
+
+  return rest;
+}
@@ -0,0 +1,170 @@
+/**
+ * Structured AI Output
+ *
+ * Extraction of JSON from model text and validation against a small
+ * JSON Schema subset. Used by aiClient.askJSON() so every helper parses
+ * model output the same way.
+ *
+ * Supported keywords: type, properties, required, items, enum, minimum, maximum.
+ */
+
+export type JSONSchema =
+  | { type: 'string'; enum?: readonly string[]; description?: string }
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number; description?: string }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; items?: JSONSchema; description?: string }
+  | {
+      type: 'object';
+      properties: Record<string, JSONSchema>;
+      required?: readonly string[];
+      description?: string;
+    };
+
+/**
+ * Thrown by askJSON() when the model output is still invalid after repair
+ */
+export class AIResponseValidationError extends Error {
+  readonly errors: string[];
+  readonly rawResponse: string;
+
+  constructor(errors: string[], rawResponse: string) {
+    super(
+      `AI response does not match the expected schema:\n` +
+      errors.map((e) => `  - ${e}`).join('\n') +
+      `\nRaw response: ${rawResponse.trim().slice(0, 500)}`
+    );
+    this.name = 'AIResponseValidationError';
+    this.errors = errors;
+    this.rawResponse = rawResponse;
+  }
+}
+
+/**
+ * Extract the JSON part of a model response
+ *
+ * Handles markdown code blocks and JSON surrounded by prose.
+ */
+export function extractJSON(text: string): string {
+  // Try to extract JSON from markdown code blocks
+  const codeBlockMatch = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  if (codeBlockMatch) {
+    return codeBlockMatch[1].trim();
+  }
+
+  // Try to find JSON object in text, then JSON array
+  const jsonMatch = text.match(/\{[\s\S]*\}/) || text.match(/\[[\s\S]*\]/);
+  if (jsonMatch) {
+    return jsonMatch[0];
+  }
+
+  return text.trim();
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @returns List of validation errors (empty when valid)
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path: string = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected string, got ${describe(value)}`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: expected one of ${schema.enum.map((e) => `"${e}"`).join(', ')}, got "${value}"`];
+      }
+      return [];
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || isNaN(value)) return [`${path}: expected number, got ${describe(value)}`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path}: expected integer, got ${value}`];
+      const errors: string[] = [];
+      if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+      return errors;
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describe(value)}`];
+
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+      return schema.items
+        ? value.flatMap((item, i) => validateSchema(item, schema.items!, `${path}[${i}]`))
+        : [];
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describe(value)}`];
+      }
+      const obj = value as Record<string, unknown>;
+      const errors: string[] = [];
+
+      for (const key of schema.required || []) {
+        if (obj[key] === undefined) errors.push(`${path}.${key}: is required`);
+      }
+
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (obj[key] !== undefined) {
+          errors.push(...validateSchema(obj[key], propertySchema, `${path}.${key}`));
+        }
+      }
+
+      return errors;
+    }
+  }
+}
+
+/**
+ * Smallest value that satisfies a schema
+ *
+ * Numbers take their maximum (a confidence of 1), strings their first enum
+ * value, and objects only their required properties. Used as the answer
+ * to JSON questions in estimate mode (see config/ai-estimate.ts).
+ */
+export function placeholderFromSchema(schema: JSONSchema): unknown {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum?.[0] ?? '';
+    case 'number':
+    case 'integer':
+      return schema.maximum ?? schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [];
+    case 'object':
+      return Object.fromEntries(
+        (schema.required || [])
+          .filter((key) => schema.properties[key])
+          .map((key) => [key, placeholderFromSchema(schema.properties[key])])
+      );
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Parse and validate model text
+ *
+ * @returns The parsed value, or the list of problems found
+ */
+export function parseJSONResponse<T>(
+  text: string,
+  schema: JSONSchema
+): { ok: true; value: T } | { ok: false; errors: string[] } {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(extractJSON(text));
+  } catch (error) {
+    return { ok: false, errors: [`response is not valid JSON (${(error as Error).message})`] };
+  }
+
+  const errors = validateSchema(parsed, schema);
+  return errors.length === 0 ? { ok: true, value: parsed as T } : { ok: false, errors };
+}
@@ -0,0 +1,37 @@
+/**
+ * AI Metrics - Latency statistics shared by the model health check and evals
+ */
+
+export interface LatencyStats {
+  samples: number[];
+  min: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  max: number;
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+export function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/**
+ * Min, p50, p90, p95 and max of latency samples (undefined without samples)
+ */
+export function summarizeLatencies(samples: number[]): LatencyStats | undefined {
+  if (samples.length === 0) return undefined;
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    samples,
+    min: sorted[0],
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    max: sorted[sorted.length - 1],
+  };
+}
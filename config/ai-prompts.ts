@@ -0,0 +1,235 @@
+/**
+ * AI Prompt Registry - Named, versioned prompt templates
+ *
+ * Every prompt the framework sends lives in a file under prompts/, so
+ * tuning one doesn't mean forking the helper that uses it. A project can
+ * override any template by putting a file with the same id in its own
+ * directory (AI_PROMPTS_DIR). The id and version of the template are
+ * passed along with the request and reported with the result, so a change
+ * in behaviour can be traced back to the prompt revision that caused it.
+ *
+ * Template file (<dir>/<id>.md):
+ * ```
+ * ---
+ * id: assertions.visual
+ * version: 1.0.0
+ * description: One-line summary
+ * ---
+ * === system ===
+ * System prompt (optional section)
+ * === user ===
+ * Prompt text with {{variables}}
+ * ```
+ *
+ * Interpolation:
+ *   {{name}}                 value of a variable (must be passed, may be empty)
+ *   {{#name}}...{{/name}}    rendered only when the variable is non-empty
+ *   {{^name}}...{{/name}}    rendered only when the variable is empty
+ *
+ * Configuration (.env):
+ *   AI_PROMPTS_DIR=./ai-prompts   (project overrides, optional)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface PromptRef {
+  id: string;
+  version: string;
+}
+
+export interface PromptTemplate extends PromptRef {
+  description?: string;
+  system?: string;
+  user: string;
+  /** File the template was loaded from */
+  source: string;
+}
+
+export interface RenderedPrompt {
+  system?: string;
+  user: string;
+  /** Template the prompt was rendered from */
+  ref: PromptRef;
+}
+
+export type PromptVariables = Record<string, string | number | boolean | null | undefined>;
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * "assertions.visual@1.0.0"
+ */
+export function formatPromptRef(ref: PromptRef): string {
+  return `${ref.id}@${ref.version}`;
+}
+
+export const BUILT_IN_PROMPTS_DIR = path.join(__dirname, '../prompts');
+
+/**
+ * Directories searched for templates, highest priority first
+ */
+export function getPromptDirs(): string[] {
+  const overrideDir = process.env.AI_PROMPTS_DIR;
+  return overrideDir ? [path.resolve(overrideDir), BUILT_IN_PROMPTS_DIR] : [BUILT_IN_PROMPTS_DIR];
+}
+
+/**
+ * Parse the contents of a template file
+ */
+export function parsePromptTemplate(text: string, source: string): PromptTemplate {
+  const match = text.replace(/\r\n/g, '\n').match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  if (!match) {
+    throw new PromptTemplateError(`Prompt template ${source} has no front matter (--- id/version ---)`);
+  }
+
+  const meta: Record<string, string> = {};
+  for (const line of match[1].split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      meta[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  if (!meta.id || !meta.version) {
+    throw new PromptTemplateError(`Prompt template ${source} must declare an id and a version`);
+  }
+
+  const sections: Record<string, string> = {};
+  let current: string | null = null;
+  for (const line of match[2].split('\n')) {
+    const header = line.match(/^=== (system|user) ===$/);
+    if (header) {
+      current = header[1];
+      sections[current] = '';
+    } else if (current) {
+      sections[current] += `${line}\n`;
+    }
+  }
+
+  if (sections.user === undefined) {
+    throw new PromptTemplateError(`Prompt template ${source} has no "=== user ===" section`);
+  }
+
+  return {
+    id: meta.id,
+    version: meta.version,
+    description: meta.description,
+    system: sections.system?.trim() || undefined,
+    user: sections.user.trim(),
+    source,
+  };
+}
+
+/**
+ * Fill in {{variables}} and {{#sections}}
+ *
+ * @throws PromptTemplateError when a referenced variable wasn't passed
+ */
+export function interpolate(template: string, variables: PromptVariables, templateId: string): string {
+  const missing = new Set<string>();
+  const isSet = (name: string) => {
+    if (!(name in variables)) missing.add(name);
+    const value = variables[name];
+    return value !== undefined && value !== null && value !== false && value !== '';
+  };
+
+  const text = template
+    .replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_, kind: string, name: string, body: string) =>
+      isSet(name) === (kind === '#') ? body : ''
+    )
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+      isSet(name);
+      const value = variables[name];
+      return value === undefined || value === null ? '' : String(value);
+    });
+
+  if (missing.size > 0) {
+    throw new PromptTemplateError(
+      `Prompt "${templateId}" needs variable(s) that were not passed: ${[...missing].join(', ')}`
+    );
+  }
+
+  return text;
+}
+
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplate>();
+
+  /**
+   * Load a template (project override first, then the built-in one)
+   *
+   * @throws PromptTemplateError if no directory has the template
+   */
+  get(id: string): PromptTemplate {
+    const cached = this.templates.get(id);
+    if (cached) return cached;
+
+    const dirs = getPromptDirs();
+    for (const dir of dirs) {
+      const filePath = path.join(dir, `${id}.md`);
+      if (!fs.existsSync(filePath)) continue;
+
+      const template = parsePromptTemplate(fs.readFileSync(filePath, 'utf-8'), filePath);
+      if (template.id !== id) {
+        throw new PromptTemplateError(`Prompt template ${filePath} declares id "${template.id}", expected "${id}"`);
+      }
+
+      this.templates.set(id, template);
+      return template;
+    }
+
+    throw new PromptTemplateError(`Prompt template "${id}" not found in: ${dirs.join(', ')}`);
+  }
+
+  /**
+   * Render a template with its variables
+   *
+   * @example
+   * ```typescript
+   * const prompt = prompts.render('assertions.visual', { description });
+   * await aiClient.askJSON(prompt.user, VERDICT_SCHEMA, {
+   *   systemPrompt: prompt.system,
+   *   prompt: prompt.ref,
+   * });
+   * ```
+   */
+  render(id: string, variables: PromptVariables = {}): RenderedPrompt {
+    const template = this.get(id);
+
+    return {
+      system: template.system && interpolate(template.system, variables, id),
+      user: interpolate(template.user, variables, id),
+      ref: { id: template.id, version: template.version },
+    };
+  }
+
+  /**
+   * All templates available, with overrides applied
+   */
+  list(): PromptTemplate[] {
+    const ids = new Set<string>();
+    for (const dir of getPromptDirs()) {
+      if (!fs.existsSync(dir)) continue;
+      for (const file of fs.readdirSync(dir)) {
+        if (file.endsWith('.md')) ids.add(file.slice(0, -3));
+      }
+    }
+
+    return [...ids].sort().map((id) => this.get(id));
+  }
+
+  /**
+   * Forget loaded templates (e.g. after changing AI_PROMPTS_DIR)
+   */
+  clear(): void {
+    this.templates.clear();
+  }
+}
+
+export const prompts = new PromptRegistry();
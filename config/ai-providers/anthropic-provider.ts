@@ -0,0 +1,81 @@
+/**
+ * Anthropic Provider (default)
+ *
+ * Calls the Claude Messages API through @anthropic-ai/sdk.
+ *
+ * Setup:
+ *   AI_PROVIDER=anthropic   (default)
+ *   ANTHROPIC_API_KEY=sk-ant-...
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { BaseAIProvider, AIProviderResponse } from './base-provider';
+import { AIContentBlock, AIRequest } from '../ai-request';
+import { AIUnavailableError } from '../ai-errors';
+
+export class AnthropicProvider extends BaseAIProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic | null = null;
+
+  getUnavailableReason(): string | null {
+    return process.env.ANTHROPIC_API_KEY ? null : 'ANTHROPIC_API_KEY is not set in environment variables';
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      const reason = this.getUnavailableReason();
+      if (reason) {
+        throw new AIUnavailableError(reason);
+      }
+
+      this.client = new Anthropic({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        // Retries are handled by AIClient so they feed the circuit breaker
+        maxRetries: 0,
+      });
+    }
+
+    return this.client;
+  }
+
+  async complete(request: AIRequest): Promise<AIProviderResponse> {
+    const message = await this.getClient().messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      system: request.system,
+      messages: request.messages.map((m) => ({
+        role: m.role,
+        content: typeof m.content === 'string' ? m.content : m.content.map(toAnthropicBlock),
+      })),
+    });
+
+    const block = message.content[0];
+    if (block.type !== 'text') {
+      throw new Error('Unexpected response type from AI');
+    }
+
+    return {
+      text: block.text,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+      },
+    };
+  }
+}
+
+function toAnthropicBlock(block: AIContentBlock): Anthropic.ContentBlockParam {
+  if (block.type === 'text') {
+    return { type: 'text', text: block.text };
+  }
+
+  return {
+    type: 'image',
+    source: {
+      type: 'base64',
+      media_type: block.mediaType,
+      data: block.data,
+    },
+  };
+}
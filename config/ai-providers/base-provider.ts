@@ -0,0 +1,46 @@
+/**
+ * Base interface for LLM backends
+ * Implement this class to run the AI features against a different backend
+ * (Anthropic, OpenAI-compatible servers, on-prem models, etc.)
+ */
+
+import { MODEL_VERSIONS, ModelName } from '../model-versions';
+import { AIRequest } from '../ai-request';
+
+export interface AIProviderUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIProviderResponse {
+  text: string;
+  usage: AIProviderUsage;
+}
+
+export abstract class BaseAIProvider {
+  /**
+   * Provider name used in logs and configuration (AI_PROVIDER)
+   */
+  abstract readonly name: string;
+
+  /**
+   * Send a request to the backend
+   * @param request Normalized request (model ID, system prompt, messages)
+   * @returns The answer text and token usage
+   */
+  abstract complete(request: AIRequest): Promise<AIProviderResponse>;
+
+  /**
+   * Reason the provider can't be used, or null when it is configured
+   */
+  abstract getUnavailableReason(): string | null;
+
+  /**
+   * Map an abstract model tier (haiku/sonnet/opus) to a backend model ID
+   * @param model The abstract model name
+   * @returns The model ID sent to the backend
+   */
+  resolveModel(model: ModelName): string {
+    return MODEL_VERSIONS[model];
+  }
+}
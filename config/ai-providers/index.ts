@@ -0,0 +1,32 @@
+export { BaseAIProvider, type AIProviderResponse, type AIProviderUsage } from './base-provider';
+export { AnthropicProvider } from './anthropic-provider';
+export {
+  OpenAICompatibleProvider,
+  AIProviderHTTPError,
+  type OpenAICompatibleConfig,
+} from './openai-compatible-provider';
+
+import { BaseAIProvider } from './base-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+
+export type AIProviderName = 'anthropic' | 'openai-compatible';
+
+export function getAIProviderName(): AIProviderName {
+  const name = (process.env.AI_PROVIDER || 'anthropic').toLowerCase();
+
+  if (name !== 'anthropic' && name !== 'openai-compatible') {
+    throw new Error(`Invalid AI_PROVIDER: "${name}" (expected anthropic or openai-compatible)`);
+  }
+
+  return name;
+}
+
+/**
+ * Create the provider selected by AI_PROVIDER (default: anthropic)
+ */
+export function createAIProvider(): BaseAIProvider {
+  return getAIProviderName() === 'openai-compatible'
+    ? OpenAICompatibleProvider.fromEnv()
+    : new AnthropicProvider();
+}
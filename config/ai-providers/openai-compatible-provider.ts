@@ -0,0 +1,153 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Calls any server implementing POST /v1/chat/completions (vLLM, Ollama,
+ * LM Studio, LocalAI, llama.cpp server, ...). Lets assertions and healing
+ * run against an on-prem model when screenshots can't leave the network.
+ *
+ * Setup (.env):
+ *   AI_PROVIDER=openai-compatible
+ *   AI_OPENAI_BASE_URL=http://localhost:11434/v1
+ *   AI_OPENAI_API_KEY=optional-key
+ *   AI_OPENAI_MODEL=llava:13b                 (model used for every tier)
+ *   AI_OPENAI_MODEL_HAIKU=llava:7b            (optional per-tier override)
+ *   AI_OPENAI_MODEL_SONNET=llava:13b
+ *   AI_OPENAI_MODEL_OPUS=llava:34b
+ *   AI_OPENAI_TIMEOUT_MS=120000
+ */
+
+import { BaseAIProvider, AIProviderResponse } from './base-provider';
+import { ModelName } from '../model-versions';
+import { AIContentBlock, AIRequest, toContentBlocks } from '../ai-request';
+import { AIUnavailableError } from '../ai-errors';
+
+export interface OpenAICompatibleConfig {
+  baseURL: string;
+  apiKey?: string;
+  /** Default model for every tier */
+  model?: string;
+  /** Per-tier model overrides */
+  models?: Partial<Record<ModelName, string>>;
+  timeoutMs?: number;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{ message: { content: string | null } }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+/**
+ * HTTP error from the backend
+ * Carries status and headers so classifyAIError() can decide on retries.
+ */
+export class AIProviderHTTPError extends Error {
+  readonly status: number;
+  readonly headers: Headers;
+
+  constructor(status: number, headers: Headers, body: string) {
+    super(`OpenAI-compatible backend returned ${status}: ${body.slice(0, 500)}`);
+    this.name = 'AIProviderHTTPError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+export class OpenAICompatibleProvider extends BaseAIProvider {
+  readonly name = 'openai-compatible';
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super();
+    this.config = config;
+  }
+
+  static fromEnv(): OpenAICompatibleProvider {
+    return new OpenAICompatibleProvider({
+      baseURL: process.env.AI_OPENAI_BASE_URL || '',
+      apiKey: process.env.AI_OPENAI_API_KEY,
+      model: process.env.AI_OPENAI_MODEL,
+      models: {
+        haiku: process.env.AI_OPENAI_MODEL_HAIKU,
+        sonnet: process.env.AI_OPENAI_MODEL_SONNET,
+        opus: process.env.AI_OPENAI_MODEL_OPUS,
+      },
+      timeoutMs: parseInt(process.env.AI_OPENAI_TIMEOUT_MS || '120000', 10),
+    });
+  }
+
+  getUnavailableReason(): string | null {
+    if (!this.config.baseURL) {
+      return 'AI_OPENAI_BASE_URL is not set in environment variables';
+    }
+    if (!this.config.model && !Object.values(this.config.models || {}).some(Boolean)) {
+      return 'AI_OPENAI_MODEL is not set in environment variables';
+    }
+    return null;
+  }
+
+  resolveModel(model: ModelName): string {
+    return this.config.models?.[model] || this.config.model || super.resolveModel(model);
+  }
+
+  async complete(request: AIRequest): Promise<AIProviderResponse> {
+    const reason = this.getUnavailableReason();
+    if (reason) {
+      throw new AIUnavailableError(reason);
+    }
+
+    const messages: Array<{ role: string; content: unknown }> = [];
+    if (request.system) {
+      messages.push({ role: 'system', content: request.system });
+    }
+    for (const m of request.messages) {
+      messages.push({
+        role: m.role,
+        content: typeof m.content === 'string' ? m.content : toContentBlocks(m.content).map(toOpenAIPart),
+      });
+    }
+
+    const response = await fetch(`${this.config.baseURL.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages,
+      }),
+      signal: AbortSignal.timeout(this.config.timeoutMs || 120000),
+    });
+
+    if (!response.ok) {
+      throw new AIProviderHTTPError(response.status, response.headers, await response.text());
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('Unexpected response format from OpenAI-compatible backend');
+    }
+
+    return {
+      text,
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+}
+
+function toOpenAIPart(block: AIContentBlock) {
+  if (block.type === 'text') {
+    return { type: 'text', text: block.text };
+  }
+
+  return {
+    type: 'image_url',
+    image_url: { url: `data:${block.mediaType};base64,${block.data}` },
+  };
+}
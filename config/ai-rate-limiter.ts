@@ -0,0 +1,213 @@
+/**
+ * AI Rate Limiter - Token buckets shared by all worker processes
+ *
+ * Every Playwright worker has its own AIClient, so per-process limits
+ * can't keep the account under its requests-per-minute (RPM) and input
+ * tokens-per-minute (TPM) limits. The buckets live in small JSON files
+ * guarded by a lock file, one per model tier. A request that doesn't fit
+ * waits until the bucket has refilled instead of failing with a 429.
+ *
+ * Configuration (.env) - no limit applies unless one is set:
+ *   AI_RATE_LIMIT_RPM=50                  (all tiers)
+ *   AI_RATE_LIMIT_TPM=40000               (input tokens, all tiers)
+ *   AI_RATE_LIMIT_<TIER>_RPM=...          (per tier, e.g. AI_RATE_LIMIT_OPUS_RPM)
+ *   AI_RATE_LIMIT_<TIER>_TPM=...
+ *   AI_RATE_LIMIT_DIR=./.ai-rate-limit    (default: ./.ai-rate-limit)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModelName } from './model-versions';
+
+export interface RateLimits {
+  /** Requests per minute */
+  rpm?: number;
+  /** Input tokens per minute */
+  tpm?: number;
+}
+
+interface BucketState {
+  requests: number;
+  tokens: number;
+  updatedAt: number;
+}
+
+const LOCK_STALE_MS = 10000;
+
+function parseLimit(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return undefined;
+
+  const value = parseInt(raw, 10);
+  if (isNaN(value) || value <= 0) {
+    throw new Error(`Invalid ${name}: "${raw}" (expected a positive integer)`);
+  }
+
+  return value;
+}
+
+/**
+ * Limits for a model tier (null when unlimited)
+ *
+ * AI_RATE_LIMIT_<TIER>_RPM/TPM win over AI_RATE_LIMIT_RPM/TPM.
+ *
+ * @param tier Model tier, or undefined for models outside the haiku/sonnet/opus mapping
+ */
+export function getRateLimits(tier?: ModelName): RateLimits | null {
+  const prefix = tier ? `AI_RATE_LIMIT_${tier.toUpperCase()}` : undefined;
+  const limits: RateLimits = {
+    rpm: (prefix ? parseLimit(`${prefix}_RPM`) : undefined) ?? parseLimit('AI_RATE_LIMIT_RPM'),
+    tpm: (prefix ? parseLimit(`${prefix}_TPM`) : undefined) ?? parseLimit('AI_RATE_LIMIT_TPM'),
+  };
+
+  return limits.rpm || limits.tpm ? limits : null;
+}
+
+export function getRateLimitDir(): string {
+  return path.resolve(process.env.AI_RATE_LIMIT_DIR || './.ai-rate-limit');
+}
+
+/**
+ * Remove bucket state and locks left by a previous run (called from global setup)
+ */
+export function resetRateLimits(): void {
+  fs.rmSync(getRateLimitDir(), { recursive: true, force: true });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class AIRateLimiter {
+  private dir: string;
+
+  constructor(dir: string = getRateLimitDir()) {
+    this.dir = dir;
+  }
+
+  /**
+   * Wait until the bucket has room for one request of the given size, then take it
+   *
+   * Requests larger than the whole TPM budget only wait for a full bucket.
+   *
+   * @param bucket Bucket name (the model tier or model ID)
+   * @param estimatedTokens Estimated input tokens of the request
+   */
+  async acquire(bucket: string, limits: RateLimits, estimatedTokens: number): Promise<void> {
+    const tokensNeeded = limits.tpm ? Math.min(estimatedTokens, limits.tpm) : 0;
+    let queuedSince = 0;
+
+    for (;;) {
+      const waitMs = await this.withLock(bucket, () => {
+        const state = this.refill(this.read(bucket, limits), limits);
+        const requestWait = limits.rpm && state.requests < 1
+          ? ((1 - state.requests) * 60000) / limits.rpm
+          : 0;
+        const tokenWait = limits.tpm && state.tokens < tokensNeeded
+          ? ((tokensNeeded - state.tokens) * 60000) / limits.tpm
+          : 0;
+
+        if (requestWait === 0 && tokenWait === 0) {
+          state.requests -= limits.rpm ? 1 : 0;
+          state.tokens -= tokensNeeded;
+        }
+
+        this.write(bucket, state);
+        return Math.ceil(Math.max(requestWait, tokenWait));
+      });
+
+      if (waitMs === 0) {
+        if (queuedSince) {
+          console.log(`🚦 AI request released after ${Date.now() - queuedSince}ms in the ${bucket} rate limit queue`);
+        }
+        return;
+      }
+
+      if (!queuedSince) {
+        queuedSince = Date.now();
+        console.log(`🚦 AI rate limit reached (${bucket}) - request queued for ~${waitMs}ms`);
+      }
+
+      // Small jitter so queued workers don't all wake up at once
+      await sleep(waitMs + Math.floor(Math.random() * 50));
+    }
+  }
+
+  /**
+   * Correct the bucket once the real token usage is known
+   *
+   * @param tokenDelta Actual minus estimated input tokens
+   */
+  async settle(bucket: string, limits: RateLimits, tokenDelta: number): Promise<void> {
+    if (!limits.tpm || tokenDelta === 0) return;
+
+    await this.withLock(bucket, () => {
+      const state = this.refill(this.read(bucket, limits), limits);
+      state.tokens -= tokenDelta;
+      this.write(bucket, state);
+    });
+  }
+
+  private refill(state: BucketState, limits: RateLimits): BucketState {
+    const now = Date.now();
+    const elapsed = Math.max(0, now - state.updatedAt);
+
+    return {
+      requests: limits.rpm ? Math.min(limits.rpm, state.requests + (elapsed * limits.rpm) / 60000) : 0,
+      tokens: limits.tpm ? Math.min(limits.tpm, state.tokens + (elapsed * limits.tpm) / 60000) : 0,
+      updatedAt: now,
+    };
+  }
+
+  private bucketPath(bucket: string): string {
+    return path.join(this.dir, `${bucket.replace(/[^a-zA-Z0-9._-]+/g, '_')}.json`);
+  }
+
+  private read(bucket: string, limits: RateLimits): BucketState {
+    try {
+      return JSON.parse(fs.readFileSync(this.bucketPath(bucket), 'utf-8'));
+    } catch {
+      // New (or unreadable) bucket starts full
+      return { requests: limits.rpm || 0, tokens: limits.tpm || 0, updatedAt: Date.now() };
+    }
+  }
+
+  private write(bucket: string, state: BucketState): void {
+    fs.writeFileSync(this.bucketPath(bucket), JSON.stringify(state));
+  }
+
+  /**
+   * Run fn while holding the bucket's lock file
+   *
+   * The critical section is a synchronous read-modify-write, so the lock is
+   * held for well under a millisecond; waiting for it yields to the event
+   * loop. A lock left behind by a crashed worker is removed after LOCK_STALE_MS.
+   */
+  private async withLock<T>(bucket: string, fn: () => T): Promise<T> {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const lockPath = `${this.bucketPath(bucket)}.lock`;
+
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(lockPath, 'wx'));
+        break;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+
+        try {
+          if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+            fs.unlinkSync(lockPath);
+          }
+        } catch {
+          // Lock released in the meantime
+        }
+
+        await sleep(5);
+      }
+    }
+
+    try {
+      return fn();
+    } finally {
+      fs.unlinkSync(lockPath);
+    }
+  }
+}
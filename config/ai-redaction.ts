@@ -0,0 +1,293 @@
+/**
+ * AI Redaction - Secrets and personal data never reach the model
+ *
+ * Every request goes through the redactor before AIClient sends it (or
+ * looks it up in the cache): text matching a redaction rule, in the system
+ * prompt or any message, is replaced with "[REDACTED:<rule>]". Wording the
+ * test must send as written, such as an expected email address, is marked
+ * with keepUnredacted(). Screenshots taken for the AI helpers mask elements
+ * marked sensitive. Each redaction is logged (rule and count, never the
+ * value) and attached to the test results by the aiRedactionLog fixture, as
+ * evidence for data-handling policies.
+ *
+ * Built-in rules: api-key, jwt, bearer-token, email, card-number
+ *
+ * Configuration (.env):
+ *   AI_REDACTION_ENABLED=true                      (default: true)
+ *   AI_REDACTION_DISABLE=email                     (built-in rules to turn off, comma-separated)
+ *   AI_REDACTION_PATTERN_CUSTOMER_ID=CUST-\d{8}    (extra rule "customer-id", regex)
+ *   AI_SENSITIVE_SELECTORS=.user-profile,#ssn      (masked in screenshots, in addition to
+ *                                                   [data-ai-sensitive] and password inputs)
+ */
+
+import { Page } from '@playwright/test';
+import { AIFeature, AIRequest, toContentBlocks } from './ai-request';
+
+export interface RedactionRule {
+  name: string;
+  /** Global regex matching the values to redact */
+  pattern: RegExp;
+  /** Extra check on a match (e.g. Luhn for card numbers) */
+  validate?: (match: string) => boolean;
+}
+
+export interface RedactionRecord {
+  timestamp: string;
+  /** What was redacted: request text, page data collected for a prompt, or screenshot elements */
+  target: 'text' | 'dom' | 'screenshot';
+  /** Rule name, or the selector that was masked */
+  rule: string;
+  count: number;
+  feature?: AIFeature;
+}
+
+/**
+ * Luhn checksum, so order numbers and timestamps aren't taken for card numbers
+ */
+function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+export const DEFAULT_REDACTION_RULES: readonly RedactionRule[] = [
+  {
+    name: 'api-key',
+    pattern: /\b(?:sk-ant-[A-Za-z0-9_-]{20,}|sk-[A-Za-z0-9_-]{20,}|(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,})/g,
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+  },
+  {
+    name: 'bearer-token',
+    pattern: /\bBearer\s+[A-Za-z0-9._~+/=-]{16,}/g,
+  },
+  {
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    name: 'card-number',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isLuhnValid,
+  },
+];
+
+const KEEP_UNREDACTED_PATTERN = /<keep_unredacted>([\s\S]*?)<\/keep_unredacted>/g;
+
+/**
+ * Mark text the test author wrote to be sent as written
+ *
+ * Everything else in a request is redacted. The markers are removed before
+ * the request is sent, whether redaction is enabled or not.
+ *
+ * @example
+ * ```typescript
+ * await aiAssert.assertSemanticMeaning(page, `A greeting for ${keepUnredacted('jane.doe@example.com')}`);
+ * ```
+ */
+export function keepUnredacted(text: string): string {
+  return `<keep_unredacted>${text}</keep_unredacted>`;
+}
+
+export const DEFAULT_SENSITIVE_SELECTORS: readonly string[] = ['[data-ai-sensitive]', 'input[type="password"]'];
+
+export function isRedactionEnabled(): boolean {
+  return process.env.AI_REDACTION_ENABLED !== 'false';
+}
+
+/**
+ * Built-in rules minus AI_REDACTION_DISABLE, plus AI_REDACTION_PATTERN_* rules
+ */
+export function loadRedactionRules(): RedactionRule[] {
+  const disabled = (process.env.AI_REDACTION_DISABLE || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const rules = DEFAULT_REDACTION_RULES.filter((rule) => !disabled.includes(rule.name));
+
+  for (const [key, value] of Object.entries(process.env)) {
+    const match = key.match(/^AI_REDACTION_PATTERN_(.+)$/);
+    if (!match || !value) continue;
+
+    const name = match[1].toLowerCase().replace(/_/g, '-');
+    try {
+      rules.push({ name, pattern: new RegExp(value, 'g') });
+    } catch (error) {
+      throw new Error(`Invalid ${key}: ${(error as Error).message}`);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Selectors masked in screenshots sent to the AI
+ */
+export function getSensitiveSelectors(): string[] {
+  const extra = (process.env.AI_SENSITIVE_SELECTORS || '')
+    .split(',')
+    .map((selector) => selector.trim())
+    .filter(Boolean);
+
+  return [...DEFAULT_SENSITIVE_SELECTORS, ...extra];
+}
+
+export class AIRedactor {
+  private rules: RedactionRule[] | null = null;
+  private log: RedactionRecord[] = [];
+
+  /**
+   * Active rules (loaded from the environment on first use)
+   */
+  getRules(): RedactionRule[] {
+    if (!this.rules) {
+      this.rules = loadRedactionRules();
+    }
+
+    return this.rules;
+  }
+
+  /**
+   * Add a project-specific rule
+   *
+   * @example
+   * ```typescript
+   * aiRedactor.addRule({ name: 'customer-id', pattern: /CUST-\d{8}/g });
+   * ```
+   */
+  addRule(rule: RedactionRule): void {
+    this.getRules().push({
+      ...rule,
+      pattern: rule.pattern.global ? rule.pattern : new RegExp(rule.pattern.source, `${rule.pattern.flags}g`),
+    });
+  }
+
+  /**
+   * Replace every match of the rules in a text
+   *
+   * @returns The redacted text and the number of values redacted per rule
+   */
+  redactText(text: string): { text: string; counts: Record<string, number> } {
+    const counts: Record<string, number> = {};
+
+    for (const rule of this.getRules()) {
+      text = text.replace(rule.pattern, (match) => {
+        if (rule.validate && !rule.validate(match)) return match;
+        counts[rule.name] = (counts[rule.name] || 0) + 1;
+        return `[REDACTED:${rule.name}]`;
+      });
+    }
+
+    return { text, counts };
+  }
+
+  /**
+   * Redact the system prompt and every message of a request
+   *
+   * Text marked with keepUnredacted() is sent as written, without its
+   * markers. Redactions are added to the log. Images are left untouched;
+   * mask them when the screenshot is taken (takeRedactedScreenshot).
+   *
+   * @returns The request to send, and the number of values redacted per rule
+   */
+  redactRequest(request: AIRequest): { request: AIRequest; counts: Record<string, number> } {
+    const enabled = isRedactionEnabled();
+    const counts: Record<string, number> = {};
+    const redactPart = (text: string) => {
+      if (!enabled) return text;
+
+      const result = this.redactText(text);
+      for (const [rule, count] of Object.entries(result.counts)) {
+        counts[rule] = (counts[rule] || 0) + count;
+      }
+      return result.text;
+    };
+    // split() keeps the captured text: odd parts were marked with keepUnredacted()
+    const redact = (text: string) =>
+      text
+        .split(KEEP_UNREDACTED_PATTERN)
+        .map((part, i) => (i % 2 === 1 ? part : redactPart(part)))
+        .join('');
+
+    const redacted: AIRequest = {
+      ...request,
+      system: request.system === undefined ? undefined : redact(request.system),
+      messages: request.messages.map((message) => ({
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? redact(message.content)
+          : toContentBlocks(message.content).map((block) =>
+              block.type === 'text' ? { type: 'text' as const, text: redact(block.text) } : block
+            ),
+      })),
+    };
+
+    for (const [rule, count] of Object.entries(counts)) {
+      this.record('text', rule, count, request.feature);
+    }
+
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    if (total > 0) {
+      const summary = Object.entries(counts).map(([rule, count]) => `${rule}×${count}`).join(', ');
+      console.log(`🔒 Redacted ${total} value(s) before sending to AI (${summary})`);
+    }
+
+    return { request: redacted, counts };
+  }
+
+  /**
+   * Log a redaction made outside redactRequest (e.g. masked screenshot elements)
+   */
+  record(target: RedactionRecord['target'], rule: string, count: number, feature?: AIFeature): void {
+    this.log.push({ timestamp: new Date().toISOString(), target, rule, count, feature });
+  }
+
+  getLog(): readonly RedactionRecord[] {
+    return this.log;
+  }
+
+  clearLog(): void {
+    this.log = [];
+  }
+}
+
+export const aiRedactor = new AIRedactor();
+
+/**
+ * Screenshot for the AI with sensitive elements masked
+ *
+ * Masks [data-ai-sensitive], password inputs and AI_SENSITIVE_SELECTORS,
+ * and logs how many elements each selector masked.
+ */
+export async function takeRedactedScreenshot(
+  page: Page,
+  options: { fullPage?: boolean; clip?: { x: number; y: number; width: number; height: number } } = {},
+  feature?: AIFeature
+): Promise<Buffer> {
+  if (!isRedactionEnabled()) {
+    return page.screenshot(options);
+  }
+
+  const selectors = getSensitiveSelectors();
+
+  for (const selector of selectors) {
+    const count = await page.locator(selector).count();
+    if (count > 0) {
+      aiRedactor.record('screenshot', selector, count, feature);
+    }
+  }
+
+  return page.screenshot({ ...options, mask: selectors.map((selector) => page.locator(selector)) });
+}
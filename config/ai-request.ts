@@ -0,0 +1,224 @@
+import * as crypto from 'crypto';
+import type { PromptRef } from './ai-prompts';
+import type { ModelName } from './model-versions';
+
+/**
+ * AI Request Description
+ *
+ * Normalized shape of a single AIClient call. Everything that influences
+ * the model's answer lives here, so the same request can be hashed,
+ * recorded and replayed regardless of which helper issued it.
+ */
+
+/**
+ * Framework feature that issued a request (used for usage/cost breakdowns)
+ */
+export type AIFeature =
+  | 'assertions.visual'
+  | 'assertions.semantic'
+  | 'assertions.layout'
+  | 'assertions.accessibility'
+  | 'assertions.data'
+  | 'assertions.visual-regression'
+  | 'assertions.description'
+  | 'assertions.description-compare'
+  | 'healing'
+  | 'generation'
+  | 'planning'
+  | 'maintenance'
+  | 'otp'
+  | 'health-check';
+
+export type ImageMediaType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+/**
+ * Content block of a message: text or a base64 image
+ */
+export type AIContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mediaType: ImageMediaType };
+
+export interface AIMessage {
+  role: 'user' | 'assistant';
+  content: string | AIContentBlock[];
+}
+
+export interface AIRequest {
+  /** Resolved model ID (e.g. 'claude-3-haiku-20240307') */
+  model: string;
+  /** Tier the model ID was resolved from, for rate limits - not part of the request key */
+  tier?: ModelName;
+  maxTokens: number;
+  /** Sampling temperature (provider default when undefined) */
+  temperature?: number;
+  system?: string;
+  /** Conversation so far, ending with the user turn to answer */
+  messages: AIMessage[];
+  /** Calling feature - not part of the request key */
+  feature?: AIFeature;
+  /** Prompt template the request was rendered from - not part of the request key */
+  prompt?: PromptRef;
+}
+
+/**
+ * Normalize message content to a list of blocks
+ */
+export function toContentBlocks(content: string | AIContentBlock[]): AIContentBlock[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/**
+ * Hash base64 image data (hashes the decoded bytes, not the base64 text)
+ */
+export function hashImage(imageBase64: string): string {
+  return crypto.createHash('sha256').update(Buffer.from(imageBase64, 'base64')).digest('hex');
+}
+
+/**
+ * Messages with image data replaced by image hashes
+ *
+ * Compact form used for request keys, cassettes and logs.
+ *
+ * @param includeImages Set to false to drop image hashes altogether
+ */
+export function describeMessages(messages: AIMessage[], includeImages: boolean = true) {
+  return messages.map((message) => ({
+    role: message.role,
+    content: toContentBlocks(message.content).map((block) =>
+      block.type === 'text'
+        ? { type: 'text' as const, text: block.text }
+        : { type: 'image' as const, imageHash: includeImages ? hashImage(block.data) : null, mediaType: block.mediaType }
+    ),
+  }));
+}
+
+/**
+ * Text of the last user turn (for error messages and logs)
+ */
+export function getLastPrompt(request: AIRequest): string {
+  const last = request.messages[request.messages.length - 1];
+  if (!last) return '';
+
+  return toContentBlocks(last.content)
+    .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+    .map((block) => block.text)
+    .join('\n');
+}
+
+/**
+ * Number of images in a request
+ */
+export function countImages(request: AIRequest): number {
+  return request.messages.reduce(
+    (count, message) => count + toContentBlocks(message.content).filter((b) => b.type === 'image').length,
+    0
+  );
+}
+
+/**
+ * Compact form of a request: what the key is built from, and what cassettes store
+ */
+export interface DescribedRequest {
+  model: string;
+  temperature?: number;
+  system?: string;
+  messages: ReturnType<typeof describeMessages>;
+}
+
+/**
+ * Stable key identifying a request
+ *
+ * Built from model ID, temperature, system prompt, message texts and image hashes.
+ * maxTokens is deliberately left out: it limits the answer length but
+ * doesn't change what is being asked.
+ *
+ * @param request The request to hash
+ * @param options.includeImage Set to false to match requests regardless of screenshot bytes
+ */
+export function getRequestKey(request: AIRequest, options?: { includeImage?: boolean }): string {
+  return getDescribedRequestKey(
+    {
+      model: request.model,
+      temperature: request.temperature,
+      system: request.system,
+      messages: describeMessages(request.messages),
+    },
+    options
+  );
+}
+
+/**
+ * Key of a request in its compact form (e.g. as stored in a cassette),
+ * equal to getRequestKey() of the original request
+ */
+export function getDescribedRequestKey(request: DescribedRequest, options?: { includeImage?: boolean }): string {
+  const includeImage = options?.includeImage ?? true;
+  const messages = includeImage
+    ? request.messages
+    : request.messages.map((message) => ({
+        role: message.role,
+        content: message.content.map((block) => (block.type === 'image' ? { ...block, imageHash: null } : block)),
+      }));
+
+  return crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify({
+        model: request.model,
+        temperature: request.temperature,
+        system: request.system || '',
+        messages,
+      })
+    )
+    .digest('hex');
+}
+
+/**
+ * Rough token count of a text (~4 characters per token)
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Approximate input tokens of an image
+ *
+ * Anthropic bills width * height / 750 tokens, after scaling the image down
+ * to a long edge of at most 1568px and about 1.15 megapixels. PNG dimensions
+ * are read from the header; other formats are assumed to be at the maximum size.
+ */
+export function estimateImageTokens(imageBase64: string, mediaType: ImageMediaType): number {
+  const maxEdge = 1568;
+  const maxPixels = 1_150_000;
+  let width = maxEdge;
+  let height = maxEdge;
+
+  if (mediaType === 'image/png') {
+    const header = Buffer.from(imageBase64.slice(0, 32), 'base64');
+    if (header.length >= 24) {
+      width = header.readUInt32BE(16);
+      height = header.readUInt32BE(20);
+    }
+  }
+
+  const pixels = Math.max(width * height, 1);
+  const scale = Math.min(1, maxEdge / Math.max(width, height, 1), Math.sqrt(maxPixels / pixels));
+  return Math.ceil((pixels * scale * scale) / 750);
+}
+
+/**
+ * Approximate input tokens of a request (system prompt, texts and images)
+ */
+export function estimateInputTokens(request: AIRequest): number {
+  let tokens = estimateTextTokens(request.system || '');
+
+  for (const message of request.messages) {
+    for (const block of toContentBlocks(message.content)) {
+      tokens += block.type === 'text'
+        ? estimateTextTokens(block.text)
+        : estimateImageTokens(block.data, block.mediaType);
+    }
+  }
+
+  return tokens;
+}
@@ -0,0 +1,159 @@
+/**
+ * AI Resilience - Retries and circuit breaking
+ *
+ * Transient API errors (429, 529, 5xx, network) are retried with
+ * exponential backoff and full jitter, honouring the retry-after header.
+ * After repeated failures the circuit breaker opens and the AI features
+ * enter a declared degraded mode: AI assertions are skipped with a
+ * warning and self-healing is disabled until the cooldown has passed.
+ *
+ * Configuration (.env):
+ *   AI_MAX_RETRIES=3                      (default: 3)
+ *   AI_RETRY_BASE_DELAY_MS=1000           (default: 1000)
+ *   AI_RETRY_MAX_DELAY_MS=30000           (default: 30000)
+ *   AI_CIRCUIT_BREAKER_THRESHOLD=5        (consecutive failed calls, default: 5)
+ *   AI_CIRCUIT_BREAKER_COOLDOWN_MS=60000  (default: 60000)
+ */
+
+import { AIErrorInfo, classifyAIError } from './ai-errors';
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export function getRetryOptions(): RetryOptions {
+  return {
+    maxRetries: parseInt(process.env.AI_MAX_RETRIES || '3', 10),
+    baseDelayMs: parseInt(process.env.AI_RETRY_BASE_DELAY_MS || '1000', 10),
+    maxDelayMs: parseInt(process.env.AI_RETRY_MAX_DELAY_MS || '30000', 10),
+  };
+}
+
+/**
+ * Delay before the next attempt
+ *
+ * Uses retry-after when the API sent one (capped at maxDelay), otherwise
+ * exponential backoff with full jitter: random(0, min(maxDelay, baseDelay * 2^attempt)).
+ */
+export function getRetryDelay(attempt: number, info: AIErrorInfo, options: RetryOptions): number {
+  if (info.retryAfterMs !== undefined) {
+    return Math.min(info.retryAfterMs, options.maxDelayMs);
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Run an API call, retrying transient errors
+ *
+ * @throws The last error once retries are exhausted or the error is not retryable
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  label: string,
+  options: RetryOptions = getRetryOptions()
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      const info = classifyAIError(error);
+
+      if (!info.retryable || attempt >= options.maxRetries) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, info, options);
+      console.warn(
+        `⏳ ${info.title} (${label}) - retry ${attempt + 1}/${options.maxRetries} in ${delay}ms`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private threshold: number;
+  private cooldownMs: number;
+
+  constructor(options?: { threshold?: number; cooldownMs?: number }) {
+    this.threshold = options?.threshold ?? parseInt(process.env.AI_CIRCUIT_BREAKER_THRESHOLD || '5', 10);
+    this.cooldownMs = options?.cooldownMs ?? parseInt(process.env.AI_CIRCUIT_BREAKER_COOLDOWN_MS || '60000', 10);
+  }
+
+  /**
+   * Whether AI calls are currently blocked
+   *
+   * After the cooldown the breaker goes half-open and lets one trial call
+   * through; calls stay blocked until that trial has settled.
+   */
+  isOpen(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half-open';
+      console.log('🔌 AI circuit breaker half-open - trying the AI backend again');
+    }
+
+    return this.state === 'open' || (this.state === 'half-open' && this.trialInFlight);
+  }
+
+  /**
+   * Claim a call: false while the breaker is open. In half-open state the
+   * first caller gets the trial call; settle it with recordSuccess(),
+   * recordFailure() or releaseTrial().
+   */
+  tryAcquire(): boolean {
+    if (this.isOpen()) return false;
+
+    if (this.state === 'half-open') {
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  /**
+   * Settle a trial call without a verdict on the backend (e.g. a non-retryable error)
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log('✅ AI backend recovered - leaving degraded mode');
+    }
+
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(info: AIErrorInfo): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.threshold) {
+      if (this.state !== 'open') {
+        console.warn(
+          `🚧 AI backend degraded after ${this.consecutiveFailures} failed call(s) (last: ${info.title}). ` +
+          `AI assertions will be skipped and self-healing disabled for ${Math.round(this.cooldownMs / 1000)}s.`
+        );
+      }
+
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  getRemainingCooldownMs(): number {
+    return this.state === 'open' ? Math.max(0, this.cooldownMs - (Date.now() - this.openedAt)) : 0;
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * AI Model Routing - Which model answers each feature
+ *
+ * DEFAULT_MODEL_ROUTES is the single table mapping every AI feature to a
+ * model tier, an answer length and a temperature. Helpers only pass their
+ * feature; AIClient looks the route up. Options passed explicitly on a call
+ * still win (e.g. the tier chosen by escalation).
+ *
+ * Resolution order (highest first):
+ *   1. Per-test overrides: test.use({ aiModelRoutes: { healing: { model: 'sonnet' } } })
+ *   2. Environment: AI_ROUTE_<FEATURE>_MODEL / _MAX_TOKENS / _TEMPERATURE
+ *   3. DEFAULT_MODEL_ROUTES
+ *
+ * AI_MODEL is the model for calls that have no route (no feature given).
+ * Models are given as a tier (haiku/sonnet/opus) or as one of the IDs in
+ * MODEL_VERSIONS. validateModelRoutes() runs in global setup, so a typo
+ * fails the run before the first test starts.
+ *
+ * Configuration (.env):
+ *   AI_MODEL=sonnet                           (default: sonnet)
+ *   AI_ROUTE_ASSERTIONS_VISUAL_MODEL=opus
+ *   AI_ROUTE_HEALING_MAX_TOKENS=2048
+ *   AI_ROUTE_GENERATION_TEMPERATURE=0.2      (0 to 1)
+ */
+
+import { AIFeature } from './ai-request';
+import { MODEL_VERSIONS, ModelName } from './model-versions';
+
+export interface ModelRoute {
+  model: ModelName;
+  maxTokens: number;
+  /** Sampling temperature (0-1); undefined leaves the provider default */
+  temperature?: number;
+}
+
+/**
+ * Features with a route (health checks always name their model)
+ */
+export type RoutedFeature = Exclude<AIFeature, 'health-check'>;
+
+export type ModelRouteOverrides = Partial<Record<RoutedFeature, Partial<ModelRoute>>>;
+
+export class ModelRoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelRoutingError';
+  }
+}
+
+/**
+ * Default route per feature
+ *
+ * Verdicts, selectors and codes run at temperature 0 so the same page gets
+ * the same answer; generated tests and documentation keep some variety.
+ */
+export const DEFAULT_MODEL_ROUTES: Readonly<Record<RoutedFeature, ModelRoute>> = {
+  'assertions.visual': { model: 'sonnet', maxTokens: 2048, temperature: 0 },
+  'assertions.semantic': { model: 'haiku', maxTokens: 512, temperature: 0 },
+  'assertions.layout': { model: 'sonnet', maxTokens: 2048, temperature: 0 },
+  'assertions.accessibility': { model: 'sonnet', maxTokens: 2048, temperature: 0 },
+  'assertions.data': { model: 'haiku', maxTokens: 512, temperature: 0 },
+  'assertions.visual-regression': { model: 'sonnet', maxTokens: 2048, temperature: 0 },
+  'assertions.description': { model: 'sonnet', maxTokens: 4096, temperature: 0 },
+  'assertions.description-compare': { model: 'haiku', maxTokens: 1024, temperature: 0 },
+  healing: { model: 'haiku', maxTokens: 1024, temperature: 0 },
+  generation: { model: 'sonnet', maxTokens: 4096, temperature: 0.7 },
+  planning: { model: 'sonnet', maxTokens: 4096, temperature: 0.7 },
+  maintenance: { model: 'sonnet', maxTokens: 4096, temperature: 0.3 },
+  otp: { model: 'haiku', maxTokens: 64, temperature: 0 },
+};
+
+export const ROUTED_FEATURES = Object.keys(DEFAULT_MODEL_ROUTES) as RoutedFeature[];
+
+/**
+ * Tier of a model given by name or by MODEL_VERSIONS ID
+ *
+ * @param source Where the value came from, for the error message
+ * @throws ModelRoutingError if the model is not in MODEL_VERSIONS
+ */
+export function parseModelName(value: string, source: string): ModelName {
+  const normalized = value.trim().toLowerCase();
+  const tiers = Object.keys(MODEL_VERSIONS) as ModelName[];
+  const tier = tiers.find((name) => name === normalized || MODEL_VERSIONS[name] === normalized);
+
+  if (!tier) {
+    throw new ModelRoutingError(
+      `Invalid ${source}: "${value}" (expected ${tiers.join(', ')} or one of: ${Object.values(MODEL_VERSIONS).join(', ')})`
+    );
+  }
+
+  return tier;
+}
+
+/**
+ * Model for calls without a feature (AI_MODEL)
+ */
+export function getDefaultModel(): ModelName {
+  const value = process.env.AI_MODEL;
+  return value ? parseModelName(value, 'AI_MODEL') : 'sonnet';
+}
+
+function getRouteEnvPrefix(feature: RoutedFeature): string {
+  return `AI_ROUTE_${feature.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+}
+
+function checkMaxTokens(value: number, source: string): number {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new ModelRoutingError(`Invalid ${source}: "${value}" (expected a positive integer)`);
+  }
+
+  return value;
+}
+
+function checkTemperature(value: number, source: string): number {
+  if (isNaN(value) || value < 0 || value > 1) {
+    throw new ModelRoutingError(`Invalid ${source}: "${value}" (expected a number between 0 and 1)`);
+  }
+
+  return value;
+}
+
+/**
+ * Route of a feature from DEFAULT_MODEL_ROUTES and AI_ROUTE_<FEATURE>_* variables
+ */
+export function loadModelRoute(feature: RoutedFeature): ModelRoute {
+  const prefix = getRouteEnvPrefix(feature);
+  const route = { ...DEFAULT_MODEL_ROUTES[feature] };
+
+  const model = process.env[`${prefix}_MODEL`];
+  if (model) {
+    route.model = parseModelName(model, `${prefix}_MODEL`);
+  }
+
+  const maxTokens = process.env[`${prefix}_MAX_TOKENS`];
+  if (maxTokens) {
+    route.maxTokens = checkMaxTokens(Number(maxTokens), `${prefix}_MAX_TOKENS`);
+  }
+
+  const temperature = process.env[`${prefix}_TEMPERATURE`];
+  if (temperature) {
+    route.temperature = checkTemperature(Number(temperature), `${prefix}_TEMPERATURE`);
+  }
+
+  return route;
+}
+
+/**
+ * Check AI_MODEL and every AI_ROUTE_* variable
+ *
+ * @throws ModelRoutingError listing every invalid setting
+ */
+export function validateModelRoutes(): void {
+  const problems: string[] = [];
+  const collect = (check: () => unknown) => {
+    try {
+      check();
+    } catch (error) {
+      if (!(error instanceof ModelRoutingError)) throw error;
+      problems.push(error.message);
+    }
+  };
+
+  collect(getDefaultModel);
+  for (const feature of ROUTED_FEATURES) {
+    collect(() => loadModelRoute(feature));
+  }
+
+  const known = new Set(ROUTED_FEATURES.map(getRouteEnvPrefix));
+  for (const key of Object.keys(process.env)) {
+    const match = key.match(/^(AI_ROUTE_.+)_(?:MODEL|MAX_TOKENS|TEMPERATURE)$/);
+    if (match && !known.has(match[1])) {
+      problems.push(`Unknown feature in ${key} (expected one of: ${ROUTED_FEATURES.join(', ')})`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ModelRoutingError(`Invalid AI model routing:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+  }
+}
+
+export class ModelRouter {
+  private testOverrides: ModelRouteOverrides = {};
+
+  /**
+   * Route for a feature, with environment and per-test overrides applied
+   */
+  resolve(feature: RoutedFeature): ModelRoute {
+    return { ...loadModelRoute(feature), ...this.testOverrides[feature] };
+  }
+
+  /**
+   * Route for a call's feature, or undefined when the call has no route
+   */
+  resolveFor(feature: AIFeature | undefined): ModelRoute | undefined {
+    return feature && feature in DEFAULT_MODEL_ROUTES ? this.resolve(feature as RoutedFeature) : undefined;
+  }
+
+  /**
+   * Override routes for the current test (set by the aiModelRoutes fixture)
+   *
+   * @throws ModelRoutingError if an override names an unknown feature or model
+   */
+  setTestOverrides(overrides: ModelRouteOverrides): void {
+    const checked: ModelRouteOverrides = {};
+
+    for (const [feature, override] of Object.entries(overrides) as Array<[RoutedFeature, Partial<ModelRoute>]>) {
+      if (!(feature in DEFAULT_MODEL_ROUTES)) {
+        throw new ModelRoutingError(
+          `Unknown feature in aiModelRoutes: "${feature}" (expected one of: ${ROUTED_FEATURES.join(', ')})`
+        );
+      }
+
+      const source = `aiModelRoutes['${feature}']`;
+      checked[feature] = {
+        ...override,
+        ...(override.model !== undefined && { model: parseModelName(override.model, `${source}.model`) }),
+        ...(override.maxTokens !== undefined && { maxTokens: checkMaxTokens(override.maxTokens, `${source}.maxTokens`) }),
+        ...(override.temperature !== undefined && {
+          temperature: checkTemperature(override.temperature, `${source}.temperature`),
+        }),
+      };
+    }
+
+    this.testOverrides = checked;
+  }
+
+  clearTestOverrides(): void {
+    this.testOverrides = {};
+  }
+}
+
+export const modelRouter = new ModelRouter();
@@ -0,0 +1,151 @@
+/**
+ * AI Transcripts - Audit log of the AI calls made by a test
+ *
+ * Records every AIClient call with its model, latency, token usage,
+ * exact prompt, raw response and references to the images that were
+ * sent. The fixture in fixtures/ai-fixtures.ts attaches the transcript
+ * (JSONL, one call per line) and the images to the test results, so a
+ * failed AI assertion can be investigated from the HTML report.
+ *
+ * Configuration (.env):
+ *   AI_TRANSCRIPT=on|off|retain-on-failure   (default: retain-on-failure)
+ */
+
+import { AIRequest, ImageMediaType, describeMessages, hashImage, toContentBlocks } from './ai-request';
+import { PromptRef } from './ai-prompts';
+import { AIProviderUsage } from './ai-providers';
+import { calculateCost } from './ai-usage';
+
+export type TranscriptMode = 'on' | 'off' | 'retain-on-failure';
+
+/**
+ * Where the response came from
+ */
+export type TranscriptSource = 'live' | 'cache' | 'cassette' | 'estimate';
+
+export interface TranscriptEntry {
+  timestamp: string;
+  model: string;
+  feature?: string;
+  prompt?: PromptRef;
+  source: TranscriptSource;
+  latencyMs: number;
+  /** Token usage (live calls, or estimated in estimate mode) */
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;
+  maxTokens: number;
+  temperature?: number;
+  system?: string;
+  /** Messages sent, with images replaced by their attachment name */
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: Array<{ type: 'text'; text: string } | { type: 'image'; imageRef: string; mediaType: ImageMediaType }>;
+  }>;
+  response?: string;
+  error?: string;
+  /** Values redacted from the request, per rule */
+  redactions?: Record<string, number>;
+}
+
+export interface TranscriptImage {
+  name: string;
+  data: Buffer;
+  mediaType: ImageMediaType;
+}
+
+export function getTranscriptMode(): TranscriptMode {
+  const mode = (process.env.AI_TRANSCRIPT || 'retain-on-failure').toLowerCase();
+
+  if (mode !== 'on' && mode !== 'off' && mode !== 'retain-on-failure') {
+    throw new Error(`Invalid AI_TRANSCRIPT: "${mode}" (expected on, off or retain-on-failure)`);
+  }
+
+  return mode;
+}
+
+/**
+ * Attachment name of an image, e.g. "ai-image-3f2a9c01b7de.png"
+ */
+export function getImageRef(imageHash: string, mediaType: ImageMediaType): string {
+  return `ai-image-${imageHash.slice(0, 12)}.${mediaType.split('/')[1]}`;
+}
+
+export class AITranscript {
+  private entries: TranscriptEntry[] = [];
+  private images = new Map<string, TranscriptImage>();
+
+  /**
+   * Add a call to the transcript
+   */
+  record(
+    request: AIRequest,
+    outcome: {
+      source: TranscriptSource;
+      latencyMs: number;
+      usage?: AIProviderUsage;
+      response?: string;
+      error?: unknown;
+      redactions?: Record<string, number>;
+    }
+  ): void {
+    for (const message of request.messages) {
+      for (const block of toContentBlocks(message.content)) {
+        if (block.type !== 'image') continue;
+
+        const name = getImageRef(hashImage(block.data), block.mediaType);
+        if (!this.images.has(name)) {
+          this.images.set(name, { name, data: Buffer.from(block.data, 'base64'), mediaType: block.mediaType });
+        }
+      }
+    }
+
+    const { usage } = outcome;
+
+    this.entries.push({
+      timestamp: new Date().toISOString(),
+      model: request.model,
+      feature: request.feature,
+      prompt: request.prompt,
+      source: outcome.source,
+      latencyMs: outcome.latencyMs,
+      inputTokens: usage?.inputTokens,
+      outputTokens: usage?.outputTokens,
+      costUsd: usage ? calculateCost(request.model, usage.inputTokens, usage.outputTokens) : undefined,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.system,
+      messages: describeMessages(request.messages).map((message) => ({
+        role: message.role,
+        content: message.content.map((block) =>
+          block.type === 'text'
+            ? block
+            : { type: 'image' as const, imageRef: getImageRef(block.imageHash!, block.mediaType), mediaType: block.mediaType }
+        ),
+      })),
+      response: outcome.response,
+      error: outcome.error === undefined
+        ? undefined
+        : outcome.error instanceof Error ? `${outcome.error.name}: ${outcome.error.message}` : String(outcome.error),
+      redactions: outcome.redactions && Object.keys(outcome.redactions).length > 0 ? outcome.redactions : undefined,
+    });
+  }
+
+  getEntries(): readonly TranscriptEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Images sent during the test, once each
+   */
+  getImages(): TranscriptImage[] {
+    return [...this.images.values()];
+  }
+
+  /**
+   * The transcript as JSONL (one call per line)
+   */
+  toJSONL(): string {
+    return this.entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * AI Usage & Cost Accounting
+ *
+ * Records input/output tokens of every live AIClient call, per model and
+ * per calling feature, and converts them to dollars using MODEL_CATALOG pricing.
+ *
+ * Budgets (.env, USD) - once exceeded, further AI calls fail with
+ * AIBudgetExceededError:
+ *   AI_BUDGET_PER_TEST_USD=0.10    (override per test with test.use({ aiTestBudgetUsd }))
+ *   AI_BUDGET_PER_WORKER_USD=1.00
+ *   AI_BUDGET_PER_RUN_USD=5.00
+ *
+ * Run-wide totals are shared between Playwright workers through per-worker
+ * ledger files in AI_USAGE_DIR (default: ./.ai-usage), initialized by
+ * config/global-setup.ts and summarized by config/global-teardown.ts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getModelInfo } from './model-versions';
+import { AIFeature } from './ai-request';
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byFeature: Record<string, UsageTotals>;
+}
+
+export type BudgetScope = 'test' | 'worker' | 'run';
+
+export class AIBudgetExceededError extends Error {
+  readonly scope: BudgetScope;
+  readonly spentUsd: number;
+  readonly budgetUsd: number;
+
+  constructor(scope: BudgetScope, spentUsd: number, budgetUsd: number) {
+    super(
+      `AI budget per ${scope} exceeded: spent $${spentUsd.toFixed(4)} of $${budgetUsd.toFixed(4)}. ` +
+      `Further AI calls are blocked.`
+    );
+    this.name = 'AIBudgetExceededError';
+    this.scope = scope;
+    this.spentUsd = spentUsd;
+    this.budgetUsd = budgetUsd;
+  }
+}
+
+/**
+ * Convert token counts to USD for a model ID
+ *
+ * Unknown model IDs (not in MODEL_CATALOG) are priced at $0.
+ */
+export function calculateCost(modelId: string, inputTokens: number, outputTokens: number): number {
+  const pricing = getModelInfo(modelId)?.pricing;
+  if (!pricing) return 0;
+
+  return (inputTokens * pricing.inputPerMTok + outputTokens * pricing.outputPerMTok) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function emptySummary(): UsageSummary {
+  return { total: emptyTotals(), byModel: {}, byFeature: {} };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals) {
+  target.calls += source.calls;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.costUsd += source.costUsd;
+}
+
+/**
+ * Merge several usage summaries into one
+ */
+export function mergeSummaries(summaries: UsageSummary[]): UsageSummary {
+  const merged = emptySummary();
+
+  for (const summary of summaries) {
+    addTotals(merged.total, summary.total);
+
+    for (const [model, totals] of Object.entries(summary.byModel)) {
+      addTotals((merged.byModel[model] ??= emptyTotals()), totals);
+    }
+
+    for (const [feature, totals] of Object.entries(summary.byFeature)) {
+      addTotals((merged.byFeature[feature] ??= emptyTotals()), totals);
+    }
+  }
+
+  return merged;
+}
+
+function parseBudget(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const budget = parseFloat(value);
+  return isNaN(budget) ? undefined : budget;
+}
+
+export function getUsageDir(): string {
+  return path.resolve(process.env.AI_USAGE_DIR || './.ai-usage');
+}
+
+/**
+ * Reset the shared run ledger (called from global setup)
+ */
+export function initUsageLedger(): void {
+  const dir = getUsageDir();
+  fs.rmSync(dir, { recursive: true, force: true });
+  fs.mkdirSync(dir, { recursive: true });
+  process.env.AI_USAGE_LEDGER = 'true';
+}
+
+/**
+ * Aggregate usage of all workers in the current run
+ */
+export function getRunUsage(): UsageSummary {
+  const dir = getUsageDir();
+  if (!fs.existsSync(dir)) return emptySummary();
+
+  const summaries: UsageSummary[] = [];
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.startsWith('worker-')) continue;
+    try {
+      summaries.push(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')));
+    } catch {
+      // Worker may be mid-write; its usage is picked up on the next check
+    }
+  }
+
+  return mergeSummaries(summaries);
+}
+
+/**
+ * Format a usage summary as a human-readable breakdown
+ */
+export function formatUsageSummary(summary: UsageSummary, title: string = '💰 AI Usage Summary'): string {
+  const line = (label: string, t: UsageTotals) =>
+    `   ${label.padEnd(28)} ${String(t.calls).padStart(5)} call(s)  ` +
+    `${String(t.inputTokens).padStart(9)} in  ${String(t.outputTokens).padStart(8)} out  $${t.costUsd.toFixed(4)}`;
+
+  const lines = [title, line('Total', summary.total), '', '   By model:'];
+  for (const [model, totals] of Object.entries(summary.byModel)) lines.push(line(model, totals));
+  lines.push('', '   By feature:');
+  for (const [feature, totals] of Object.entries(summary.byFeature)) lines.push(line(feature, totals));
+
+  return lines.join('\n');
+}
+
+export class AIUsageTracker {
+  private worker: UsageSummary = emptySummary();
+  private test: UsageSummary | null = null;
+  private testBudgetUsd: number | undefined;
+  private workerBudgetUsd = parseBudget(process.env.AI_BUDGET_PER_WORKER_USD);
+  private runBudgetUsd = parseBudget(process.env.AI_BUDGET_PER_RUN_USD);
+
+  /**
+   * @param options.ledger Share this worker's usage through the run's ledger
+   *   (aiUsage only: another tracker would replace the worker's usage there)
+   */
+  constructor(private readonly options: { ledger?: boolean } = {}) {}
+
+  /**
+   * Record the token usage of one live API call
+   */
+  record(modelId: string, feature: AIFeature | undefined, inputTokens: number, outputTokens: number): void {
+    const totals: UsageTotals = {
+      calls: 1,
+      inputTokens,
+      outputTokens,
+      costUsd: calculateCost(modelId, inputTokens, outputTokens),
+    };
+    const featureName = feature || 'other';
+
+    for (const summary of this.test ? [this.worker, this.test] : [this.worker]) {
+      addTotals(summary.total, totals);
+      addTotals((summary.byModel[modelId] ??= emptyTotals()), totals);
+      addTotals((summary.byFeature[featureName] ??= emptyTotals()), totals);
+    }
+
+    this.writeLedger();
+  }
+
+  private usesLedger(): boolean {
+    return this.options.ledger === true && process.env.AI_USAGE_LEDGER === 'true';
+  }
+
+  private writeLedger(): void {
+    if (!this.usesLedger()) return;
+
+    try {
+      const file = path.join(getUsageDir(), `worker-${process.pid}.json`);
+      fs.writeFileSync(file, JSON.stringify(this.worker));
+    } catch (error) {
+      console.warn('Could not write AI usage ledger:', error);
+    }
+  }
+
+  /**
+   * Start tracking a test (called by the aiUsage fixture)
+   *
+   * @param budgetUsd Per-test budget, defaults to AI_BUDGET_PER_TEST_USD
+   */
+  startTest(budgetUsd?: number): void {
+    this.test = emptySummary();
+    this.testBudgetUsd = budgetUsd ?? parseBudget(process.env.AI_BUDGET_PER_TEST_USD);
+  }
+
+  /**
+   * Stop tracking the current test and return its usage
+   */
+  endTest(): UsageSummary {
+    const summary = this.test || emptySummary();
+    this.test = null;
+    this.testBudgetUsd = undefined;
+    return summary;
+  }
+
+  getWorkerUsage(): UsageSummary {
+    return mergeSummaries([this.worker]);
+  }
+
+  /**
+   * Throw if any configured budget is already used up
+   *
+   * @throws AIBudgetExceededError
+   */
+  assertWithinBudget(): void {
+    if (this.test && this.testBudgetUsd !== undefined && this.test.total.costUsd >= this.testBudgetUsd) {
+      throw new AIBudgetExceededError('test', this.test.total.costUsd, this.testBudgetUsd);
+    }
+
+    if (this.workerBudgetUsd !== undefined && this.worker.total.costUsd >= this.workerBudgetUsd) {
+      throw new AIBudgetExceededError('worker', this.worker.total.costUsd, this.workerBudgetUsd);
+    }
+
+    if (this.runBudgetUsd !== undefined) {
+      const runCost = this.usesLedger() ? getRunUsage().total.costUsd : this.worker.total.costUsd;
+      if (runCost >= this.runBudgetUsd) {
+        throw new AIBudgetExceededError('run', runCost, this.runBudgetUsd);
+      }
+    }
+  }
+}
+
+export const aiUsage = new AIUsageTracker({ ledger: true });
@@ -0,0 +1,26 @@
+import { FullConfig } from '@playwright/test';
+import { initUsageLedger } from './ai-usage';
+import { resetRateLimits } from './ai-rate-limiter';
+import { reportAIAvailability } from './ai-availability';
+import { validateModelRoutes } from './ai-routing';
+import { reportModelDeprecations } from './model-lifecycle';
+
+/**
+ * Playwright Global Setup
+ *
+ * Resets the shared AI usage ledger so run-wide token/cost totals and
+ * AI_BUDGET_PER_RUN_USD only count the current run, clears the rate limit
+ * buckets and locks left by a previous run, reports once
+ * which degradation policies apply when AI is unavailable and which
+ * configured models are close to retirement, and fails the run early when
+ * AI_MODEL or an AI_ROUTE_* variable is invalid.
+ */
+async function globalSetup(_config: FullConfig) {
+  validateModelRoutes();
+  initUsageLedger();
+  resetRateLimits();
+  reportAIAvailability();
+  reportModelDeprecations();
+}
+
+export default globalSetup;
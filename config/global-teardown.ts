@@ -0,0 +1,26 @@
+import { FullConfig } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatUsageSummary, getRunUsage } from './ai-usage';
+import { formatCostEstimate, isEstimateOnly } from './ai-estimate';
+
+/**
+ * Playwright Global Teardown
+ *
+ * Prints the AI usage of the whole run (all workers) and saves it to
+ * test-results/ai-usage-report.json (ai-cost-estimate.json in estimate mode).
+ */
+async function globalTeardown(_config: FullConfig) {
+  const usage = getRunUsage();
+  if (usage.total.calls === 0) return;
+
+  const estimate = isEstimateOnly();
+  console.log('\n' + (estimate ? formatCostEstimate(usage) : formatUsageSummary(usage)) + '\n');
+
+  const reportPath = path.join('test-results', estimate ? 'ai-cost-estimate.json' : 'ai-usage-report.json');
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, JSON.stringify(usage, null, 2));
+  console.log(`📋 AI usage report saved to: ${reportPath}`);
+}
+
+export default globalTeardown;
@@ -0,0 +1,209 @@
+/**
+ * Model Lifecycle - Deprecation warnings and successor proposals
+ *
+ * Uses the metadata in MODEL_CATALOG (config/model-versions.ts) to tell
+ * when a model configured in MODEL_VERSIONS is about to be retired, and to
+ * propose the mapping to move to.
+ *
+ * Warnings are printed once per run (by global setup, or on the first AI
+ * request outside the Playwright runner) when the Anthropic provider is
+ * used. A retired model is reported as an error, since its calls fail.
+ *
+ * Usage:
+ *   npm run check-models -- --propose     (print a proposed MODEL_VERSIONS)
+ *
+ * Configuration (.env):
+ *   AI_MODEL_DEPRECATION_WARNING_DAYS=90   (warn this many days before retirement, default: 90)
+ */
+
+import { MODEL_CATALOG, MODEL_VERSIONS, ModelInfo, ModelName, getModelInfo } from './model-versions';
+import { getAIProviderName } from './ai-providers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ModelDeprecation {
+  model: ModelName;
+  modelId: string;
+  deprecationDate: string;
+  /** Negative once the model is retired */
+  daysLeft: number;
+  successor?: string;
+}
+
+export interface ModelVersionChange {
+  model: ModelName;
+  from: string;
+  to: string;
+  reason: string;
+  /** Pricing, output and capability differences */
+  notes: string[];
+}
+
+export interface ModelVersionsProposal {
+  versions: Record<ModelName, string>;
+  changes: ModelVersionChange[];
+}
+
+export function getDeprecationWarningDays(): number {
+  const value = process.env.AI_MODEL_DEPRECATION_WARNING_DAYS;
+  if (value === undefined || value === '') return 90;
+
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error(`Invalid AI_MODEL_DEPRECATION_WARNING_DAYS: "${value}" (expected a whole number of days)`);
+  }
+
+  return days;
+}
+
+function daysUntil(date: string, now: Date): number {
+  return Math.ceil((Date.parse(`${date}T00:00:00Z`) - now.getTime()) / DAY_MS);
+}
+
+/**
+ * Configured models that are retired or retire within the warning window
+ */
+export function getModelDeprecations(now: Date = new Date()): ModelDeprecation[] {
+  const windowDays = getDeprecationWarningDays();
+  const deprecations: ModelDeprecation[] = [];
+
+  for (const model of Object.keys(MODEL_VERSIONS) as ModelName[]) {
+    const modelId = MODEL_VERSIONS[model];
+    const info = getModelInfo(modelId);
+    if (!info?.deprecationDate) continue;
+
+    const daysLeft = daysUntil(info.deprecationDate, now);
+    if (daysLeft <= windowDays) {
+      deprecations.push({ model, modelId, deprecationDate: info.deprecationDate, daysLeft, successor: info.successor });
+    }
+  }
+
+  return deprecations;
+}
+
+/**
+ * Print deprecation warnings for the configured models (once per run)
+ *
+ * Workers inherit AI_MODEL_LIFECYCLE_REPORTED from global setup, so the
+ * warnings aren't repeated by every worker process.
+ */
+export function reportModelDeprecations(now: Date = new Date()): void {
+  if (process.env.AI_MODEL_LIFECYCLE_REPORTED === 'true') return;
+  process.env.AI_MODEL_LIFECYCLE_REPORTED = 'true';
+
+  // MODEL_VERSIONS only maps Anthropic models
+  if (getAIProviderName() !== 'anthropic') return;
+
+  const deprecations = getModelDeprecations(now);
+  if (deprecations.length === 0) return;
+
+  for (const deprecation of deprecations) {
+    const successor = deprecation.successor ? `, move to ${deprecation.successor}` : '';
+
+    if (deprecation.daysLeft <= 0) {
+      console.error(
+        `\n❌ Model ${deprecation.model} (${deprecation.modelId}) was retired on ${deprecation.deprecationDate}` +
+        ` and its calls will fail${successor}`
+      );
+    } else {
+      console.warn(
+        `\n⚠️  Model ${deprecation.model} (${deprecation.modelId}) retires on ${deprecation.deprecationDate}` +
+        ` (in ${deprecation.daysLeft} day(s))${successor}`
+      );
+    }
+  }
+
+  console.warn('   Update config/model-versions.ts (npm run check-models -- --propose)\n');
+}
+
+/**
+ * Last model of a successor chain (the model itself when it has none)
+ */
+function resolveSuccessor(modelId: string): string {
+  const seen = new Set<string>([modelId]);
+  let current = modelId;
+
+  while (true) {
+    const next = getModelInfo(current)?.successor;
+    if (!next || seen.has(next) || !getModelInfo(next)) return current;
+    seen.add(next);
+    current = next;
+  }
+}
+
+function describeDifferences(from: ModelInfo, to: ModelInfo): string[] {
+  const notes: string[] = [];
+
+  if (from.pricing.inputPerMTok !== to.pricing.inputPerMTok || from.pricing.outputPerMTok !== to.pricing.outputPerMTok) {
+    notes.push(
+      `pricing $${from.pricing.inputPerMTok}/$${from.pricing.outputPerMTok} → ` +
+      `$${to.pricing.inputPerMTok}/$${to.pricing.outputPerMTok} per MTok (input/output)`
+    );
+  }
+  if (from.capabilities.maxOutputTokens !== to.capabilities.maxOutputTokens) {
+    notes.push(`max output ${from.capabilities.maxOutputTokens} → ${to.capabilities.maxOutputTokens} tokens`);
+  }
+  if (from.capabilities.contextWindow !== to.capabilities.contextWindow) {
+    notes.push(`context window ${from.capabilities.contextWindow} → ${to.capabilities.contextWindow} tokens`);
+  }
+  if (from.capabilities.vision && !to.capabilities.vision) {
+    notes.push('no vision support (visual assertions and healing need it)');
+  }
+
+  return notes;
+}
+
+/**
+ * Propose an updated MODEL_VERSIONS mapping
+ *
+ * Each configured model is replaced by the end of its successor chain in
+ * MODEL_CATALOG, whether it is deprecated or merely superseded.
+ */
+export function proposeModelVersions(now: Date = new Date()): ModelVersionsProposal {
+  const versions = { ...MODEL_VERSIONS } as Record<ModelName, string>;
+  const changes: ModelVersionChange[] = [];
+
+  for (const model of Object.keys(MODEL_VERSIONS) as ModelName[]) {
+    const from = MODEL_VERSIONS[model];
+    const to = resolveSuccessor(from);
+    if (to === from) continue;
+
+    const fromInfo = MODEL_CATALOG[from];
+    const toInfo = MODEL_CATALOG[to];
+    const reason = fromInfo.deprecationDate
+      ? daysUntil(fromInfo.deprecationDate, now) <= 0
+        ? `retired on ${fromInfo.deprecationDate}`
+        : `retires on ${fromInfo.deprecationDate}`
+      : `superseded by ${toInfo.family} (released ${toInfo.releaseDate})`;
+
+    versions[model] = to;
+    changes.push({ model, from, to, reason, notes: describeDifferences(fromInfo, toInfo) });
+  }
+
+  return { versions, changes };
+}
+
+/**
+ * Format a proposal as a change list and a MODEL_VERSIONS snippet to paste
+ */
+export function formatModelVersionsProposal(proposal: ModelVersionsProposal): string {
+  if (proposal.changes.length === 0) {
+    return '✅ MODEL_VERSIONS is up to date with MODEL_CATALOG';
+  }
+
+  const lines = ['📝 Proposed model updates:', ''];
+  for (const change of proposal.changes) {
+    lines.push(`   ${change.model}: ${change.from} → ${change.to} (${change.reason})`);
+    for (const note of change.notes) {
+      lines.push(`     - ${note}`);
+    }
+  }
+
+  lines.push('', 'In config/model-versions.ts:', '', 'export const MODEL_VERSIONS = {');
+  for (const [model, id] of Object.entries(proposal.versions)) {
+    lines.push(`  ${model}: '${id}',`);
+  }
+  lines.push('} as const;', '', 'Also update the doc comments, and review the AI_ROUTE_* max tokens against the new limits.');
+
+  return lines.join('\n');
+}
@@ -8,9 +8,15 @@
  * the framework. When models are deprecated or new versions are released,
  * only this file needs to be updated.
  *
+ * MODEL_CATALOG holds the lifecycle metadata of each model ID (capabilities,
+ * pricing, release/deprecation dates, successor). config/model-lifecycle.ts
+ * uses it to warn before a configured model is retired and to propose an
+ * updated MODEL_VERSIONS mapping.
+ *
  * Last updated: 2026-01-14
  *
  * @see https://docs.anthropic.com/en/docs/about-claude/models
+ * @see https://docs.anthropic.com/en/docs/about-claude/model-deprecations
  */
 
 /**
@@ -37,7 +43,8 @@ export const MODEL_VERSIONS = {
   /**
    * Claude Opus 4.5 - Most capable model
    * - Best for: Complex reasoning, fallback for difficult cases
-   * - Cost: ~$0.015/1K input tokens, ~$0.075/1K output tokens
+   *   (top tier of the escalation chain, see config/ai-escalation.ts)
+   * - Cost: ~$0.005/1K input tokens, ~$0.025/1K output tokens
    */
   opus: 'claude-opus-4-5-20251101',
 } as const;
@@ -49,16 +56,117 @@ export const MODEL_VERSIONS = {
  */
 export type ModelName = keyof typeof MODEL_VERSIONS;
 
+/**
+ * Lifecycle metadata of a model ID
+ */
+export interface ModelInfo {
+  /** Human-readable name, e.g. "Claude Sonnet 4.5" */
+  family: string;
+  /** Release date (YYYY-MM-DD) */
+  releaseDate: string;
+  /** Retirement date announced by Anthropic (YYYY-MM-DD); calls fail after it */
+  deprecationDate?: string;
+  /** Model ID to move to when this one is deprecated or superseded */
+  successor?: string;
+  capabilities: {
+    vision: boolean;
+    /** Maximum output tokens per request */
+    maxOutputTokens: number;
+    contextWindow: number;
+  };
+  /** USD per million tokens */
+  pricing: { inputPerMTok: number; outputPerMTok: number };
+}
+
+/**
+ * Known model IDs, including retired ones and successors of the configured ones
+ *
+ * Add a model here before using it in MODEL_VERSIONS. Set deprecationDate
+ * as soon as Anthropic announces a retirement.
+ *
+ * @see https://www.anthropic.com/pricing#api
+ */
+export const MODEL_CATALOG: Readonly<Record<string, ModelInfo>> = {
+  'claude-3-haiku-20240307': {
+    family: 'Claude 3 Haiku',
+    releaseDate: '2024-03-07',
+    successor: 'claude-haiku-4-5-20251001',
+    capabilities: { vision: true, maxOutputTokens: 4096, contextWindow: 200000 },
+    pricing: { inputPerMTok: 0.25, outputPerMTok: 1.25 },
+  },
+  'claude-haiku-4-5-20251001': {
+    family: 'Claude Haiku 4.5',
+    releaseDate: '2025-10-15',
+    capabilities: { vision: true, maxOutputTokens: 64000, contextWindow: 200000 },
+    pricing: { inputPerMTok: 1, outputPerMTok: 5 },
+  },
+  'claude-3-5-sonnet-20241022': {
+    family: 'Claude Sonnet 3.5',
+    releaseDate: '2024-10-22',
+    deprecationDate: '2025-10-22',
+    successor: 'claude-sonnet-4-5-20250929',
+    capabilities: { vision: true, maxOutputTokens: 8192, contextWindow: 200000 },
+    pricing: { inputPerMTok: 3, outputPerMTok: 15 },
+  },
+  'claude-sonnet-4-5-20250929': {
+    family: 'Claude Sonnet 4.5',
+    releaseDate: '2025-09-29',
+    capabilities: { vision: true, maxOutputTokens: 64000, contextWindow: 200000 },
+    pricing: { inputPerMTok: 3, outputPerMTok: 15 },
+  },
+  'claude-3-opus-20240229': {
+    family: 'Claude 3 Opus',
+    releaseDate: '2024-02-29',
+    deprecationDate: '2026-01-05',
+    successor: 'claude-opus-4-5-20251101',
+    capabilities: { vision: true, maxOutputTokens: 4096, contextWindow: 200000 },
+    pricing: { inputPerMTok: 15, outputPerMTok: 75 },
+  },
+  'claude-opus-4-5-20251101': {
+    family: 'Claude Opus 4.5',
+    releaseDate: '2025-11-24',
+    capabilities: { vision: true, maxOutputTokens: 64000, contextWindow: 200000 },
+    pricing: { inputPerMTok: 5, outputPerMTok: 25 },
+  },
+};
+
+/**
+ * Lifecycle metadata of a model ID (undefined when not in MODEL_CATALOG)
+ */
+export function getModelInfo(modelId: string): ModelInfo | undefined {
+  return MODEL_CATALOG[modelId];
+}
+
+function getConfiguredModelInfo(modelName: ModelName): ModelInfo {
+  const info = MODEL_CATALOG[MODEL_VERSIONS[modelName]];
+  if (!info) {
+    throw new Error(`MODEL_VERSIONS.${modelName} (${MODEL_VERSIONS[modelName]}) is missing from MODEL_CATALOG`);
+  }
+  return info;
+}
+
+/**
+ * Model pricing (USD per million tokens)
+ *
+ * Used by config/ai-usage.ts to turn recorded token usage into dollars.
+ * Comes from MODEL_CATALOG, so it follows MODEL_VERSIONS.
+ */
+export const MODEL_PRICING: Record<ModelName, { inputPerMTok: number; outputPerMTok: number }> = {
+  haiku: getConfiguredModelInfo('haiku').pricing,
+  sonnet: getConfiguredModelInfo('sonnet').pricing,
+  opus: getConfiguredModelInfo('opus').pricing,
+};
+
 /**
  * Model families for display purposes
  *
  * Human-readable names for each model family (without specific dates).
  */
-export const MODEL_FAMILIES = {
-  haiku: 'Claude 3 Haiku',
-  sonnet: 'Claude Sonnet 4.5',
-  opus: 'Claude Opus 4.5',
-} as const;
+export const MODEL_FAMILIES: Record<ModelName, string> = {
+  haiku: getConfiguredModelInfo('haiku').family,
+  sonnet: getConfiguredModelInfo('sonnet').family,
+  opus: getConfiguredModelInfo('opus').family,
+};
 
 /**
  * Get model version by name
@@ -1,11 +1,32 @@
-import { test as base, Page } from '@playwright/test';
+import { test as base, expect as baseExpect, Page } from '@playwright/test';
 import { selfHealingSelector } from '../utils/selectors/self-healing';
-import { aiAssert } from '../utils/ai-helpers/ai-assertions';
+import {
+  SoftAssertionFailure,
+  aiAssert,
+  formatSoftAssertionFailures,
+  softAssertions,
+} from '../utils/ai-helpers/ai-assertions';
+import { aiMatchers } from '../utils/ai-helpers/ai-matchers';
+import { aiClient } from '../config/ai-client';
+import { getCassetteMode, getCassettePath } from '../config/ai-cassette';
+import { aiUsage } from '../config/ai-usage';
+import { getTranscriptMode } from '../config/ai-transcript';
+import { aiRedactor } from '../config/ai-redaction';
+import { ModelRouteOverrides, modelRouter } from '../config/ai-routing';
+import { isEstimateOnly } from '../config/ai-estimate';
 
 type AIFixtures = {
   aiPage: Page;
   smartLocator: (selector: string, description?: string) => ReturnType<typeof selfHealingSelector.findElement>;
   aiAssertions: typeof aiAssert;
+  aiCassette: void;
+  aiTestBudgetUsd: number | undefined;
+  aiModelRoutes: ModelRouteOverrides;
+  aiModelRouting: void;
+  aiUsageTracking: void;
+  aiTranscript: void;
+  aiRedactionLog: void;
+  aiSoftAssertions: void;
 };
 
 /**
@@ -40,6 +61,166 @@ export const test = base.extend<AIFixtures>({
   aiAssertions: async ({}, use) => {
     await use(aiAssert);
   },
+
+  // Per-test AI cassette (record/replay), controlled by AI_CASSETTE_MODE
+  aiCassette: [
+    async ({}, use, testInfo) => {
+      const mode = getCassetteMode();
+
+      if (mode === 'off') {
+        await use();
+        return;
+      }
+
+      const cassettePath = getCassettePath(testInfo.file, testInfo.titlePath.slice(1), testInfo.project.name);
+      aiClient.useCassette(cassettePath, mode);
+
+      try {
+        await use();
+      } finally {
+        aiClient.ejectCassette();
+      }
+    },
+    { auto: true },
+  ],
+
+  // Per-test AI budget in USD (defaults to AI_BUDGET_PER_TEST_USD)
+  // Override with: test.use({ aiTestBudgetUsd: 0.05 })
+  aiTestBudgetUsd: [undefined, { option: true }],
+
+  // Per-test model routing (on top of DEFAULT_MODEL_ROUTES and AI_ROUTE_* variables)
+  // Override with: test.use({ aiModelRoutes: { 'assertions.visual': { model: 'opus' } } })
+  aiModelRoutes: [{}, { option: true }],
+
+  aiModelRouting: [
+    async ({ aiModelRoutes }, use) => {
+      modelRouter.setTestOverrides(aiModelRoutes);
+
+      try {
+        await use();
+      } finally {
+        modelRouter.clearTestOverrides();
+      }
+    },
+    { auto: true },
+  ],
+
+  // Per-test token/cost tracking, attached to the test results
+  aiUsageTracking: [
+    async ({ aiTestBudgetUsd }, use, testInfo) => {
+      aiUsage.startTest(aiTestBudgetUsd);
+
+      try {
+        await use();
+      } finally {
+        const usage = aiUsage.endTest();
+
+        if (usage.total.calls > 0) {
+          testInfo.annotations.push({
+            type: 'ai-usage',
+            description:
+              `${usage.total.calls} call(s), $${usage.total.costUsd.toFixed(4)}` +
+              (isEstimateOnly() ? ' (estimated, upper bound)' : ''),
+          });
+          await testInfo.attach('ai-usage', {
+            body: JSON.stringify(usage, null, 2),
+            contentType: 'application/json',
+          });
+        }
+      }
+    },
+    { auto: true },
+  ],
+
+  // Per-test audit log of AI calls (JSONL + images), controlled by AI_TRANSCRIPT
+  aiTranscript: [
+    async ({}, use, testInfo) => {
+      const mode = getTranscriptMode();
+
+      if (mode === 'off') {
+        await use();
+        return;
+      }
+
+      aiClient.startTranscript();
+
+      try {
+        await use();
+      } finally {
+        const transcript = aiClient.stopTranscript();
+        const failed = testInfo.status !== testInfo.expectedStatus;
+
+        if (transcript && transcript.getEntries().length > 0 && (mode === 'on' || failed)) {
+          await testInfo.attach('ai-transcript.jsonl', {
+            body: transcript.toJSONL(),
+            contentType: 'application/x-ndjson',
+          });
+
+          for (const image of transcript.getImages()) {
+            await testInfo.attach(image.name, { body: image.data, contentType: image.mediaType });
+          }
+        }
+      }
+    },
+    { auto: true },
+  ],
+
+  // Record of what was redacted before reaching the AI (rule and count, never the value)
+  aiRedactionLog: [
+    async ({}, use, testInfo) => {
+      aiRedactor.clearLog();
+
+      try {
+        await use();
+      } finally {
+        const log = aiRedactor.getLog();
+
+        if (log.length > 0) {
+          const totals: Record<string, number> = {};
+          for (const record of log) {
+            totals[record.rule] = (totals[record.rule] || 0) + record.count;
+          }
+
+          testInfo.annotations.push({
+            type: 'ai-redactions',
+            description: Object.entries(totals).map(([rule, count]) => `${rule}×${count}`).join(', '),
+          });
+          await testInfo.attach('ai-redactions', {
+            body: JSON.stringify(log, null, 2),
+            contentType: 'application/json',
+          });
+        }
+      }
+    },
+    { auto: true },
+  ],
+
+  // Soft AI assertion failures (aiAssertions.soft, or soft: true), reported together at the end of the test
+  // Declared last so it is torn down first, and the other fixtures see the test as failed
+  aiSoftAssertions: [
+    async ({}, use, testInfo) => {
+      softAssertions.start();
+      let failures: SoftAssertionFailure[];
+
+      try {
+        await use();
+      } finally {
+        failures = softAssertions.end();
+      }
+
+      if (failures.length > 0) {
+        testInfo.annotations.push({ type: 'ai-soft-failures', description: `${failures.length} soft AI assertion(s) failed` });
+        throw new Error(formatSoftAssertionFailures(failures));
+      }
+    },
+    { auto: true },
+  ],
 });
 
-export { expect } from '@playwright/test';
+/**
+ * Playwright expect with the AI matchers (see utils/ai-helpers/ai-matchers.ts)
+ *
+ * await expect(aiPage).toMatchVisualDescription('a success message is shown');
+ * await expect(aiPage.locator('h1')).toMeanSemantically('a welcome message');
+ */
+export const expect = baseExpect.extend(aiMatchers);
@@ -7,6 +7,9 @@ export default defineConfig({
   testDir: './tests',
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
+  // Reset and summarize AI token usage/cost across workers
+  globalSetup: './config/global-setup.ts',
+  globalTeardown: './config/global-teardown.ts',
   retries: process.env.CI ? 2 : 0,
   workers: process.env.CI ? 1 : undefined,
   reporter: [
@@ -1,108 +1,348 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import { aiClient } from '../config/ai-client';
-import { MODEL_VERSIONS, MODEL_FAMILIES, ModelName } from '../config/model-versions';
+import { MODEL_VERSIONS, MODEL_FAMILIES, ModelName, getModelInfo } from '../config/model-versions';
+import { AIDegradedError, classifyAIError } from '../config/ai-errors';
+import { formatModelVersionsProposal, getModelDeprecations, proposeModelVersions } from '../config/model-lifecycle';
+import { ROUTED_FEATURES, getDefaultModel, modelRouter } from '../config/ai-routing';
+import { getEscalationChain } from '../config/ai-escalation';
+import { JSONSchema, parseJSONResponse } from '../config/ai-json';
+import { LatencyStats, summarizeLatencies } from '../config/ai-metrics';
 
 /**
  * Health Check: Claude Model Versions
  *
- * This script verifies that the configured Claude models are valid and accessible.
- * Run this when you suspect model versions might be deprecated or when updating models.
+ * This script verifies that the configured Claude models are valid and accessible,
+ * and that each one supports what the framework asks of it:
+ *   - text         a minimal prompt, sampled several times for latency percentiles
+ *   - vision       a tiny embedded image (visual assertions and self-healing need it)
+ *   - json         a JSON answer that parses and matches its schema without a repair prompt
+ *   - max-tokens   the largest max tokens of the features routed (or escalating) to the model
+ *
+ * A 529 (overloaded) fails the check: the model may exist, but it wasn't verified.
+ * The exit code is 1 when any check fails, so the script can gate a pipeline.
  *
  * Usage:
  *   npm run check-models
+ *   npm run check-models -- --samples=10                 (text latency samples, default 5)
+ *   npm run check-models -- --json=model-health.json     (machine-readable report)
+ *   npm run check-models -- --junit=model-health.xml     (JUnit XML for CI)
+ *   npm run check-models -- --propose   (no API calls: print the MODEL_VERSIONS
+ *                                        update proposed by MODEL_CATALOG)
+ *
+ * --json and --junit without a file name write to test-results/model-health.{json,xml}.
  *
  * Requirements:
  *   - ANTHROPIC_API_KEY must be set in .env
- *   - Small amount of API credits (~$0.01 total for all checks)
+ *   - Small amount of API credits (~$0.02 total for all checks)
  */
 
-interface ModelCheckResult {
+type CheckName = 'text' | 'vision' | 'json' | 'max-tokens';
+
+export interface CheckResult {
+  name: CheckName;
+  status: 'pass' | 'fail' | 'skip';
+  /** Wall time of the (last) request, including retries */
+  latencyMs?: number;
+  message?: string;
+  /** Error classification (see config/ai-errors.ts), e.g. 'overloaded' */
+  errorType?: string;
+}
+
+export interface ModelCheckResult {
   model: ModelName;
   family: string;
   version: string;
-  status: 'success' | 'error';
-  error?: string;
-  latency?: number;
+  status: 'pass' | 'fail';
+  checks: CheckResult[];
+  /** Latencies of the successful text samples */
+  latency?: LatencyStats;
+}
+
+export interface HealthReport {
+  generatedAt: string;
+  passed: boolean;
+  models: ModelCheckResult[];
+}
+
+interface CheckOptions {
+  samples: number;
+  jsonPath?: string;
+  junitPath?: string;
+}
+
+// 16x16 solid red PNG
+const RED_SQUARE_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAIAAACQkWg2AAAAFklEQVR42mP4z8BAEmIY1TCqYfhqAACQ+f8B8u7oVwAAAABJRU5ErkJggg==';
+
+const JSON_CHECK_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['ok'] },
+    sum: { type: 'number' },
+  },
+  required: ['status', 'sum'],
+};
+
+function parseOptions(args: string[]): CheckOptions {
+  const options: CheckOptions = { samples: 5 };
+
+  for (const arg of args) {
+    const [flag, value] = arg.split('=', 2);
+
+    if (flag === '--samples') {
+      const samples = Number(value);
+      if (!Number.isInteger(samples) || samples < 1) {
+        throw new Error(`Invalid --samples: "${value}" (expected a whole number >= 1)`);
+      }
+      options.samples = samples;
+    } else if (flag === '--json') {
+      options.jsonPath = value || path.join('test-results', 'model-health.json');
+    } else if (flag === '--junit') {
+      options.junitPath = value || path.join('test-results', 'model-health.xml');
+    }
+  }
+
+  return options;
 }
 
-async function checkModel(modelName: ModelName): Promise<ModelCheckResult> {
+/**
+ * Largest max tokens a model is called with, and the features that need it
+ *
+ * A feature counts for every model of its escalation chain, and calls
+ * without a feature use AI_MAX_TOKENS on the default model.
+ */
+function getRequiredMaxTokens(modelName: ModelName): { maxTokens: number; features: string[] } | null {
+  let maxTokens = 0;
+  const features: string[] = [];
+
+  for (const feature of ROUTED_FEATURES) {
+    const route = modelRouter.resolve(feature);
+    if (!getEscalationChain(route.model).includes(modelName)) continue;
+
+    features.push(feature);
+    maxTokens = Math.max(maxTokens, route.maxTokens);
+  }
+
+  if (getDefaultModel() === modelName) {
+    features.push('default (AI_MAX_TOKENS)');
+    maxTokens = Math.max(maxTokens, parseInt(process.env.AI_MAX_TOKENS || '4096', 10));
+  }
+
+  return features.length > 0 ? { maxTokens, features } : null;
+}
+
+/**
+ * Run one request and turn its outcome into a check result
+ *
+ * verify() returns an error message when the answer is wrong.
+ */
+async function runCheck(
+  name: CheckName,
+  request: () => Promise<string>,
+  verify: (response: string) => string | null
+): Promise<CheckResult> {
   const startTime = Date.now();
+
+  try {
+    const response = await request();
+    const latencyMs = Date.now() - startTime;
+    const problem = verify(response);
+
+    if (problem) {
+      console.log(`   ❌ ${name} (${latencyMs}ms) - ${problem}`);
+      return { name, status: 'fail', latencyMs, message: problem };
+    }
+
+    console.log(`   ✅ ${name} (${latencyMs}ms)`);
+    return { name, status: 'pass', latencyMs };
+  } catch (error: any) {
+    const latencyMs = Date.now() - startTime;
+
+    // Parse error type (shared classification with AIClient)
+    const info = classifyAIError(error instanceof AIDegradedError ? error.cause : error);
+    const message =
+      info.type === 'overloaded'
+        ? `${info.title}: model not verified, servers busy - run the check again`
+        : `${info.title}: ${info.message}`;
+
+    console.log(`   ❌ ${name} (${latencyMs}ms) - ${message}`);
+    return { name, status: 'fail', latencyMs, message, errorType: info.type };
+  }
+}
+
+/**
+ * Run every check against one configured model
+ */
+export async function checkModel(modelName: ModelName, samples: number): Promise<ModelCheckResult> {
   const family = MODEL_FAMILIES[modelName];
   const version = MODEL_VERSIONS[modelName];
+  const info = getModelInfo(version);
+  const checks: CheckResult[] = [];
 
   console.log(`\n🔍 Testing ${family} (${version})...`);
 
-  try {
-    // Send minimal request to test model availability
-    const response = await aiClient.ask(
-      'Respond with only the word "OK"',
-      undefined,
-      {
+  // Text, sampled for latency (one result, failed if any sample fails)
+  const latencies: number[] = [];
+  let text: CheckResult = { name: 'text', status: 'pass' };
+  for (let i = 0; i < samples && text.status === 'pass'; i++) {
+    text = await runCheck(
+      'text',
+      () => aiClient.ask('Respond with only the word "OK"', undefined, {
         model: modelName,
         maxTokens: 10,
-      }
+        feature: 'health-check',
+      }),
+      (response) => (response.trim().length > 0 ? null : 'Empty response from API')
     );
+    if (text.status === 'pass') latencies.push(text.latencyMs!);
+  }
+  checks.push(text);
 
-    const latency = Date.now() - startTime;
+  // Vision
+  if (info && !info.capabilities.vision) {
+    console.log('   ⏭️  vision - not supported according to MODEL_CATALOG');
+    checks.push({ name: 'vision', status: 'skip', message: 'Not supported according to MODEL_CATALOG' });
+  } else {
+    checks.push(
+      await runCheck(
+        'vision',
+        () => aiClient.askWithImage('What color is this image? Answer with one word.', RED_SQUARE_PNG, 'image/png', {
+          model: modelName,
+          maxTokens: 10,
+          feature: 'health-check',
+        }),
+        (response) => (/red/i.test(response) ? null : `Expected "red", got "${response.trim()}"`)
+      )
+    );
+  }
 
-    // Check if response is valid
-    if (response && response.trim().length > 0) {
-      console.log(`✅ Success (${latency}ms) - Response: "${response.trim()}"`);
-      return {
-        model: modelName,
-        family,
-        version,
-        status: 'success',
-        latency,
-      };
-    } else {
-      console.log(`⚠️  Warning - Empty response`);
-      return {
+  // JSON, without the repair prompt askJSON() would send
+  checks.push(
+    await runCheck(
+      'json',
+      () => aiClient.ask(
+        'What is 2 + 3? Respond with ONLY a JSON object of the form {"status": "ok", "sum": <number>}.',
+        undefined,
+        { model: modelName, maxTokens: 50, feature: 'health-check' }
+      ),
+      (response) => {
+        const parsed = parseJSONResponse<{ sum: number }>(response, JSON_CHECK_SCHEMA);
+        if (!parsed.ok) return `Invalid JSON: ${parsed.errors.join('; ')}`;
+        return parsed.value.sum === 5 ? null : `Expected sum 5, got ${parsed.value.sum}`;
+      }
+    )
+  );
+
+  // Max tokens (the API rejects a max_tokens above the model's limit)
+  const required = getRequiredMaxTokens(modelName);
+  if (!required) {
+    console.log('   ⏭️  max-tokens - no feature routed or escalating to this model');
+    checks.push({ name: 'max-tokens', status: 'skip', message: 'No feature routed or escalating to this model' });
+  } else if (info && required.maxTokens > info.capabilities.maxOutputTokens) {
+    const message =
+      `max tokens ${required.maxTokens} (${required.features.join(', ')}) exceeds the ` +
+      `model's ${info.capabilities.maxOutputTokens} output tokens`;
+    console.log(`   ❌ max-tokens - ${message}`);
+    checks.push({ name: 'max-tokens', status: 'fail', message });
+  } else {
+    const result = await runCheck(
+      'max-tokens',
+      () => aiClient.ask('Respond with only the word "OK"', undefined, {
         model: modelName,
-        family,
-        version,
-        status: 'error',
-        error: 'Empty response from API',
-      };
+        maxTokens: required.maxTokens,
+        feature: 'health-check',
+      }),
+      (response) => (response.trim().length > 0 ? null : 'Empty response from API')
+    );
+    checks.push({ ...result, message: result.message ?? `${required.maxTokens} tokens (${required.features.join(', ')})` });
+  }
+
+  return {
+    model: modelName,
+    family,
+    version,
+    status: checks.some((c) => c.status === 'fail') ? 'fail' : 'pass',
+    checks,
+    latency: summarizeLatencies(latencies),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * JUnit XML: one test suite per model, one test case per check
+ */
+export function formatJUnit(report: HealthReport): string {
+  const all = report.models.flatMap((m) => m.checks);
+  const count = (checks: CheckResult[], status: CheckResult['status']) => checks.filter((c) => c.status === status).length;
+  const seconds = (ms = 0) => (ms / 1000).toFixed(3);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="check-models" tests="${all.length}" failures="${count(all, 'fail')}" skipped="${count(all, 'skip')}">`,
+  ];
+
+  for (const model of report.models) {
+    const time = model.checks.reduce((sum, c) => sum + (c.latencyMs ?? 0), 0);
+    lines.push(
+      `  <testsuite name="${escapeXml(`${model.model} (${model.version})`)}" tests="${model.checks.length}" ` +
+      `failures="${count(model.checks, 'fail')}" skipped="${count(model.checks, 'skip')}" ` +
+      `time="${seconds(time)}" timestamp="${report.generatedAt}">`
+    );
+
+    if (model.latency) {
+      lines.push('    <properties>');
+      for (const key of ['min', 'p50', 'p90', 'p95', 'max'] as const) {
+        lines.push(`      <property name="latency.${key}Ms" value="${model.latency[key]}"/>`);
+      }
+      lines.push('    </properties>');
     }
-  } catch (error: any) {
-    const latency = Date.now() - startTime;
-
-    // Parse error type
-    let errorMessage = error.message || 'Unknown error';
-    let errorType = 'Unknown';
-
-    if (error.status === 404) {
-      errorType = 'Model Not Found (404)';
-      errorMessage = 'Model version is deprecated or invalid';
-    } else if (error.status === 401) {
-      errorType = 'Authentication Error (401)';
-      errorMessage = 'Invalid or missing ANTHROPIC_API_KEY';
-    } else if (error.status === 529) {
-      errorType = 'Server Overloaded (529)';
-      errorMessage = 'Anthropic servers temporarily overloaded - model is valid';
-    } else if (error.status >= 500) {
-      errorType = 'Server Error';
-      errorMessage = 'Anthropic API error - try again later';
+
+    for (const check of model.checks) {
+      const open = `    <testcase classname="check-models.${model.model}" name="${check.name}" time="${seconds(check.latencyMs)}"`;
+      const message = escapeXml(check.message ?? '');
+
+      if (check.status === 'fail') {
+        lines.push(`${open}>`, `      <failure message="${message}" type="${check.errorType ?? 'assertion'}"/>`, '    </testcase>');
+      } else if (check.status === 'skip') {
+        lines.push(`${open}>`, `      <skipped message="${message}"/>`, '    </testcase>');
+      } else {
+        lines.push(`${open}/>`);
+      }
     }
 
-    console.log(`❌ ${errorType} (${latency}ms)`);
-    console.log(`   Error: ${errorMessage}`);
-
-    return {
-      model: modelName,
-      family,
-      version,
-      status: error.status === 529 ? 'success' : 'error', // 529 means model exists but server busy
-      error: errorMessage,
-      latency,
-    };
+    lines.push('  </testsuite>');
   }
+
+  lines.push('</testsuites>', '');
+  return lines.join('\n');
+}
+
+function writeReport(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  console.log(`📋 Report saved to: ${filePath}`);
 }
 
 async function main() {
   console.log('╔════════════════════════════════════════════════════════════╗');
   console.log('║     Claude Model Version Health Check                     ║');
   console.log('╚════════════════════════════════════════════════════════════╝');
+
+  if (process.argv.includes('--propose')) {
+    console.log('\n' + formatModelVersionsProposal(proposeModelVersions()) + '\n');
+    process.exit(0);
+  }
+
+  const options = parseOptions(process.argv.slice(2));
+
   console.log('\nChecking configured models in config/model-versions.ts...\n');
 
   // Check ANTHROPIC_API_KEY
@@ -113,15 +353,19 @@ async function main() {
     process.exit(1);
   }
 
+  // Every check must reach the API
+  process.env.AI_CACHE_ENABLED = 'false';
+  process.env.AI_ESTIMATE_ONLY = 'false';
+
   // Test all models
   const models: ModelName[] = ['haiku', 'sonnet', 'opus'];
   const results: ModelCheckResult[] = [];
 
   for (const modelName of models) {
-    const result = await checkModel(modelName);
+    const result = await checkModel(modelName, options.samples);
     results.push(result);
 
-    // Small delay between requests to be nice to API
+    // Small delay between models to be nice to API
     if (modelName !== models[models.length - 1]) {
       await new Promise((resolve) => setTimeout(resolve, 1000));
     }
@@ -132,31 +376,50 @@ async function main() {
   console.log('                    SUMMARY                                ');
   console.log('═══════════════════════════════════════════════════════════\n');
 
-  const successCount = results.filter((r) => r.status === 'success').length;
-  const errorCount = results.filter((r) => r.status === 'error').length;
+  const successCount = results.filter((r) => r.status === 'pass').length;
+  const errorCount = results.filter((r) => r.status === 'fail').length;
 
   results.forEach((result) => {
-    const icon = result.status === 'success' ? '✅' : '❌';
-    const latencyStr = result.latency ? ` (${result.latency}ms)` : '';
+    const icon = result.status === 'pass' ? '✅' : '❌';
+    const latency = result.latency;
+    const latencyStr = latency ? ` (p50 ${latency.p50}ms, p95 ${latency.p95}ms, n=${latency.samples.length})` : '';
     console.log(`${icon} ${result.family}${latencyStr}`);
     console.log(`   Version: ${result.version}`);
-    if (result.error) {
-      console.log(`   Error: ${result.error}`);
-    }
+    result.checks
+      .filter((check) => check.status === 'fail')
+      .forEach((check) => console.log(`   ${check.name}: ${check.message}`));
     console.log('');
   });
 
+  // Lifecycle: retired or soon-retired models still answer until their date
+  const deprecations = getModelDeprecations();
+  deprecations.forEach((deprecation) => {
+    const when = deprecation.daysLeft <= 0 ? 'retired on' : `retires in ${deprecation.daysLeft} day(s), on`;
+    console.log(`⏳ ${deprecation.model} ${when} ${deprecation.deprecationDate}`);
+  });
+  if (deprecations.length > 0) {
+    console.log('   Run: npm run check-models -- --propose\n');
+  }
+
+  const report: HealthReport = { generatedAt: new Date().toISOString(), passed: errorCount === 0, models: results };
+  if (options.jsonPath) {
+    writeReport(options.jsonPath, JSON.stringify(report, null, 2) + '\n');
+  }
+  if (options.junitPath) {
+    writeReport(options.junitPath, formatJUnit(report));
+  }
+
   // Final verdict
   console.log('───────────────────────────────────────────────────────────');
 
   if (errorCount === 0) {
-    console.log('✅ All models are valid and accessible!\n');
+    console.log('✅ All models are valid, accessible and support the features using them!\n');
     process.exit(0);
   } else if (errorCount < results.length) {
     console.log(`⚠️  ${errorCount} model(s) failed, ${successCount} succeeded\n`);
     console.log('Action required:');
     console.log('  1. Check error messages above');
-    console.log('  2. Update model versions in config/model-versions.ts');
+    console.log('  2. Update model versions in config/model-versions.ts (or the AI_ROUTE_* max tokens)');
     console.log('  3. Run this check again to verify fixes\n');
     process.exit(1);
   } else {
@@ -166,8 +429,10 @@ async function main() {
 }
 
 // Run check
-main().catch((error) => {
-  console.error('\n❌ Unexpected error during health check:');
-  console.error(error);
-  process.exit(1);
-});
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('\n❌ Unexpected error during health check:');
+    console.error(error);
+    process.exit(1);
+  });
+}
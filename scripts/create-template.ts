@@ -51,7 +51,7 @@ ENABLE_AI_ASSERTIONS=true
 ENABLE_TEST_GENERATION=false
 
 # AI Configuration
-AI_MODEL=claude-3-5-sonnet-20241022
+AI_MODEL=sonnet
 AI_MAX_TOKENS=4096
 `;
 
@@ -476,7 +476,7 @@ ENABLE_AI_ASSERTIONS=true
 ENABLE_TEST_GENERATION=false
 
 # AI Configuration
-AI_MODEL=claude-3-5-sonnet-20241022
+AI_MODEL=sonnet
 AI_MAX_TOKENS=4096
 \`\`\`
 
@@ -0,0 +1,150 @@
+/**
+ * WCAG Rule Engine
+ *
+ * The rules under expectAccessible are deterministic and run without an
+ * API key: each test renders a small page and checks which rules fire.
+ * The golden eval pages (evals/golden/pages/) double as fixtures.
+ *
+ * Run just this suite with: npx playwright test tests/accessibility
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page } from '@playwright/test';
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIAssertion, aiAssert } from '../../utils/ai-helpers/ai-assertions';
+import { WCAGReport, runWCAGRules } from '../../utils/ai-helpers/wcag-rules';
+import { withEnv } from '../ai-framework/helpers';
+
+const GOLDEN_PAGES_DIR = path.join(__dirname, '..', '..', 'evals', 'golden', 'pages');
+
+function readGoldenPage(name: string): string {
+  return fs.readFileSync(path.join(GOLDEN_PAGES_DIR, name), 'utf-8');
+}
+
+function html(body: string): string {
+  return `<!DOCTYPE html><html lang="en"><head><title>Test</title></head><body><main>${body}</main></body></html>`;
+}
+
+function rulesOf(report: WCAGReport): string[] {
+  return report.violations.map((violation) => violation.rule);
+}
+
+test.describe('WCAG rules', () => {
+  test('finds no violation on an accessible page', async ({ page }) => {
+    await page.setContent(readGoldenPage('login.html'));
+
+    const report = await runWCAGRules(page.locator('html'));
+
+    expect(report.violations).toEqual([]);
+  });
+
+  test('finds the violations of an inaccessible form', async ({ page }) => {
+    await page.setContent(readGoldenPage('inaccessible-form.html'));
+
+    const report = await runWCAGRules(page.locator('html'));
+
+    expect(rulesOf(report)).toEqual(
+      expect.arrayContaining([
+        'html-lang',
+        'landmark-main',
+        'image-alt',
+        'label',
+        'button-name',
+        'keyboard-focusable',
+        'color-contrast',
+      ])
+    );
+    expect(report.violations.find((violation) => violation.rule === 'color-contrast')).toMatchObject({
+      criterion: '1.4.3',
+      level: 'AA',
+      selector: 'body > p',
+    });
+  });
+
+  test('computes contrast with the large text threshold and translucent backgrounds', async ({ page }) => {
+    await page.setContent(
+      html(`
+        <p id="small" style="color: #949494">Small grey text</p>
+        <p id="large" style="color: #949494; font-size: 24px">Large grey text</p>
+        <div style="background: #000"><p id="translucent" style="background: rgba(255, 255, 255, 0.5); color: #fff">White on grey</p></div>
+      `)
+    );
+
+    const report = await runWCAGRules(page.locator('html'), { rules: ['color-contrast'] });
+
+    expect(report.violations.map((violation) => violation.selector)).toEqual(['#small', '#translucent']);
+  });
+
+  test('checks labels, headings and ARIA', async ({ page }) => {
+    await page.setContent(
+      html(`
+        <h1>Title</h1>
+        <h3 id="skipped">Skipped level</h3>
+        <label for="missing">Orphan label</label>
+        <input id="placeholder-only" placeholder="Email">
+        <div id="bad-role" role="buton">Bad role</div>
+        <div id="bad-value" aria-hidden="yes">Bad value</div>
+        <div id="no-checked" role="checkbox" tabindex="0">Remember me</div>
+        <div id="dangling" aria-labelledby="nowhere">Dangling reference</div>
+        <div aria-hidden="true"><a id="hidden-link" href="#">Hidden link</a></div>
+        <div id="not-focusable" role="button">Not focusable</div>
+        <button id="positive" tabindex="2">Positive tabindex</button>
+      `)
+    );
+
+    const report = await runWCAGRules(page.locator('html'));
+    const selectorsOf = (rule: string) =>
+      report.violations.filter((violation) => violation.rule === rule).map((violation) => violation.selector);
+
+    expect(selectorsOf('heading-order')).toEqual(['#skipped']);
+    expect(selectorsOf('label-for')).toEqual(['body > main > label']);
+    expect(selectorsOf('label')).toEqual(['#placeholder-only']);
+    expect(selectorsOf('aria-role')).toEqual(['#bad-role']);
+    expect(selectorsOf('aria-attr')).toEqual(['#bad-value']);
+    expect(selectorsOf('aria-required-attr')).toEqual(['#no-checked']);
+    expect(selectorsOf('aria-reference')).toEqual(['#dangling']);
+    expect(selectorsOf('aria-hidden-focus')).toEqual(['#hidden-link']);
+    expect(selectorsOf('keyboard-focusable')).toEqual(['#not-focusable']);
+    expect(selectorsOf('tabindex-positive')).toEqual(['#positive']);
+  });
+
+  test('flags small targets only when they are crowded', async ({ page }) => {
+    await page.setContent(
+      html(`
+        <div><button id="a" style="width: 16px; height: 16px; padding: 0">A</button><button id="b" style="width: 16px; height: 16px; padding: 0">B</button></div>
+        <div style="margin-top: 40px"><button id="alone" style="width: 16px; height: 16px; padding: 0">C</button></div>
+        <p>Read the <a href="#">terms</a> first.</p>
+      `)
+    );
+
+    const report = await runWCAGRules(page.locator('html'), { rules: ['target-size'] });
+
+    expect(report.violations.map((violation) => violation.selector)).toEqual(['#a', '#b']);
+  });
+
+  test('limits the rules to an element', async ({ page }) => {
+    await page.setContent(readGoldenPage('inaccessible-form.html'));
+
+    const report = await runWCAGRules(page.locator('div').nth(1));
+
+    expect(new Set(rulesOf(report))).toEqual(new Set(['label', 'button-name']));
+  });
+
+  test('passes expectAccessible without an AI call', async ({ page }) => {
+    await page.setContent(readGoldenPage('login.html'));
+
+    const result = await aiAssert.checkAccessible(page);
+
+    expect(result.status).toBe('passed');
+  });
+
+  test('skips expectAccessible, rules included, when AI assertions are disabled', async () => {
+    const disabled = await withEnv({ ENABLE_AI_ASSERTIONS: 'false' }, () => new AIAssertion());
+
+    // The page is never touched
+    const result = await disabled.checkAccessible({} as Page);
+
+    expect(result.status).toBe('skipped');
+  });
+});
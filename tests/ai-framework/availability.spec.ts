@@ -0,0 +1,113 @@
+/**
+ * AI Availability & Degradation Policies
+ *
+ * Without an API key the client still loads and each feature group
+ * follows its skip/fallback/fail policy. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/availability.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIClient } from '../../config/ai-client';
+import { AIUnavailableError } from '../../config/ai-errors';
+import {
+  ensureAIAvailable,
+  getAIUnavailableReason,
+  getDegradationPolicy,
+  isAIAvailable,
+} from '../../config/ai-availability';
+import { Page } from '@playwright/test';
+import { createAIProvider } from '../../config/ai-providers';
+import { OTPExtractor } from '../../utils/ai-helpers/otp-extractor';
+import { SelfHealingSelector } from '../../utils/selectors/self-healing';
+import { StubProvider, withEnv, withStubbedAIClient } from './helpers';
+
+// Unavailable: Anthropic backend without a key, not replaying or estimating
+const NO_AI = {
+  AI_PROVIDER: 'anthropic',
+  ANTHROPIC_API_KEY: undefined,
+  AI_CASSETTE_MODE: 'off',
+  AI_ESTIMATE_ONLY: undefined,
+  AI_UNAVAILABLE_ASSERTIONS: undefined,
+  AI_UNAVAILABLE_GENERATION: undefined,
+  AI_AVAILABILITY_REPORTED: 'true',
+};
+
+/**
+ * Run fn with aiClient on the backend NO_AI configures, plus env
+ */
+function withoutAI<T>(fn: () => T | Promise<T>, env: Record<string, string | undefined> = {}): Promise<T> {
+  return withEnv({ ...NO_AI, ...env }, () => withStubbedAIClient(createAIProvider(), fn));
+}
+
+test.describe('AI availability - client', () => {
+  test('creates a client without an API key and fails on the first call', async () => {
+    await withEnv(NO_AI, async () => {
+      const client = new AIClient();
+
+      await expect(client.ask('Question', undefined, { model: 'haiku' })).rejects.toThrow(AIUnavailableError);
+    });
+  });
+
+  test('reports why AI is unavailable', async () => {
+    await withoutAI(() => {
+      expect(isAIAvailable()).toBe(false);
+      expect(getAIUnavailableReason()).toBe('ANTHROPIC_API_KEY is not set in environment variables');
+    });
+  });
+
+  test('asks the provider installed on the client', async () => {
+    await withEnv(NO_AI, () =>
+      withStubbedAIClient(new StubProvider(), () => {
+        expect(isAIAvailable()).toBe(true);
+      })
+    );
+  });
+
+  test('is available when replaying cassettes or estimating', async () => {
+    await withoutAI(() => expect(isAIAvailable()).toBe(true), { AI_CASSETTE_MODE: 'replay' });
+    await withoutAI(() => expect(isAIAvailable()).toBe(true), { AI_ESTIMATE_ONLY: 'true' });
+  });
+});
+
+test.describe('AI availability - policies', () => {
+  test('skips assertions and fails generation by default', async () => {
+    await withoutAI(() => {
+      expect(getDegradationPolicy('assertions')).toBe('skip');
+      expect(ensureAIAvailable('assertions')).toBe(false);
+      expect(() => ensureAIAvailable('generation')).toThrow(
+        'Feature "generation" requires AI, but it is unavailable: ANTHROPIC_API_KEY is not set in environment variables'
+      );
+    });
+  });
+
+  test('applies AI_UNAVAILABLE_<GROUP> overrides', async () => {
+    await withoutAI(
+      () => {
+        expect(() => ensureAIAvailable('assertions')).toThrow(AIUnavailableError);
+        expect(getDegradationPolicy('generation')).toBe('fail');
+      },
+      { AI_UNAVAILABLE_ASSERTIONS: 'fail', AI_UNAVAILABLE_GENERATION: 'bogus' }
+    );
+  });
+
+  test('falls back to regex OTP extraction', async () => {
+    const code = await withoutAI(() =>
+      new OTPExtractor().extractOTP('Hello,\n\nYour verification code is 482913.\n\nThanks', 'Your code')
+    );
+
+    expect(code).toBe('482913');
+  });
+
+  test('falls back to the plain locator instead of healing', async () => {
+    const missing = { first: () => ({ waitFor: async () => Promise.reject(new Error('Timeout 2000ms exceeded')) }) };
+    const page = { locator: () => missing };
+
+    const locator = await withoutAI(
+      () => new SelfHealingSelector().findElement(page as unknown as Page, '#old-submit'),
+      { ENABLE_SELF_HEALING: undefined, AI_UNAVAILABLE_HEALING: undefined }
+    );
+
+    expect(locator).toBe(missing);
+  });
+});
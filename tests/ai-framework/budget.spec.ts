@@ -0,0 +1,72 @@
+/**
+ * AI Usage Budgets
+ *
+ * Per-test, per-worker and per-run budgets block further AI calls once
+ * they are used up. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/budget.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIBudgetExceededError, AIUsageTracker, calculateCost } from '../../config/ai-usage';
+import { StubProvider, createStubbedClient, withEnv } from './helpers';
+
+const HAIKU = 'claude-3-haiku-20240307';
+
+test.describe('AI budgets - per test', () => {
+  test('blocks the calls after the test budget is spent', async () => {
+    const provider = new StubProvider('Answer');
+    const usage = new AIUsageTracker();
+    // One stubbed call (100 input, 20 output tokens on haiku) costs $0.00005
+    usage.startTest(0.00004);
+    const client = createStubbedClient(provider, usage);
+
+    await client.ask('First question', undefined, { model: 'haiku' });
+    const blocked = client.ask('Second question', undefined, { model: 'haiku' });
+
+    await expect(blocked).rejects.toThrow(AIBudgetExceededError);
+    await expect(blocked).rejects.toMatchObject({ scope: 'test', budgetUsd: 0.00004 });
+    expect(provider.requests).toHaveLength(1);
+  });
+});
+
+test.describe('AI budgets - tracker', () => {
+  test('prices calls with the model catalog', () => {
+    expect(calculateCost(HAIKU, 1_000_000, 1_000_000)).toBeCloseTo(0.25 + 1.25);
+    expect(calculateCost('unknown-model', 1000, 1000)).toBe(0);
+  });
+
+  test('enforces the worker budget', async () => {
+    const tracker = await withEnv({ AI_BUDGET_PER_WORKER_USD: '0.001' }, () => new AIUsageTracker());
+
+    // $0.0005 per call
+    tracker.record(HAIKU, 'healing', 1000, 200);
+    tracker.assertWithinBudget();
+    tracker.record(HAIKU, 'healing', 1000, 200);
+
+    expect(() => tracker.assertWithinBudget()).toThrow(
+      /AI budget per worker exceeded: spent \$0\.0010 of \$0\.0010/
+    );
+  });
+
+  test('enforces the run budget on its own usage when not sharing the ledger', async () => {
+    const tracker = await withEnv({ AI_BUDGET_PER_RUN_USD: '0.0005' }, () => new AIUsageTracker());
+
+    tracker.record(HAIKU, undefined, 2000, 0);
+
+    expect(() => tracker.assertWithinBudget()).toThrow(AIBudgetExceededError);
+  });
+
+  test('breaks usage down by model and feature', async () => {
+    const tracker = new AIUsageTracker();
+    tracker.startTest();
+
+    tracker.record(HAIKU, 'healing', 100, 10);
+    tracker.record(HAIKU, undefined, 100, 10);
+    const usage = tracker.endTest();
+
+    expect(usage.total).toMatchObject({ calls: 2, inputTokens: 200, outputTokens: 20 });
+    expect(Object.keys(usage.byFeature)).toEqual(['healing', 'other']);
+    expect(usage.byModel[HAIKU].calls).toBe(2);
+  });
+});
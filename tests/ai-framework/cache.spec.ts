@@ -0,0 +1,81 @@
+/**
+ * AI Response Cache
+ *
+ * Expiry and least-recently-used eviction of the disk cache, and cache
+ * hits through AIClient with a stubbed provider. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/cache.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIClient } from '../../config/ai-client';
+import { AIResponseCache } from '../../config/ai-cache';
+import { AIRequest } from '../../config/ai-request';
+import { StubProvider, createStubbedClient, withEnv } from './helpers';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function request(prompt: string): AIRequest {
+  return { model: 'claude-3-haiku-20240307', maxTokens: 100, messages: [{ role: 'user', content: prompt }] };
+}
+
+test.describe('AI cache - entries', () => {
+  test('serves a stored response until it expires', async ({}, testInfo) => {
+    const cache = new AIResponseCache({ dir: testInfo.outputPath('cache'), ttlMs: 200 });
+
+    cache.set(request('Question'), 'Answer');
+    const fresh = cache.get(request('Question'));
+    await sleep(250);
+    const expired = cache.get(request('Question'));
+
+    expect(fresh).toBe('Answer');
+    expect(expired).toBeNull();
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, writes: 1 });
+  });
+
+  test('keys entries on the whole request', async ({}, testInfo) => {
+    const cache = new AIResponseCache({ dir: testInfo.outputPath('cache') });
+
+    cache.set(request('Question'), 'Answer');
+
+    expect(cache.get({ ...request('Question'), feature: 'healing' })).toBe('Answer');
+    expect(cache.get({ ...request('Question'), model: 'claude-sonnet-4-5-20250929' })).toBeNull();
+    expect(cache.get({ ...request('Question'), system: 'Be brief' })).toBeNull();
+    expect(cache.get(request('Other question'))).toBeNull();
+  });
+
+  test('evicts the least recently used entries beyond the size limit', async ({}, testInfo) => {
+    // Each entry is a little over 1KB, so two fit
+    const cache = new AIResponseCache({ dir: testInfo.outputPath('cache'), maxBytes: 2500 });
+
+    cache.set(request('A'), 'x'.repeat(1000));
+    await sleep(20);
+    cache.set(request('B'), 'x'.repeat(1000));
+    await sleep(20);
+    cache.get(request('A'));
+    await sleep(20);
+    cache.set(request('C'), 'x'.repeat(1000));
+
+    expect(cache.getStats().evictions).toBe(1);
+    expect(cache.get(request('B'))).toBeNull();
+    expect(cache.get(request('A'))).not.toBeNull();
+    expect(cache.get(request('C'))).not.toBeNull();
+  });
+});
+
+test.describe('AI cache - client', () => {
+  test('answers a repeated request from the cache', async ({}, testInfo) => {
+    const provider = new StubProvider('Live answer');
+
+    const answers = await withEnv({ AI_CACHE_ENABLED: 'true', AI_CACHE_DIR: testInfo.outputPath('cache') }, async () => {
+      const client = createStubbedClient(provider);
+      return [
+        await client.ask('Question', undefined, { model: 'haiku' }),
+        await client.ask('Question', undefined, { model: 'haiku' }),
+      ];
+    });
+
+    expect(answers).toEqual(['Live answer', 'Live answer']);
+    expect(provider.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * AI Cassettes
+ *
+ * Records calls made through a stubbed provider and replays them without
+ * one. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/cassette.spec.ts
+ */
+
+import * as fs from 'fs';
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIClient } from '../../config/ai-client';
+import { CassetteMismatchError } from '../../config/ai-cassette';
+import { StubProvider, createStubbedClient, withEnv } from './helpers';
+
+const PIXEL = Buffer.from('recorded screenshot').toString('base64');
+const OTHER_PIXEL = Buffer.from('replayed screenshot').toString('base64');
+
+function recordingClient(cassettePath: string, ...answers: string[]): AIClient {
+  const client = createStubbedClient(new StubProvider(...answers));
+  client.useCassette(cassettePath, 'record');
+  return client;
+}
+
+function replayingClient(cassettePath: string): { client: AIClient; provider: StubProvider } {
+  const provider = new StubProvider(new Error('The provider must not be called in replay mode'));
+  const client = createStubbedClient(provider);
+  client.useCassette(cassettePath, 'replay');
+  return { client, provider };
+}
+
+test.describe('AI cassettes - record and replay', () => {
+  test('replays recorded answers in order without calling the provider', async ({}, testInfo) => {
+    const cassettePath = testInfo.outputPath('cassette.json');
+    const recorder = recordingClient(cassettePath, 'first', 'second');
+    await recorder.ask('Same question', undefined, { model: 'haiku' });
+    await recorder.ask('Same question', undefined, { model: 'haiku' });
+    recorder.ejectCassette();
+
+    const { client, provider } = replayingClient(cassettePath);
+    const answers = [
+      await client.ask('Same question', undefined, { model: 'haiku' }),
+      await client.ask('Same question', undefined, { model: 'haiku' }),
+      await client.ask('Same question', undefined, { model: 'haiku' }),
+    ];
+
+    expect(answers).toEqual(['first', 'second', 'second']);
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  test('stores image hashes instead of image data', async ({}, testInfo) => {
+    const cassettePath = testInfo.outputPath('cassette.json');
+    const recorder = recordingClient(cassettePath, 'looks fine');
+
+    await recorder.askWithImage('Describe the page', PIXEL, 'image/png', { model: 'haiku' });
+    recorder.ejectCassette();
+
+    const cassette = fs.readFileSync(cassettePath, 'utf-8');
+    expect(cassette).not.toContain(PIXEL);
+    expect(cassette).toContain('imageHash');
+  });
+
+  test('does not write a cassette for a test without AI calls', async ({}, testInfo) => {
+    const cassettePath = testInfo.outputPath('cassette.json');
+
+    recordingClient(cassettePath).ejectCassette();
+
+    expect(fs.existsSync(cassettePath)).toBe(false);
+  });
+
+  test('fails a request that was not recorded', async ({}, testInfo) => {
+    const cassettePath = testInfo.outputPath('cassette.json');
+    const recorder = recordingClient(cassettePath, 'recorded');
+    await recorder.ask('Recorded question', undefined, { model: 'haiku' });
+    recorder.ejectCassette();
+
+    const { client } = replayingClient(cassettePath);
+
+    await expect(client.ask('Another question', undefined, { model: 'haiku' })).rejects.toThrow(CassetteMismatchError);
+    await expect(client.ask('Recorded question', undefined, { model: 'sonnet' })).rejects.toThrow(CassetteMismatchError);
+  });
+
+  test('fails replay when the cassette is missing', async ({}, testInfo) => {
+    const cassettePath = testInfo.outputPath('missing.json');
+    const client = new AIClient();
+
+    expect(() => client.useCassette(cassettePath, 'replay')).toThrow(
+      /AI cassette not found: .*missing\.json\nRecord it first with AI_CASSETTE_MODE=record/
+    );
+  });
+});
+
+test.describe('AI cassettes - image matching', () => {
+  test('rejects different screenshot bytes by default', async ({}, testInfo) => {
+    const cassettePath = testInfo.outputPath('cassette.json');
+    const recorder = recordingClient(cassettePath, 'looks fine');
+    await recorder.askWithImage('Describe the page', PIXEL, 'image/png', { model: 'haiku' });
+    recorder.ejectCassette();
+
+    const { client } = replayingClient(cassettePath);
+
+    await expect(client.askWithImage('Describe the page', OTHER_PIXEL, 'image/png', { model: 'haiku' })).rejects.toThrow(
+      CassetteMismatchError
+    );
+  });
+
+  test('replays a cassette recorded with images when AI_CASSETTE_MATCH_IMAGES=false', async ({}, testInfo) => {
+    const cassettePath = testInfo.outputPath('cassette.json');
+    const recorder = recordingClient(cassettePath, 'looks fine');
+    await recorder.askWithImage('Describe the page', PIXEL, 'image/png', { model: 'haiku' });
+    recorder.ejectCassette();
+
+    const answer = await withEnv({ AI_CASSETTE_MATCH_IMAGES: 'false' }, () => {
+      const { client } = replayingClient(cassettePath);
+      return client.askWithImage('Describe the page', OTHER_PIXEL, 'image/png', { model: 'haiku' });
+    });
+
+    expect(answer).toBe('looks fine');
+  });
+
+  test('replays a cassette recorded with AI_CASSETTE_MATCH_IMAGES=false when matching images', async ({}, testInfo) => {
+    const cassettePath = testInfo.outputPath('cassette.json');
+    await withEnv({ AI_CASSETTE_MATCH_IMAGES: 'false' }, async () => {
+      const recorder = recordingClient(cassettePath, 'looks fine');
+      await recorder.askWithImage('Describe the page', PIXEL, 'image/png', { model: 'haiku' });
+      recorder.ejectCassette();
+    });
+
+    const { client } = replayingClient(cassettePath);
+
+    expect(await client.askWithImage('Describe the page', PIXEL, 'image/png', { model: 'haiku' })).toBe('looks fine');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Model Health Check
+ *
+ * The checks of npm run check-models against a stubbed backend, and their
+ * JUnit XML report. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/check-models.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIRequest, getLastPrompt } from '../../config/ai-request';
+import { HealthReport, checkModel, formatJUnit } from '../../scripts/check-model-versions';
+import { StubProvider, withStubbedAIClient } from './helpers';
+
+/**
+ * Answers every check of the health check correctly
+ */
+function healthyAnswer(request: AIRequest): string {
+  const prompt = getLastPrompt(request);
+  if (prompt.includes('What color')) return 'Red';
+  if (prompt.includes('JSON')) return '{"status": "ok", "sum": 5}';
+  return 'OK';
+}
+
+const notFound = Object.assign(new Error('model: claude-sonnet-0'), { status: 404 });
+
+test.describe('Model health check - checks', () => {
+  test('passes a model that answers every check', async () => {
+    const provider = new StubProvider(healthyAnswer);
+
+    const result = await withStubbedAIClient(provider, () => checkModel('sonnet', 2));
+
+    expect(result.status).toBe('pass');
+    expect(result.checks.map((check) => [check.name, check.status])).toEqual([
+      ['text', 'pass'],
+      ['vision', 'pass'],
+      ['json', 'pass'],
+      ['max-tokens', 'pass'],
+    ]);
+    expect(result.latency?.samples).toHaveLength(2);
+    expect(provider.requests.every((request) => request.feature === 'health-check')).toBe(true);
+  });
+
+  test('fails a model on a wrong answer or an API error', async () => {
+    const provider = new StubProvider((request) => {
+      const prompt = getLastPrompt(request);
+      if (prompt.includes('What color')) return notFound;
+      if (prompt.includes('JSON')) return '{"status": "ok", "sum": 6}';
+      return 'OK';
+    });
+
+    const result = await withStubbedAIClient(provider, () => checkModel('sonnet', 1));
+
+    expect(result.status).toBe('fail');
+    expect(result.checks.find((check) => check.name === 'vision')).toMatchObject({
+      status: 'fail',
+      errorType: 'not-found',
+      message: 'Model Not Found (404): Model version is deprecated or invalid',
+    });
+    expect(result.checks.find((check) => check.name === 'json')).toMatchObject({
+      status: 'fail',
+      message: 'Expected sum 5, got 6',
+    });
+  });
+});
+
+test.describe('Model health check - JUnit report', () => {
+  const report: HealthReport = {
+    generatedAt: '2026-10-19T08:00:00.000Z',
+    passed: false,
+    models: [
+      {
+        model: 'haiku',
+        family: 'Claude 3 Haiku',
+        version: 'claude-3-haiku-20240307',
+        status: 'fail',
+        latency: { samples: [200, 400], min: 200, p50: 200, p90: 400, p95: 400, max: 400 },
+        checks: [
+          { name: 'text', status: 'pass', latencyMs: 400 },
+          { name: 'vision', status: 'fail', latencyMs: 1500, message: 'Expected "red", got "<blue>"' },
+          { name: 'json', status: 'fail', latencyMs: 100, message: 'Server Overloaded (529)', errorType: 'overloaded' },
+          { name: 'max-tokens', status: 'skip', message: 'No feature routed or escalating to this model' },
+        ],
+      },
+    ],
+  };
+
+  test('writes one suite per model and one case per check', () => {
+    const xml = formatJUnit(report);
+
+    expect(xml).toContain('<testsuites name="check-models" tests="4" failures="2" skipped="1">');
+    expect(xml).toContain(
+      '<testsuite name="haiku (claude-3-haiku-20240307)" tests="4" failures="2" skipped="1" ' +
+      'time="2.000" timestamp="2026-10-19T08:00:00.000Z">'
+    );
+    expect(xml).toContain('<testcase classname="check-models.haiku" name="text" time="0.400"/>');
+    expect(xml).toContain('<skipped message="No feature routed or escalating to this model"/>');
+  });
+
+  test('types failures by error and escapes their messages', () => {
+    const xml = formatJUnit(report);
+
+    expect(xml).toContain('<failure message="Expected &quot;red&quot;, got &quot;&lt;blue&gt;&quot;" type="assertion"/>');
+    expect(xml).toContain('<failure message="Server Overloaded (529)" type="overloaded"/>');
+  });
+
+  test('records the latency percentiles as suite properties', () => {
+    const xml = formatJUnit(report);
+
+    expect(xml).toContain(
+      [
+        '    <properties>',
+        '      <property name="latency.minMs" value="200"/>',
+        '      <property name="latency.p50Ms" value="200"/>',
+        '      <property name="latency.p90Ms" value="400"/>',
+        '      <property name="latency.p95Ms" value="400"/>',
+        '      <property name="latency.maxMs" value="400"/>',
+        '    </properties>',
+      ].join('\n')
+    );
+  });
+});
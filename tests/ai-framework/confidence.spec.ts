@@ -0,0 +1,156 @@
+/**
+ * AI Assertion Confidence
+ *
+ * Minimum confidence settings and the inconclusive policies (fail, warn,
+ * retry), run on semantic assertions against a stubbed backend. Runs
+ * without an API key or a browser.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/confidence.spec.ts
+ */
+
+import { Page } from '@playwright/test';
+import { test, expect } from '../../fixtures/ai-fixtures';
+import {
+  getInconclusivePolicy,
+  getInconclusiveRetries,
+  getMinConfidence,
+} from '../../config/ai-confidence';
+import { AIAssertion, AIAssertionError, AIInconclusiveError } from '../../utils/ai-helpers/ai-assertions';
+import { StubProvider, withEnv, withStubbedAIClient } from './helpers';
+
+/**
+ * Page stand-in whose elements all have this text (semantic checks only read text)
+ */
+function textPage(text: string): Page {
+  const page = {
+    locator: (selector: string) => ({
+      textContent: async () => text,
+      page: () => page,
+      toString: () => `locator('${selector}')`,
+    }),
+  };
+  return page as unknown as Page;
+}
+
+function verdict(matches: boolean, confidence: number): string {
+  return JSON.stringify({ matches, confidence, explanation: `Confidence ${confidence}` });
+}
+
+/**
+ * Run a semantic assertion on "Order #1042 confirmed" with scripted verdicts
+ *
+ * Escalation and the cross-check are off, so each verdict is one call.
+ */
+async function assertSemantic(
+  env: Record<string, string | undefined>,
+  options: ConstructorParameters<typeof AIAssertion>[0],
+  ...verdicts: string[]
+): Promise<{ provider: StubProvider; run: Promise<void> }> {
+  const provider = new StubProvider(...verdicts);
+  const run = withEnv(
+    {
+      ENABLE_AI_ASSERTIONS: undefined,
+      AI_ESCALATION_ENABLED: 'false',
+      AI_INJECTION_CROSS_CHECK: 'off',
+      AI_ASSERTION_INCONCLUSIVE_RETRY_DELAY_MS: '0',
+      ...env,
+    },
+    () =>
+      withStubbedAIClient(provider, () =>
+        new AIAssertion(options).expectSemanticContent(textPage('Order #1042 confirmed'), '#status', 'the order is confirmed')
+      )
+  );
+
+  // Settle before the caller inspects the requests
+  await run.catch(() => undefined);
+  return { provider, run };
+}
+
+test.describe('AI confidence - settings', () => {
+  test('reads the minimum confidence per feature, then globally', async () => {
+    await withEnv(
+      { AI_ASSERTION_MIN_CONFIDENCE: undefined, AI_ASSERTION_MIN_CONFIDENCE_ASSERTIONS_VISUAL: undefined },
+      () => expect(getMinConfidence('assertions.visual')).toBe(0.7)
+    );
+    await withEnv(
+      { AI_ASSERTION_MIN_CONFIDENCE: '0.6', AI_ASSERTION_MIN_CONFIDENCE_ASSERTIONS_VISUAL: '0.9' },
+      () => {
+        expect(getMinConfidence('assertions.visual')).toBe(0.9);
+        expect(getMinConfidence('assertions.semantic')).toBe(0.6);
+        expect(getMinConfidence()).toBe(0.6);
+      }
+    );
+  });
+
+  test('rejects unknown policies and retry counts', async () => {
+    await withEnv({ AI_ASSERTION_INCONCLUSIVE: 'Retry', AI_ASSERTION_INCONCLUSIVE_RETRIES: '3' }, () => {
+      expect(getInconclusivePolicy()).toBe('retry');
+      expect(getInconclusiveRetries()).toBe(3);
+    });
+    await withEnv({ AI_ASSERTION_INCONCLUSIVE: 'ignore', AI_ASSERTION_INCONCLUSIVE_RETRIES: '-1' }, () => {
+      expect(() => getInconclusivePolicy()).toThrow('Invalid AI_ASSERTION_INCONCLUSIVE: "ignore"');
+      expect(() => getInconclusiveRetries()).toThrow('Invalid AI_ASSERTION_INCONCLUSIVE_RETRIES: "-1"');
+    });
+  });
+});
+
+test.describe('AI confidence - inconclusive policies', () => {
+  test('fails an unsure verdict with the fail policy, whatever it says', async () => {
+    const { provider, run } = await assertSemantic({ AI_ASSERTION_INCONCLUSIVE: 'fail' }, {}, verdict(true, 0.5));
+
+    await expect(run).rejects.toThrow(AIInconclusiveError);
+    await expect(run).rejects.toMatchObject({ confidence: 0.5, minConfidence: 0.7 });
+    await expect(run).rejects.toThrow('Inconclusive: confidence 0.5 is below the minimum of 0.7');
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  test('decides with a confident verdict', async () => {
+    const passing = await assertSemantic({}, {}, verdict(true, 0.7));
+    const failing = await assertSemantic({}, {}, verdict(false, 0.95));
+
+    await expect(passing.run).resolves.toBeUndefined();
+    await expect(failing.run).rejects.toThrow(AIAssertionError);
+    await expect(failing.run).rejects.not.toThrow(AIInconclusiveError);
+  });
+
+  test('goes on with a warning with the warn policy', async () => {
+    const { provider, run } = await assertSemantic({ AI_ASSERTION_INCONCLUSIVE: 'warn' }, {}, verdict(false, 0.4));
+
+    await expect(run).resolves.toBeUndefined();
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  test('asks again with the retry policy until the verdict is confident', async () => {
+    const { provider, run } = await assertSemantic(
+      { AI_ASSERTION_INCONCLUSIVE: 'retry', AI_ASSERTION_INCONCLUSIVE_RETRIES: '2' },
+      {},
+      verdict(true, 0.3),
+      verdict(true, 0.5),
+      verdict(true, 0.9)
+    );
+
+    await expect(run).resolves.toBeUndefined();
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  test('fails after the last retry', async () => {
+    const { provider, run } = await assertSemantic(
+      { AI_ASSERTION_INCONCLUSIVE: 'retry', AI_ASSERTION_INCONCLUSIVE_RETRIES: '1' },
+      {},
+      verdict(true, 0.5)
+    );
+
+    await expect(run).rejects.toThrow(AIInconclusiveError);
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  test('lets the assertion defaults win over the environment', async () => {
+    const { run } = await assertSemantic(
+      { AI_ASSERTION_INCONCLUSIVE: 'fail', AI_ASSERTION_MIN_CONFIDENCE: '0.9' },
+      { minConfidence: 0.8, onInconclusive: 'warn' },
+      verdict(false, 0.85)
+    );
+
+    await expect(run).rejects.toThrow('Semantic assertion failed.');
+  });
+});
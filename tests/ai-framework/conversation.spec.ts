@@ -0,0 +1,107 @@
+/**
+ * Multi-Image Content and Conversations
+ *
+ * Ordered text/image blocks and multi-turn message history, checked on the
+ * requests a stubbed provider receives. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/conversation.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIClient } from '../../config/ai-client';
+import { countImages, describeMessages, hashImage } from '../../config/ai-request';
+import { StubProvider, createStubbedClient } from './helpers';
+
+const BEFORE = Buffer.from('before screenshot').toString('base64');
+const AFTER = Buffer.from('after screenshot').toString('base64');
+
+function clientAnswering(...answers: Array<string | Error>): { client: AIClient; provider: StubProvider } {
+  const provider = new StubProvider(...answers);
+  return { client: createStubbedClient(provider), provider };
+}
+
+test.describe('AI content - multiple images', () => {
+  test('sends text and images in the given order', async () => {
+    const { client, provider } = clientAnswering('The button turned green');
+
+    await client.askWithContent(
+      [
+        { type: 'text', text: 'Before:' },
+        { type: 'image', data: BEFORE, mediaType: 'image/png' },
+        { type: 'text', text: 'After:' },
+        { type: 'image', data: AFTER, mediaType: 'image/jpeg' },
+        { type: 'text', text: 'What changed?' },
+      ],
+      'Compare screenshots',
+      { model: 'haiku' }
+    );
+
+    const [request] = provider.requests;
+    expect(request.system).toBe('Compare screenshots');
+    expect(countImages(request)).toBe(2);
+    expect(describeMessages(request.messages)).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Before:' },
+          { type: 'image', imageHash: hashImage(BEFORE), mediaType: 'image/png' },
+          { type: 'text', text: 'After:' },
+          { type: 'image', imageHash: hashImage(AFTER), mediaType: 'image/jpeg' },
+          { type: 'text', text: 'What changed?' },
+        ],
+      },
+    ]);
+  });
+
+  test('puts the image before the prompt with askWithImage', async () => {
+    const { client, provider } = clientAnswering('A login form');
+
+    await client.askWithImage('Describe the page', BEFORE, 'image/png', { model: 'haiku' });
+
+    expect(provider.requests[0].messages[0].content).toEqual([
+      { type: 'image', data: BEFORE, mediaType: 'image/png' },
+      { type: 'text', text: 'Describe the page' },
+    ]);
+  });
+});
+
+test.describe('AI content - conversations', () => {
+  test('sends the history with every follow-up', async () => {
+    const { client, provider } = clientAnswering('#submit', 'button[type=submit]');
+    const conversation = client.createConversation('Suggest selectors', { model: 'haiku' });
+
+    await conversation.send([
+      { type: 'image', data: BEFORE, mediaType: 'image/png' },
+      { type: 'text', text: 'Suggest a selector for the submit button' },
+    ]);
+    const second = await conversation.send('"#submit" matched nothing. Suggest another one.');
+
+    expect(second).toBe('button[type=submit]');
+    expect(provider.requests[1].system).toBe('Suggest selectors');
+    expect(provider.requests[1].messages.map((message) => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(provider.requests[1].messages[1].content).toBe('#submit');
+    expect(countImages(provider.requests[1])).toBe(1);
+    expect(conversation.getHistory()).toHaveLength(4);
+  });
+
+  test('keeps a failed turn out of the history', async () => {
+    const { client } = clientAnswering('First answer', Object.assign(new Error('Bad request'), { status: 400 }));
+    const conversation = client.createConversation(undefined, { model: 'haiku' });
+    await conversation.send('First question');
+
+    await expect(conversation.send('Second question')).rejects.toThrow('Bad request');
+
+    expect(conversation.getHistory()).toHaveLength(2);
+  });
+
+  test('starts over after a reset', async () => {
+    const { client, provider } = clientAnswering('Answer');
+    const conversation = client.createConversation(undefined, { model: 'haiku' });
+    await conversation.send('First question');
+
+    conversation.reset();
+    await conversation.send('Fresh question');
+
+    expect(provider.requests[1].messages).toEqual([{ role: 'user', content: 'Fresh question' }]);
+  });
+});
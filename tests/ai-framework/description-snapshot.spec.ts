@@ -0,0 +1,154 @@
+/**
+ * Description Snapshots
+ *
+ * Snapshot naming, files and formatting, and the first-run / compare
+ * cycle of expectDescriptionSnapshot. The "files" tests run without a
+ * browser; the "check" tests render a small page in Chromium and answer
+ * the AI with a stubbed backend.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/description-snapshot.spec.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIAssertion } from '../../utils/ai-helpers/ai-assertions';
+import {
+  AIDescription,
+  DescriptionSnapshot,
+  formatDescription,
+  getDefaultSnapshotName,
+  getSnapshotPath,
+  readSnapshot,
+  writeSnapshot,
+} from '../../utils/ai-helpers/description-snapshot';
+import { StubProvider, withEnv, withStubbedAIClient } from './helpers';
+
+const checkout: AIDescription = {
+  summary: 'Checkout form with a disabled pay button',
+  components: [
+    { path: 'main > form', type: 'form', label: 'Payment', texts: [], states: [] },
+    { path: 'main > form > button', type: 'button', label: 'Pay now', texts: ['Pay now', '$42.00'], states: ['disabled'] },
+  ],
+};
+
+test.describe('Description snapshots - files', () => {
+  test('names unnamed snapshots after the test, one per call', async ({}, testInfo) => {
+    const title = testInfo.titlePath.slice(1).join(' ');
+
+    expect(getDefaultSnapshotName(testInfo)).toBe(`${title}-1`);
+    expect(getDefaultSnapshotName(testInfo)).toBe(`${title}-2`);
+  });
+
+  test('stores snapshots next to the spec, shared by projects', async ({}, testInfo) => {
+    const snapshotPath = getSnapshotPath(testInfo, 'checkout page.ai.json');
+
+    expect(path.basename(snapshotPath)).toBe('checkout-page.ai.json');
+    expect(path.basename(path.dirname(snapshotPath))).toBe('description-snapshot.spec.ts-snapshots');
+  });
+
+  test('writes and reads snapshot files', async ({}, testInfo) => {
+    const snapshotPath = testInfo.outputPath('snapshots', 'checkout.ai.json');
+    const snapshot: DescriptionSnapshot = {
+      name: 'checkout',
+      target: 'page',
+      prompt: 'assertions.description@1.0.0',
+      description: checkout,
+    };
+
+    writeSnapshot(snapshotPath, snapshot);
+
+    expect(readSnapshot(snapshotPath)).toEqual(snapshot);
+    expect(fs.readFileSync(snapshotPath, 'utf-8')).toMatch(/^\{\n {2}"name": "checkout",[\s\S]*\n\}\n$/);
+  });
+
+  test('rejects a snapshot without components', async ({}, testInfo) => {
+    const snapshotPath = testInfo.outputPath('broken.ai.json');
+    fs.writeFileSync(snapshotPath, JSON.stringify({ name: 'broken', description: { summary: 'Nothing' } }));
+
+    expect(() => readSnapshot(snapshotPath)).toThrow('Invalid description snapshot (no description.components)');
+  });
+
+  test('formats a description for the comparison prompt', () => {
+    expect(formatDescription(checkout)).toBe(
+      [
+        'Summary: Checkout form with a disabled pay button',
+        '- main > form: form "Payment"',
+        '- main > form > button: button "Pay now" [disabled]',
+        '    text: Pay now',
+        '    text: $42.00',
+      ].join('\n')
+    );
+  });
+});
+
+test.describe('Description snapshots - check', () => {
+  const name = 'ai-framework-description-snapshot';
+  const env = {
+    AI_ESCALATION_ENABLED: 'false',
+    AI_ASSERTION_INCONCLUSIVE: undefined,
+  };
+
+  test.beforeEach(async ({ page }) => {
+    await page.setContent('<main><form aria-label="Payment"><button disabled>Pay now</button> $42.00</form></main>');
+  });
+
+  // Snapshots are written next to the spec, don't leave them in the tree
+  test.afterEach(async ({}, testInfo) => {
+    const snapshotPath = getSnapshotPath(testInfo, name);
+    fs.rmSync(snapshotPath, { force: true });
+    if (fs.existsSync(path.dirname(snapshotPath)) && fs.readdirSync(path.dirname(snapshotPath)).length === 0) {
+      fs.rmdirSync(path.dirname(snapshotPath));
+    }
+  });
+
+  test('writes the first description and fails until it is reviewed', async ({ page }, testInfo) => {
+    const provider = new StubProvider(JSON.stringify(checkout));
+
+    const result = await withEnv(env, () =>
+      withStubbedAIClient(provider, () => new AIAssertion().checkDescriptionSnapshot(page, name))
+    );
+
+    expect(result).toMatchObject({ status: 'failed', final: true });
+    expect(readSnapshot(getSnapshotPath(testInfo, name))).toMatchObject({ name, target: 'page', description: checkout });
+    expect(provider.requests[0].feature).toBe('assertions.description');
+  });
+
+  test('compares a fresh description with the snapshot', async ({ page }, testInfo) => {
+    writeSnapshot(getSnapshotPath(testInfo, name), {
+      name,
+      target: 'page',
+      prompt: 'assertions.description@1.0.0',
+      description: checkout,
+    });
+    const enabled: AIDescription = {
+      ...checkout,
+      components: [checkout.components[0], { ...checkout.components[1], states: [] }],
+    };
+    const provider = new StubProvider(
+      JSON.stringify(enabled),
+      JSON.stringify({
+        matches: false,
+        confidence: 0.9,
+        differences: [{ kind: 'state', description: 'The pay button is enabled' }],
+        explanation: 'The button state changed',
+      })
+    );
+
+    const result = await withEnv(env, () =>
+      withStubbedAIClient(provider, () =>
+        new AIAssertion().checkDescriptionSnapshot(page, name, { ignore: 'the amount' })
+      )
+    );
+
+    expect(result.status).toBe('failed');
+    expect(result.message).toContain('  - state: The pay button is enabled');
+    expect(provider.requests.map((request) => request.feature)).toEqual([
+      'assertions.description',
+      'assertions.description-compare',
+    ]);
+    expect(provider.prompts[1]).toContain('- main > form > button: button "Pay now" [disabled]');
+    expect(provider.prompts[1]).toContain('the amount');
+    expect(testInfo.attachments.map((attachment) => attachment.name)).toContain(`${name}-actual.ai.json`);
+  });
+});
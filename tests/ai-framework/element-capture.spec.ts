@@ -0,0 +1,112 @@
+/**
+ * Element Capture
+ *
+ * Crops, thumbnails and text descriptions of the element a visual AI
+ * assertion is scoped to. The "description" tests run without a browser;
+ * the "page" tests render a small page in Chromium and make no AI call.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/element-capture.spec.ts
+ */
+
+import { Locator } from '@playwright/test';
+import { test, expect } from '../../fixtures/ai-fixtures';
+import {
+  ElementCapture,
+  captureElement,
+  describeElement,
+  resolveAssertionTarget,
+  toImageBlocks,
+  truncateAriaSnapshot,
+} from '../../utils/ai-helpers/element-capture';
+
+function pngSize(png: Buffer): { width: number; height: number } {
+  return { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+}
+
+test.describe('Element capture - description', () => {
+  const capture: ElementCapture = {
+    locator: { toString: () => "locator('#buy')" } as unknown as Locator,
+    crop: Buffer.from('crop'),
+    box: { x: 100.4, y: 49.6, width: 80, height: 30.2 },
+    ariaSnapshot: '- button "Buy now"',
+  };
+
+  test('describes the locator, rounded box and ARIA snapshot', () => {
+    const text = describeElement(capture);
+
+    expect(text).toContain("Locator: locator('#buy')");
+    expect(text).toContain('Bounding box (CSS pixels, page coordinates): x=100, y=50, width=80, height=30');
+    expect(text).toContain('<untrusted_content source="aria-snapshot">\n- button "Buy now"\n</untrusted_content>');
+  });
+
+  test('truncates long ARIA snapshots', () => {
+    const snapshot = '- listitem: row\n'.repeat(200);
+
+    expect(truncateAriaSnapshot('- button "Buy now"')).toBe('- button "Buy now"');
+    expect(truncateAriaSnapshot(snapshot, 32)).toBe(`${snapshot.slice(0, 32)}\n[truncated]`);
+    expect(truncateAriaSnapshot(snapshot).length).toBe(1500 + '\n[truncated]'.length);
+  });
+
+  test('sends the crop first, then the thumbnail', () => {
+    expect(toImageBlocks(capture)).toEqual([
+      { type: 'image', data: Buffer.from('crop').toString('base64'), mediaType: 'image/png' },
+    ]);
+
+    const blocks = toImageBlocks({ ...capture, thumbnail: Buffer.from('thumbnail') });
+    expect(blocks.map((block) => block.type === 'image' && Buffer.from(block.data, 'base64').toString())).toEqual([
+      'crop',
+      'thumbnail',
+    ]);
+  });
+});
+
+test.describe('Element capture - page', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.setViewportSize({ width: 800, height: 600 });
+    await page.setContent(`
+      <body style="margin: 0; height: 2000px">
+        <button id="edge" style="position: absolute; left: 0; top: 0; width: 40px; height: 20px">Menu</button>
+        <button id="buy" style="position: absolute; left: 100px; top: 50px; width: 80px; height: 30px">Buy now</button>
+        <button id="footer" style="position: absolute; left: 100px; top: 1500px; width: 80px; height: 30px">Contact</button>
+      </body>
+    `);
+  });
+
+  test('scopes an assertion to a selector or a locator', async ({ page }) => {
+    const bySelector = resolveAssertionTarget(page, { element: '#buy' });
+    const byLocator = resolveAssertionTarget(page.locator('#buy'));
+
+    expect(bySelector.page).toBe(page);
+    expect(await bySelector.element!.textContent()).toBe('Buy now');
+    expect(byLocator.page).toBe(page);
+    expect(resolveAssertionTarget(page).element).toBeNull();
+  });
+
+  test('crops the element with its padding', async ({ page }) => {
+    const capture = await captureElement(page.locator('#buy'), { padding: 10 });
+
+    expect(capture.box).toEqual({ x: 100, y: 50, width: 80, height: 30 });
+    expect(pngSize(capture.crop)).toEqual({ width: 100, height: 50 });
+    expect(capture.thumbnail).toBeUndefined();
+    expect(capture.ariaSnapshot).toBe('- button "Buy now"');
+  });
+
+  test('keeps the crop within the page', async ({ page }) => {
+    const edge = await captureElement(page.locator('#edge'), { padding: 10 });
+    const footer = await captureElement(page.locator('#footer'), { padding: 10 });
+
+    expect(pngSize(edge.crop)).toEqual({ width: 50, height: 30 });
+    // Below the viewport, in page coordinates
+    expect(footer.box.y).toBe(1500);
+    expect(pngSize(footer.crop)).toEqual({ width: 100, height: 50 });
+  });
+
+  test('adds a downscaled full-page thumbnail', async ({ page }) => {
+    const capture = await captureElement(page.locator('#buy'), { thumbnail: true });
+    const thumbnail = pngSize(capture.thumbnail!);
+
+    expect(thumbnail.width).toBeLessThanOrEqual(320);
+    expect(thumbnail.height).toBeLessThanOrEqual(960);
+    expect(thumbnail.height).toBeGreaterThan(thumbnail.width);
+  });
+});
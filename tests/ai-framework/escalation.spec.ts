@@ -0,0 +1,198 @@
+/**
+ * AI Model Escalation
+ *
+ * Thresholds, escalation chains, and askJSONWithEscalation() against a
+ * stubbed provider that answers per model. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/escalation.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIClient } from '../../config/ai-client';
+import { JSONSchema } from '../../config/ai-json';
+import { AIRequest } from '../../config/ai-request';
+import { MODEL_VERSIONS } from '../../config/model-versions';
+import {
+  DEFAULT_ESCALATION_THRESHOLD,
+  getEscalationChain,
+  getEscalationThreshold,
+} from '../../config/ai-escalation';
+import { StubProvider, createStubbedClient, withEnv } from './helpers';
+
+const ESCALATION_ENV = {
+  AI_ESCALATION_ENABLED: undefined,
+  AI_ESCALATION_THRESHOLD: undefined,
+  AI_ESCALATION_THRESHOLD_ASSERTIONS_VISUAL: undefined,
+  AI_ESCALATION_MAX_MODEL: undefined,
+};
+
+const VERDICT_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: { matches: { type: 'boolean' }, confidence: { type: 'number' } },
+  required: ['matches', 'confidence'],
+};
+
+interface Verdict {
+  matches: boolean;
+  confidence: number;
+}
+
+/**
+ * Client whose answers depend on the model asked
+ */
+function clientAnswering(answers: Record<'haiku' | 'sonnet' | 'opus', string>): { client: AIClient; provider: StubProvider } {
+  const byModelId: Record<string, string> = {
+    [MODEL_VERSIONS.haiku]: answers.haiku,
+    [MODEL_VERSIONS.sonnet]: answers.sonnet,
+    [MODEL_VERSIONS.opus]: answers.opus,
+  };
+  const provider = new StubProvider((request: AIRequest) => byModelId[request.model]);
+  return { client: createStubbedClient(provider), provider };
+}
+
+/**
+ * Local backend serving one model for every tier
+ */
+class SingleModelProvider extends StubProvider {
+  resolveModel(): string {
+    return 'llama3.1';
+  }
+}
+
+test.describe('AI escalation - configuration', () => {
+  test('reads the threshold per feature, then globally', async () => {
+    await withEnv(ESCALATION_ENV, () => {
+      expect(getEscalationThreshold('assertions.visual')).toBe(DEFAULT_ESCALATION_THRESHOLD);
+    });
+    await withEnv({ ...ESCALATION_ENV, AI_ESCALATION_THRESHOLD: '0.6', AI_ESCALATION_THRESHOLD_ASSERTIONS_VISUAL: '0.9' }, () => {
+      expect(getEscalationThreshold('assertions.visual')).toBe(0.9);
+      expect(getEscalationThreshold('assertions.semantic')).toBe(0.6);
+    });
+  });
+
+  test('rejects a threshold outside 0-1', async () => {
+    await withEnv({ ...ESCALATION_ENV, AI_ESCALATION_THRESHOLD: '70' }, () => {
+      expect(() => getEscalationThreshold()).toThrow(
+        'Invalid AI_ESCALATION_THRESHOLD: "70" (expected a number between 0 and 1)'
+      );
+    });
+  });
+
+  test('builds the chain up to the max model', async () => {
+    await withEnv(ESCALATION_ENV, () => {
+      expect(getEscalationChain('haiku')).toEqual(['haiku', 'sonnet', 'opus']);
+      expect(getEscalationChain('opus')).toEqual(['opus']);
+    });
+    await withEnv({ ...ESCALATION_ENV, AI_ESCALATION_MAX_MODEL: 'sonnet' }, () => {
+      expect(getEscalationChain('haiku')).toEqual(['haiku', 'sonnet']);
+    });
+    await withEnv({ ...ESCALATION_ENV, AI_ESCALATION_ENABLED: 'false' }, () => {
+      expect(getEscalationChain('haiku')).toEqual(['haiku']);
+    });
+  });
+
+  test('drops tiers that resolve to the same model as the one before', async () => {
+    await withEnv(ESCALATION_ENV, () => {
+      expect(getEscalationChain('haiku', () => 'llama3.1')).toEqual(['haiku']);
+      expect(getEscalationChain('haiku', (model) => (model === 'opus' ? 'llama3.1:70b' : 'llama3.1'))).toEqual([
+        'haiku',
+        'opus',
+      ]);
+    });
+  });
+});
+
+test.describe('AI escalation - client', () => {
+  const options = {
+    model: 'haiku' as const,
+    getConfidence: (verdict: Verdict) => verdict.confidence,
+  };
+
+  test('keeps a confident answer from the first model', async () => {
+    const { client, provider } = clientAnswering({
+      haiku: '{"matches": true, "confidence": 0.9}',
+      sonnet: '{"matches": false, "confidence": 0.9}',
+      opus: '{"matches": false, "confidence": 0.9}',
+    });
+
+    const result = await withEnv(ESCALATION_ENV, () =>
+      client.askJSONWithEscalation<Verdict>('Does it match?', VERDICT_SCHEMA, options)
+    );
+
+    expect(result.model).toBe('haiku');
+    expect(result.value.matches).toBe(true);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  test('escalates below the threshold and records every attempt', async () => {
+    const { client } = clientAnswering({
+      haiku: '{"matches": true, "confidence": 0.4}',
+      sonnet: '{"matches": false, "confidence": 0.75}',
+      opus: '{"matches": false, "confidence": 0.95}',
+    });
+
+    const result = await withEnv(ESCALATION_ENV, () =>
+      client.askJSONWithEscalation<Verdict>('Does it match?', VERDICT_SCHEMA, { ...options, threshold: 0.8 })
+    );
+
+    expect(result.model).toBe('opus');
+    expect(result.attempts).toEqual([
+      { model: 'haiku', confidence: 0.4 },
+      { model: 'sonnet', confidence: 0.75 },
+      { model: 'opus', confidence: 0.95 },
+    ]);
+  });
+
+  test('escalates an unparseable answer', async () => {
+    const { client } = clientAnswering({
+      haiku: 'I cannot tell',
+      sonnet: '{"matches": true, "confidence": 0.8}',
+      opus: '{"matches": true, "confidence": 0.8}',
+    });
+
+    const result = await withEnv(ESCALATION_ENV, () =>
+      client.askJSONWithEscalation<Verdict>('Does it match?', VERDICT_SCHEMA, options)
+    );
+
+    expect(result.model).toBe('sonnet');
+    expect(result.attempts[0]).toEqual({ model: 'haiku', error: 'unparseable response' });
+  });
+
+  test('returns the last tier answer even when it is not confident', async () => {
+    const { client } = clientAnswering({
+      haiku: '{"matches": true, "confidence": 0.2}',
+      sonnet: '{"matches": true, "confidence": 0.3}',
+      opus: '{"matches": false, "confidence": 0.5}',
+    });
+
+    const result = await withEnv({ ...ESCALATION_ENV, AI_ESCALATION_THRESHOLD: '0.9' }, () =>
+      client.askJSONWithEscalation<Verdict>('Does it match?', VERDICT_SCHEMA, options)
+    );
+
+    expect(result.model).toBe('opus');
+    expect(result.value).toEqual({ matches: false, confidence: 0.5 });
+  });
+
+  test('does not re-ask a model every tier resolves to', async () => {
+    const provider = new SingleModelProvider('{"matches": true, "confidence": 0.2}');
+    const client = createStubbedClient(provider);
+
+    const result = await withEnv(ESCALATION_ENV, () =>
+      client.askJSONWithEscalation<Verdict>('Does it match?', VERDICT_SCHEMA, options)
+    );
+
+    expect(result.attempts).toEqual([{ model: 'haiku', confidence: 0.2 }]);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  test('sends the requested tier with the resolved model', async () => {
+    const provider = new SingleModelProvider('{"matches": true, "confidence": 0.9}');
+    const client = createStubbedClient(provider);
+
+    await withEnv(ESCALATION_ENV, () =>
+      client.askJSONWithEscalation<Verdict>('Does it match?', VERDICT_SCHEMA, { ...options, model: 'sonnet' })
+    );
+
+    expect(provider.requests[0]).toMatchObject({ model: 'llama3.1', tier: 'sonnet' });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * AI Cost Estimate
+ *
+ * Token estimates, the placeholder answers of estimate mode and the
+ * estimate report. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/estimate.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { ESTIMATE_FLAG, formatCostEstimate, handleEstimateFlag, recordEstimate } from '../../config/ai-estimate';
+import { JSONSchema, placeholderFromSchema } from '../../config/ai-json';
+import { AIRequest, estimateImageTokens, estimateInputTokens } from '../../config/ai-request';
+import { AIUsageTracker } from '../../config/ai-usage';
+import { StubProvider, createStubbedClient, withEnv } from './helpers';
+
+const HAIKU = 'claude-3-haiku-20240307';
+
+const verdictSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['passed', 'failed'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    visible: { type: 'boolean' },
+    issues: { type: 'array', items: { type: 'string' } },
+    note: { type: 'string' },
+  },
+  required: ['status', 'confidence', 'visible', 'issues'],
+};
+
+/**
+ * Base64 of a PNG signature and IHDR chunk, enough for the size to be read
+ */
+function pngHeader(width: number, height: number): string {
+  const header = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header, 0);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'ascii');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header.toString('base64');
+}
+
+test.describe('AI estimate - tokens', () => {
+  test('counts text at about four characters per token', () => {
+    const request: AIRequest = {
+      model: HAIKU,
+      maxTokens: 100,
+      system: 'a'.repeat(40),
+      messages: [
+        { role: 'user', content: 'b'.repeat(81) },
+        { role: 'assistant', content: 'c'.repeat(4) },
+      ],
+    };
+
+    expect(estimateInputTokens(request)).toBe(10 + 21 + 1);
+  });
+
+  test('counts images from their pixel size, scaled down like the API', () => {
+    expect(estimateImageTokens(pngHeader(1000, 750), 'image/png')).toBe(1000);
+    // 4000x3000 is scaled to a long edge of 1568px, then to 1.15 megapixels
+    expect(estimateImageTokens(pngHeader(4000, 3000), 'image/png')).toBe(Math.ceil(1_150_000 / 750));
+    expect(estimateImageTokens('', 'image/jpeg')).toBe(estimateImageTokens(pngHeader(1568, 1568), 'image/png'));
+  });
+
+  test('records the max tokens as output', () => {
+    const tracker = new AIUsageTracker();
+
+    const usage = recordEstimate(
+      {
+        model: HAIKU,
+        maxTokens: 300,
+        feature: 'healing',
+        messages: [{ role: 'user', content: 'x'.repeat(400) }],
+      },
+      tracker
+    );
+
+    expect(usage).toEqual({ inputTokens: 100, outputTokens: 300 });
+    expect(tracker.getWorkerUsage().byFeature.healing).toMatchObject({ inputTokens: 100, outputTokens: 300 });
+  });
+});
+
+test.describe('AI estimate - placeholders', () => {
+  test('builds the smallest value that fits a schema', () => {
+    expect(placeholderFromSchema(verdictSchema)).toEqual({
+      status: 'passed',
+      confidence: 1,
+      visible: false,
+      issues: [],
+    });
+    expect(placeholderFromSchema({ type: 'integer', minimum: 3 })).toBe(3);
+    expect(placeholderFromSchema({ type: 'string' })).toBe('');
+  });
+
+  test('answers JSON questions without calling the provider', async () => {
+    const provider = new StubProvider('{"status": "failed"}');
+    const client = createStubbedClient(provider);
+
+    const [answer, text] = await withEnv({ AI_ESTIMATE_ONLY: 'true' }, async () => [
+      await client.askJSON('Did the login pass?', verdictSchema, { model: 'haiku' }),
+      await client.ask('Describe the page', undefined, { model: 'haiku' }),
+    ]);
+
+    expect(answer).toEqual({ status: 'passed', confidence: 1, visible: false, issues: [] });
+    expect(text).toBe('');
+    expect(provider.requests).toHaveLength(0);
+  });
+});
+
+test.describe('AI estimate - report', () => {
+  test('prints the input-only cost next to the upper bound', () => {
+    const tracker = new AIUsageTracker();
+    // $0.001 of input and $0.0025 of output
+    tracker.record(HAIKU, 'assertions.visual', 4000, 2000);
+
+    const report = formatCostEstimate(tracker.getWorkerUsage());
+
+    expect(report).toContain('🧮 AI Cost Estimate (no API calls made)');
+    expect(report).toContain('Input only: $0.0010   With max output: $0.0035');
+  });
+
+  test('turns estimate mode on from the --estimate flag', async () => {
+    const exitListeners = process.listeners('exit');
+
+    await withEnv({ AI_ESTIMATE_ONLY: undefined }, () => {
+      const rest = handleEstimateFlag(['analyze', ESTIMATE_FLAG, 'tests/login.spec.ts']);
+
+      expect(rest).toEqual(['analyze', 'tests/login.spec.ts']);
+      expect(process.env.AI_ESTIMATE_ONLY).toBe('true');
+    });
+
+    // Don't print an estimate when the worker exits
+    for (const listener of process.listeners('exit')) {
+      if (!exitListeners.includes(listener)) process.off('exit', listener);
+    }
+  });
+});
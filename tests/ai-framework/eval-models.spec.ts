@@ -0,0 +1,178 @@
+/**
+ * Golden-Set Evaluation
+ *
+ * Corpus validation, scoring and comparison of npm run eval-models, and
+ * OTP cases run against a stubbed backend. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/eval-models.spec.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { getLastPrompt } from '../../config/ai-request';
+import { MODEL_VERSIONS } from '../../config/model-versions';
+import { AIAssertion } from '../../utils/ai-helpers/ai-assertions';
+import {
+  CaseResult,
+  EvalCase,
+  EvalCorpusError,
+  EvalReport,
+  EvalSummary,
+  formatComparison,
+  loadCases,
+  runCase,
+  scoreCase,
+  summarize,
+} from '../../scripts/eval-models';
+import { StubProvider, withStubbedAIClient } from './helpers';
+
+const GOLDEN_DIR = path.join(__dirname, '..', '..', 'evals', 'golden');
+
+function result(outcome: CaseResult['outcome'], overrides: Partial<CaseResult> = {}): CaseResult {
+  return {
+    id: outcome,
+    feature: 'visual',
+    model: 'haiku',
+    expected: 'fail',
+    actual: null,
+    outcome,
+    calls: 1,
+    costUsd: 0.001,
+    latencyMs: 100,
+    prompts: [],
+    ...overrides,
+  };
+}
+
+test.describe('Eval harness - corpus', () => {
+  test('loads every feature of the golden corpus', () => {
+    for (const feature of ['visual', 'layout', 'semantic', 'accessibility', 'healing', 'otp'] as const) {
+      expect(loadCases(GOLDEN_DIR, feature).length, feature).toBeGreaterThan(0);
+    }
+  });
+
+  test('rejects incomplete cases', async ({}, testInfo) => {
+    const corpusDir = testInfo.outputPath('corpus');
+    const write = (feature: string, cases: Partial<EvalCase>[]) => {
+      fs.mkdirSync(corpusDir, { recursive: true });
+      fs.writeFileSync(path.join(corpusDir, `${feature}.json`), JSON.stringify({ cases }));
+    };
+
+    write('visual', [{ id: 'no-description', expected: 'pass' }]);
+    expect(() => loadCases(corpusDir, 'visual')).toThrow(EvalCorpusError);
+    expect(() => loadCases(corpusDir, 'visual')).toThrow('case no-description is missing page, description');
+
+    write('layout', [{ id: 'maybe', page: 'login.html', description: 'Two columns', expected: 'maybe' }]);
+    expect(() => loadCases(corpusDir, 'layout')).toThrow('case maybe expects "maybe" (expected "pass" or "fail")');
+
+    write('layout', [{ id: 'missing-page', page: 'gone.html', description: 'Two columns', expected: 'pass' }]);
+    expect(() => loadCases(corpusDir, 'layout')).toThrow('case missing-page page not found: gone.html');
+
+    expect(loadCases(corpusDir, 'otp')).toEqual([]);
+  });
+});
+
+test.describe('Eval harness - scoring', () => {
+  test('scores verdicts', () => {
+    expect(scoreCase('visual', 'fail', 'fail')).toBe('correct');
+    expect(scoreCase('visual', 'fail', 'pass')).toBe('false-pass');
+    expect(scoreCase('semantic', 'pass', 'fail')).toBe('false-fail');
+  });
+
+  test('scores extracted values, ignoring spaces, dashes and case', () => {
+    expect(scoreCase('otp', '391-204', '391204')).toBe('correct');
+    expect(scoreCase('otp', 'K7Q2ZP', 'k7q2zp')).toBe('correct');
+    expect(scoreCase('otp', '5821', '100234')).toBe('false-pass');
+    expect(scoreCase('healing', '#submit', null)).toBe('false-fail');
+  });
+
+  test('leaves errors out of accuracy and counts false passes on negative cases', () => {
+    const summary = summarize([
+      result('correct'),
+      result('false-pass'),
+      result('correct', { expected: 'pass' }),
+      result('false-fail', { expected: 'pass' }),
+      result('error', { costUsd: 0 }),
+    ]);
+
+    expect(summary).toMatchObject({ cases: 5, correct: 2, falsePasses: 1, falseFails: 1, errors: 1 });
+    expect(summary.accuracy).toBe(2 / 4);
+    expect(summary.falsePassRate).toBe(1 / 2);
+    expect(summary.costUsd).toBeCloseTo(0.004);
+    expect(summary.latency?.samples).toHaveLength(4);
+  });
+});
+
+test.describe('Eval harness - cases', () => {
+  const [plain, distractor] = loadCases(GOLDEN_DIR, 'otp');
+  const assertions = new AIAssertion({ minConfidence: 0, soft: false });
+
+  test('runs a case on the model under evaluation', async () => {
+    const provider = new StubProvider('482913');
+
+    const caseResult = await withStubbedAIClient(provider, () => runCase('otp', plain, 'sonnet', null, assertions));
+
+    expect(caseResult).toMatchObject({ outcome: 'correct', actual: '482913', calls: 1 });
+    expect(caseResult.prompts).toEqual([expect.stringMatching(/^otp\.extract@/)]);
+    expect(provider.requests[0].model).toBe(MODEL_VERSIONS.sonnet);
+    expect(getLastPrompt(provider.requests[0])).toContain('Your verification code is 482913');
+  });
+
+  test('scores a wrong code as a false pass and a failed call as an error', async () => {
+    const unauthorized = Object.assign(new Error('invalid x-api-key'), { status: 401 });
+    const provider = new StubProvider('100234', unauthorized);
+
+    const [wrong, failed] = await withStubbedAIClient(provider, async () => [
+      await runCase('otp', distractor, 'haiku', null, assertions),
+      await runCase('otp', plain, 'haiku', null, assertions),
+    ]);
+
+    expect(wrong).toMatchObject({ outcome: 'false-pass', actual: '100234' });
+    expect(failed.outcome).toBe('error');
+    expect(failed.error).toBe('invalid x-api-key');
+  });
+});
+
+test.describe('Eval harness - comparison', () => {
+  function report(hash: string, accuracy: number, prompt: string): EvalReport {
+    const summary: EvalSummary = {
+      cases: 4,
+      correct: accuracy * 4,
+      falsePasses: 0,
+      falseFails: 4 - accuracy * 4,
+      errors: 0,
+      accuracy,
+      falsePassRate: 0,
+      costUsd: 0.01,
+    };
+
+    return {
+      generatedAt: '2026-10-19T08:00:00.000Z',
+      frameworkVersion: '1.0.0',
+      corpus: { dir: 'evals/golden', hash, cases: { visual: 4 } },
+      models: { haiku: MODEL_VERSIONS.haiku },
+      prompts: { visual: [prompt] },
+      summary: { haiku: { overall: summary, features: { visual: summary } } },
+      results: [],
+    };
+  }
+
+  test('shows accuracy changes in percentage points, with the prompts that changed', () => {
+    const text = formatComparison(
+      report('abc', 0.75, 'assertions.visual@2.0.0'),
+      report('abc', 0.5, 'assertions.visual@1.0.0')
+    );
+
+    expect(text).toContain('haiku   visual         accuracy  +25.0pp');
+    expect(text).toContain('(prompts: assertions.visual@2.0.0)');
+    expect(text).not.toContain('The corpus changed');
+  });
+
+  test('warns when the corpus changed since the baseline', () => {
+    const text = formatComparison(report('new', 0.5, 'p@1'), report('old', 0.5, 'p@1'));
+
+    expect(text).toContain('⚠️  The corpus changed since the baseline');
+    expect(text).not.toContain('(prompts:');
+  });
+});
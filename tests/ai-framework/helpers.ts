@@ -0,0 +1,108 @@
+/**
+ * Helpers for the browser-free AI framework suites
+ *
+ * StubProvider replaces the LLM backend, so these suites need no API key
+ * and make no network calls.
+ */
+
+import { AIClient, aiClient } from '../../config/ai-client';
+import { AIRequest, getLastPrompt } from '../../config/ai-request';
+import { AIProviderResponse, BaseAIProvider } from '../../config/ai-providers';
+import { AIUsageTracker, aiUsage } from '../../config/ai-usage';
+
+export type StubAnswer = string | Error | ((request: AIRequest) => string | Error | Promise<string>);
+
+/**
+ * Provider that answers from a script and records every request
+ *
+ * Answers are used in order; the last one keeps answering once the script runs out.
+ */
+export class StubProvider extends BaseAIProvider {
+  readonly name = 'stub';
+  readonly requests: AIRequest[] = [];
+  /** Set to make AI unavailable, as a backend without an API key would */
+  unavailableReason: string | null = null;
+  private answers: StubAnswer[];
+
+  constructor(...answers: StubAnswer[]) {
+    super();
+    this.answers = answers.length > 0 ? answers : ['OK'];
+  }
+
+  async complete(request: AIRequest): Promise<AIProviderResponse> {
+    const answer = this.answers[Math.min(this.requests.length, this.answers.length - 1)];
+    this.requests.push(request);
+
+    const result = typeof answer === 'function' ? await answer(request) : answer;
+    if (result instanceof Error) {
+      throw result;
+    }
+
+    return { text: result, usage: { inputTokens: 100, outputTokens: 20 } };
+  }
+
+  getUnavailableReason(): string | null {
+    return this.unavailableReason;
+  }
+
+  /**
+   * Last user prompt of every request, in order
+   */
+  get prompts(): string[] {
+    return this.requests.map((request) => getLastPrompt(request));
+  }
+}
+
+/**
+ * Run fn with environment variables set (undefined unsets), restoring them afterwards
+ */
+export async function withEnv<T>(vars: Record<string, string | undefined>, fn: () => T | Promise<T>): Promise<T> {
+  const saved: Record<string, string | undefined> = {};
+  for (const [name, value] of Object.entries(vars)) {
+    saved[name] = process.env[name];
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  }
+}
+
+/**
+ * AIClient answering from a stub provider
+ *
+ * Its calls are recorded in their own usage tracker, so they don't show in
+ * the run's usage report or count towards its budgets.
+ */
+export function createStubbedClient(provider: StubProvider, usage: AIUsageTracker = new AIUsageTracker()): AIClient {
+  const client = new AIClient();
+  client.setProvider(provider);
+  client.setUsageTracker(usage);
+  return client;
+}
+
+/**
+ * Run fn with the shared aiClient answering from a stub provider
+ *
+ * For code that calls the aiClient singleton. Usage goes to a tracker of
+ * its own, as with createStubbedClient. Afterwards the client goes back to
+ * the configured backend and the shared tracker, for the next tests of the
+ * worker.
+ */
+export async function withStubbedAIClient<T>(provider: BaseAIProvider, fn: () => T | Promise<T>): Promise<T> {
+  aiClient.setProvider(provider);
+  aiClient.setUsageTracker(new AIUsageTracker());
+
+  try {
+    return await fn();
+  } finally {
+    aiClient.setProvider(null);
+    aiClient.setUsageTracker(aiUsage);
+  }
+}
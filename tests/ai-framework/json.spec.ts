@@ -0,0 +1,94 @@
+/**
+ * Structured AI Output
+ *
+ * JSON extraction, schema validation and the repair prompt askJSON()
+ * sends on invalid output. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/json.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIClient } from '../../config/ai-client';
+import { AIResponseValidationError, JSONSchema, parseJSONResponse } from '../../config/ai-json';
+import { StubProvider, createStubbedClient } from './helpers';
+
+const VERDICT_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    matches: { type: 'boolean' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    severity: { type: 'string', enum: ['low', 'high'] },
+  },
+  required: ['matches', 'confidence'],
+};
+
+function clientAnswering(...answers: string[]): { client: AIClient; provider: StubProvider } {
+  const provider = new StubProvider(...answers);
+  return { client: createStubbedClient(provider), provider };
+}
+
+test.describe('AI JSON - parsing', () => {
+  test('extracts JSON from code blocks and prose', () => {
+    const fenced = parseJSONResponse('```json\n{"matches": true, "confidence": 0.9}\n```', VERDICT_SCHEMA);
+    const inProse = parseJSONResponse('Here you go: {"matches": false, "confidence": 0.2} Hope it helps', VERDICT_SCHEMA);
+
+    expect(fenced).toEqual({ ok: true, value: { matches: true, confidence: 0.9 } });
+    expect(inProse).toEqual({ ok: true, value: { matches: false, confidence: 0.2 } });
+  });
+
+  test('lists every schema violation', () => {
+    const result = parseJSONResponse('{"confidence": 1.5, "severity": "medium"}', VERDICT_SCHEMA);
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        '$.matches: is required',
+        '$.confidence: must be <= 1',
+        '$.severity: expected one of "low", "high", got "medium"',
+      ],
+    });
+  });
+});
+
+test.describe('AI JSON - repair', () => {
+  test('returns a valid answer without a repair prompt', async () => {
+    const { client, provider } = clientAnswering('{"matches": true, "confidence": 0.8}');
+
+    const verdict = await client.askJSON('Does it match?', VERDICT_SCHEMA, { model: 'haiku' });
+
+    expect(verdict).toEqual({ matches: true, confidence: 0.8 });
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  test('sends one repair prompt with the problems and the previous answer', async () => {
+    const { client, provider } = clientAnswering(
+      'The page matches, I am fairly sure.',
+      '{"matches": true, "confidence": 0.7}'
+    );
+
+    const verdict = await client.askJSON('Does it match?', VERDICT_SCHEMA, { model: 'haiku', systemPrompt: 'Be strict' });
+
+    expect(verdict).toEqual({ matches: true, confidence: 0.7 });
+    expect(provider.requests).toHaveLength(2);
+    const repairPrompt = provider.prompts[1];
+    expect(repairPrompt).toContain('did not match the required JSON format');
+    expect(repairPrompt).toContain('- response is not valid JSON');
+    expect(repairPrompt).toContain('Previous response:\nThe page matches, I am fairly sure.');
+    expect(repairPrompt).toContain('"required": [\n    "matches",\n    "confidence"\n  ]');
+    expect(provider.requests[1].system).toBe('Be strict');
+  });
+
+  test('throws when the repaired answer is still invalid', async () => {
+    const { client, provider } = clientAnswering('{"matches": "yes"}', '{"matches": "still yes"}');
+
+    const verdict = client.askJSON('Does it match?', VERDICT_SCHEMA, { model: 'haiku' });
+
+    await expect(verdict).rejects.toThrow(AIResponseValidationError);
+    await expect(verdict).rejects.toMatchObject({
+      errors: ['$.confidence: is required', '$.matches: expected boolean, got string'],
+      rawResponse: '{"matches": "still yes"}',
+    });
+    expect(provider.prompts[1]).toContain('- $.matches: expected boolean, got string');
+    expect(provider.requests).toHaveLength(2);
+  });
+});
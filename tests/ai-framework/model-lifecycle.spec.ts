@@ -0,0 +1,84 @@
+/**
+ * Model Lifecycle
+ *
+ * Successor proposals and deprecation warnings built from MODEL_CATALOG.
+ * Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/model-lifecycle.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import {
+  formatModelVersionsProposal,
+  getDeprecationWarningDays,
+  getModelDeprecations,
+  proposeModelVersions,
+} from '../../config/model-lifecycle';
+import { MODEL_CATALOG, MODEL_VERSIONS } from '../../config/model-versions';
+import { withEnv } from './helpers';
+
+test.describe('Model lifecycle - proposal', () => {
+  test('moves each configured model to the end of its successor chain', () => {
+    const proposal = proposeModelVersions(new Date('2026-10-19T00:00:00Z'));
+
+    expect(proposal.versions).toEqual({
+      haiku: 'claude-haiku-4-5-20251001',
+      sonnet: MODEL_VERSIONS.sonnet,
+      opus: MODEL_VERSIONS.opus,
+    });
+    expect(proposal.changes).toEqual([
+      {
+        model: 'haiku',
+        from: 'claude-3-haiku-20240307',
+        to: 'claude-haiku-4-5-20251001',
+        reason: 'superseded by Claude Haiku 4.5 (released 2025-10-15)',
+        notes: [
+          'pricing $0.25/$1.25 → $1/$5 per MTok (input/output)',
+          'max output 4096 → 64000 tokens',
+        ],
+      },
+    ]);
+  });
+
+  test('formats the changes with a MODEL_VERSIONS snippet to paste', () => {
+    const text = formatModelVersionsProposal(proposeModelVersions());
+
+    expect(text).toContain('   haiku: claude-3-haiku-20240307 → claude-haiku-4-5-20251001 (superseded by');
+    expect(text).toContain('     - max output 4096 → 64000 tokens');
+    expect(text).toContain(
+      [
+        'export const MODEL_VERSIONS = {',
+        "  haiku: 'claude-haiku-4-5-20251001',",
+        `  sonnet: '${MODEL_VERSIONS.sonnet}',`,
+        `  opus: '${MODEL_VERSIONS.opus}',`,
+        '} as const;',
+      ].join('\n')
+    );
+  });
+
+  test('reports an up-to-date mapping', () => {
+    const text = formatModelVersionsProposal({ versions: { ...MODEL_VERSIONS }, changes: [] });
+
+    expect(text).toBe('✅ MODEL_VERSIONS is up to date with MODEL_CATALOG');
+  });
+
+  test('knows every configured model', () => {
+    for (const modelId of Object.values(MODEL_VERSIONS)) {
+      expect(MODEL_CATALOG[modelId], modelId).toBeDefined();
+    }
+  });
+});
+
+test.describe('Model lifecycle - deprecations', () => {
+  test('reads the warning window from the environment', async () => {
+    expect(await withEnv({ AI_MODEL_DEPRECATION_WARNING_DAYS: undefined }, getDeprecationWarningDays)).toBe(90);
+    expect(await withEnv({ AI_MODEL_DEPRECATION_WARNING_DAYS: '30' }, getDeprecationWarningDays)).toBe(30);
+    await expect(withEnv({ AI_MODEL_DEPRECATION_WARNING_DAYS: '1.5' }, getDeprecationWarningDays)).rejects.toThrow(
+      'Invalid AI_MODEL_DEPRECATION_WARNING_DAYS: "1.5"'
+    );
+  });
+
+  test('finds no deprecation among the configured models', () => {
+    expect(getModelDeprecations(new Date('2026-10-19T00:00:00Z'))).toEqual([]);
+  });
+});
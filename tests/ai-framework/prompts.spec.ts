@@ -0,0 +1,119 @@
+/**
+ * AI Prompt Registry
+ *
+ * Template front matter, {{variable}} interpolation and project overrides.
+ * Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/prompts.spec.ts
+ */
+
+import * as fs from 'fs';
+import { test, expect } from '../../fixtures/ai-fixtures';
+import {
+  PromptRegistry,
+  PromptTemplateError,
+  formatPromptRef,
+  interpolate,
+  parsePromptTemplate,
+} from '../../config/ai-prompts';
+import { withEnv } from './helpers';
+
+const TEMPLATE = `---
+id: demo.check
+version: 1.2.0
+description: Demo: a template with a colon
+---
+=== system ===
+You check {{subject}}s.
+=== user ===
+Does the {{subject}} show {{description}}?{{#focus}}
+Focus on {{focus}}.{{/focus}}{{^focus}}
+Look at the whole {{subject}}.{{/focus}}
+`;
+
+test.describe('AI prompts - templates', () => {
+  test('reads the front matter and sections', () => {
+    const template = parsePromptTemplate(TEMPLATE, 'demo.check.md');
+
+    expect(template).toMatchObject({
+      id: 'demo.check',
+      version: '1.2.0',
+      description: 'Demo: a template with a colon',
+      system: 'You check {{subject}}s.',
+    });
+    expect(template.user.startsWith('Does the {{subject}} show')).toBe(true);
+    expect(formatPromptRef(template)).toBe('demo.check@1.2.0');
+  });
+
+  test('rejects templates without front matter, version or user section', () => {
+    expect(() => parsePromptTemplate('=== user ===\nHi', 'a.md')).toThrow('Prompt template a.md has no front matter');
+    expect(() => parsePromptTemplate('---\nid: a\n---\n=== user ===\nHi', 'a.md')).toThrow(
+      'Prompt template a.md must declare an id and a version'
+    );
+    expect(() => parsePromptTemplate('---\nid: a\nversion: 1\n---\n=== system ===\nHi', 'a.md')).toThrow(
+      'Prompt template a.md has no "=== user ===" section'
+    );
+  });
+
+  test('interpolates variables and conditional sections', () => {
+    const { user } = parsePromptTemplate(TEMPLATE, 'demo.check.md');
+
+    const focused = interpolate(user, { subject: 'page', description: 'a login form', focus: 'the button' }, 'demo.check');
+    const unfocused = interpolate(user, { subject: 'page', description: 'a login form', focus: '' }, 'demo.check');
+
+    expect(focused).toBe('Does the page show a login form?\nFocus on the button.');
+    expect(unfocused).toBe('Does the page show a login form?\nLook at the whole page.');
+  });
+
+  test('fails on variables that were not passed', () => {
+    expect(() => interpolate('Hello {{name}}{{#title}}, {{title}}{{/title}}', {}, 'greeting')).toThrow(
+      'Prompt "greeting" needs variable(s) that were not passed: title, name'
+    );
+  });
+});
+
+test.describe('AI prompts - registry', () => {
+  test('renders the built-in templates', () => {
+    const registry = new PromptRegistry();
+
+    const rendered = registry.render('assertions.visual', { description: 'a green success banner', element: '', thumbnail: '' });
+
+    expect(rendered.ref.id).toBe('assertions.visual');
+    expect(rendered.user).toContain('a green success banner');
+    expect(registry.list().map((template) => template.id)).toContain('healing.selector');
+  });
+
+  test('prefers a project override from AI_PROMPTS_DIR', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('prompts');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(testInfo.outputPath('prompts', 'demo.check.md'), TEMPLATE);
+    fs.writeFileSync(
+      testInfo.outputPath('prompts', 'assertions.visual.md'),
+      '---\nid: assertions.visual\nversion: 9.0.0-project\n---\n=== user ===\nCheck: {{description}}\n'
+    );
+
+    await withEnv({ AI_PROMPTS_DIR: dir }, () => {
+      const registry = new PromptRegistry();
+
+      expect(registry.render('assertions.visual', { description: 'a banner' })).toEqual({
+        system: undefined,
+        user: 'Check: a banner',
+        ref: { id: 'assertions.visual', version: '9.0.0-project' },
+      });
+      expect(registry.get('demo.check').version).toBe('1.2.0');
+    });
+  });
+
+  test('reports a missing template and a mismatched id', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('prompts');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(testInfo.outputPath('prompts', 'renamed.md'), TEMPLATE);
+
+    await withEnv({ AI_PROMPTS_DIR: dir }, () => {
+      const registry = new PromptRegistry();
+
+      expect(() => registry.get('nowhere')).toThrow(PromptTemplateError);
+      expect(() => registry.get('renamed')).toThrow('declares id "demo.check", expected "renamed"');
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * LLM Providers
+ *
+ * Provider selection, and the OpenAI-compatible adapter against a local
+ * HTTP server standing in for vLLM/Ollama. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/providers.spec.ts
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { classifyAIError } from '../../config/ai-errors';
+import { AIRequest } from '../../config/ai-request';
+import { MODEL_VERSIONS } from '../../config/model-versions';
+import {
+  AIProviderHTTPError,
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  createAIProvider,
+} from '../../config/ai-providers';
+import { withEnv } from './helpers';
+
+interface FakeServer {
+  baseURL: string;
+  bodies: any[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Local /v1/chat/completions endpoint answering with the given handler
+ */
+async function startServer(handler: (body: any, res: http.ServerResponse) => void): Promise<FakeServer> {
+  const bodies: any[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      bodies.push(body);
+      handler(body, res);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseURL: `http://127.0.0.1:${port}/v1`,
+    bodies,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+const REQUEST: AIRequest = {
+  model: 'llava:13b',
+  maxTokens: 200,
+  temperature: 0,
+  system: 'You are a QA assistant',
+  messages: [
+    {
+      role: 'user',
+      content: [
+        { type: 'image', data: 'aGVsbG8=', mediaType: 'image/png' },
+        { type: 'text', text: 'Describe the page' },
+      ],
+    },
+  ],
+};
+
+test.describe('AI providers - selection', () => {
+  test('uses Anthropic by default and validates AI_PROVIDER', async () => {
+    await withEnv({ AI_PROVIDER: undefined }, () => {
+      expect(createAIProvider()).toBeInstanceOf(AnthropicProvider);
+    });
+    await withEnv({ AI_PROVIDER: 'gemini' }, () => {
+      expect(() => createAIProvider()).toThrow('Invalid AI_PROVIDER: "gemini" (expected anthropic or openai-compatible)');
+    });
+  });
+
+  test('maps model tiers for an OpenAI-compatible backend', async () => {
+    const provider = await withEnv(
+      {
+        AI_PROVIDER: 'openai-compatible',
+        AI_OPENAI_BASE_URL: 'http://localhost:11434/v1',
+        AI_OPENAI_MODEL: 'llava:13b',
+        AI_OPENAI_MODEL_HAIKU: 'llava:7b',
+        AI_OPENAI_MODEL_SONNET: undefined,
+        AI_OPENAI_MODEL_OPUS: undefined,
+      },
+      () => createAIProvider()
+    );
+
+    expect(provider.name).toBe('openai-compatible');
+    expect(provider.getUnavailableReason()).toBeNull();
+    expect(provider.resolveModel('haiku')).toBe('llava:7b');
+    expect(provider.resolveModel('opus')).toBe('llava:13b');
+    expect(new AnthropicProvider().resolveModel('opus')).toBe(MODEL_VERSIONS.opus);
+  });
+
+  test('explains a missing OpenAI-compatible configuration', () => {
+    expect(new OpenAICompatibleProvider({ baseURL: '' }).getUnavailableReason()).toBe(
+      'AI_OPENAI_BASE_URL is not set in environment variables'
+    );
+    expect(new OpenAICompatibleProvider({ baseURL: 'http://localhost/v1' }).getUnavailableReason()).toBe(
+      'AI_OPENAI_MODEL is not set in environment variables'
+    );
+  });
+});
+
+test.describe('AI providers - OpenAI-compatible adapter', () => {
+  test('sends chat completions with image parts and reads the usage', async () => {
+    const server = await startServer((_body, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        choices: [{ message: { content: 'A login form' } }],
+        usage: { prompt_tokens: 321, completion_tokens: 12 },
+      }));
+    });
+
+    try {
+      const provider = new OpenAICompatibleProvider({ baseURL: server.baseURL, apiKey: 'secret', model: 'llava:13b' });
+
+      const response = await provider.complete(REQUEST);
+
+      expect(response).toEqual({ text: 'A login form', usage: { inputTokens: 321, outputTokens: 12 } });
+      expect(server.bodies[0]).toEqual({
+        model: 'llava:13b',
+        max_tokens: 200,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: 'You are a QA assistant' },
+          {
+            role: 'user',
+            content: [
+              { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } },
+              { type: 'text', text: 'Describe the page' },
+            ],
+          },
+        ],
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('surfaces HTTP errors with their retry-after header', async () => {
+    const server = await startServer((_body, res) => {
+      res.writeHead(429, { 'retry-after': '3' });
+      res.end('slow down');
+    });
+
+    try {
+      const provider = new OpenAICompatibleProvider({ baseURL: server.baseURL, model: 'llava:13b' });
+
+      const error = await provider.complete(REQUEST).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AIProviderHTTPError);
+      expect(classifyAIError(error)).toMatchObject({ type: 'rate-limit', retryable: true, retryAfterMs: 3000 });
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('classifies a request timeout as retryable', async () => {
+    const server = await startServer(() => {
+      // Never answers
+    });
+
+    try {
+      const provider = new OpenAICompatibleProvider({ baseURL: server.baseURL, model: 'llava:13b', timeoutMs: 100 });
+
+      const error = await provider.complete(REQUEST).catch((e) => e);
+
+      expect(error.name).toBe('TimeoutError');
+      expect(classifyAIError(error)).toMatchObject({ type: 'timeout', retryable: true });
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('classifies an aborted request as a timeout', () => {
+    const aborted = new DOMException('This operation was aborted', 'AbortError');
+
+    expect(classifyAIError(aborted)).toMatchObject({ type: 'timeout', retryable: true });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * AI Rate Limiter
+ *
+ * Limit parsing and the file-backed token buckets shared by workers.
+ * Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/rate-limiter.spec.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIRateLimiter, getRateLimits } from '../../config/ai-rate-limiter';
+import { withEnv } from './helpers';
+
+const NO_LIMITS = {
+  AI_RATE_LIMIT_RPM: undefined,
+  AI_RATE_LIMIT_TPM: undefined,
+  AI_RATE_LIMIT_HAIKU_RPM: undefined,
+  AI_RATE_LIMIT_HAIKU_TPM: undefined,
+  AI_RATE_LIMIT_OPUS_RPM: undefined,
+  AI_RATE_LIMIT_OPUS_TPM: undefined,
+};
+
+async function timed(fn: () => Promise<void>): Promise<number> {
+  const start = Date.now();
+  await fn();
+  return Date.now() - start;
+}
+
+test.describe('AI rate limiter - limits', () => {
+  test('applies no limit unless one is set', async () => {
+    await withEnv(NO_LIMITS, () => {
+      expect(getRateLimits('haiku')).toBeNull();
+    });
+  });
+
+  test('prefers the per-tier limits over the global ones', async () => {
+    await withEnv({ ...NO_LIMITS, AI_RATE_LIMIT_RPM: '50', AI_RATE_LIMIT_TPM: '40000', AI_RATE_LIMIT_OPUS_RPM: '5' }, () => {
+      expect(getRateLimits('opus')).toEqual({ rpm: 5, tpm: 40000 });
+      expect(getRateLimits('haiku')).toEqual({ rpm: 50, tpm: 40000 });
+      expect(getRateLimits(undefined)).toEqual({ rpm: 50, tpm: 40000 });
+    });
+  });
+
+  test('rejects a limit that is not a positive integer', async () => {
+    await withEnv({ ...NO_LIMITS, AI_RATE_LIMIT_HAIKU_TPM: '-1' }, () => {
+      expect(() => getRateLimits('haiku')).toThrow('Invalid AI_RATE_LIMIT_HAIKU_TPM: "-1" (expected a positive integer)');
+    });
+  });
+});
+
+test.describe('AI rate limiter - buckets', () => {
+  // Bucket of 6000 input tokens, refilling 100 tokens every second
+  const limits = { tpm: 6000 };
+
+  test('queues a request until the bucket has refilled', async ({}, testInfo) => {
+    const limiter = new AIRateLimiter(testInfo.outputPath('buckets'));
+
+    const fullBucket = await timed(() => limiter.acquire('haiku', limits, 6000));
+    const queued = await timed(() => limiter.acquire('haiku', limits, 10));
+
+    expect(fullBucket).toBeLessThan(50);
+    expect(queued).toBeGreaterThanOrEqual(90);
+  });
+
+  test('gives back tokens the request did not use', async ({}, testInfo) => {
+    const limiter = new AIRateLimiter(testInfo.outputPath('buckets'));
+    await limiter.acquire('haiku', limits, 6000);
+
+    await limiter.settle('haiku', limits, 200 - 6000);
+
+    expect(await timed(() => limiter.acquire('haiku', limits, 5000))).toBeLessThan(50);
+  });
+
+  test('waits for the lock without blocking the event loop', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('buckets');
+    const lockPath = path.join(dir, 'haiku.json.lock');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(lockPath, '');
+    setTimeout(() => fs.unlinkSync(lockPath), 100);
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 10);
+
+    try {
+      const waited = await timed(() => new AIRateLimiter(dir).acquire('haiku', limits, 10));
+
+      expect(waited).toBeGreaterThanOrEqual(90);
+      expect(ticks).toBeGreaterThanOrEqual(5);
+    } finally {
+      clearInterval(ticker);
+    }
+  });
+
+  test('removes a stale lock left by a crashed worker', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('buckets');
+    const lockPath = path.join(dir, 'haiku.json.lock');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(lockPath, '');
+    const longAgo = new Date(Date.now() - 60000);
+    fs.utimesSync(lockPath, longAgo, longAgo);
+
+    const waited = await timed(() => new AIRateLimiter(dir).acquire('haiku', limits, 10));
+
+    expect(waited).toBeLessThan(1000);
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * AI Resilience
+ *
+ * Retries of transient errors and the circuit breaker behind the degraded
+ * mode, driven by a stubbed provider. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/resilience.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIDegradedError, AIErrorInfo, classifyAIError } from '../../config/ai-errors';
+import { CircuitBreaker, RetryOptions, getRetryDelay, withRetry } from '../../config/ai-resilience';
+import { StubProvider, createStubbedClient, withEnv } from './helpers';
+
+const FAST_RETRIES: RetryOptions = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function apiError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`API error ${status}`), { status, headers });
+}
+
+test.describe('AI resilience - retries', () => {
+  test('retries transient errors until the call succeeds', async () => {
+    let calls = 0;
+
+    const result = await withRetry(async () => {
+      calls++;
+      if (calls < 3) throw apiError(529);
+      return 'done';
+    }, 'test', FAST_RETRIES);
+
+    expect(result).toBe('done');
+    expect(calls).toBe(3);
+  });
+
+  test('does not retry errors that are not transient', async () => {
+    let calls = 0;
+
+    const call = withRetry(async () => {
+      calls++;
+      throw apiError(400);
+    }, 'test', FAST_RETRIES);
+
+    await expect(call).rejects.toMatchObject({ status: 400 });
+    expect(calls).toBe(1);
+  });
+
+  test('gives up after the configured number of retries', async () => {
+    let calls = 0;
+
+    const call = withRetry(async () => {
+      calls++;
+      throw apiError(503);
+    }, 'test', FAST_RETRIES);
+
+    await expect(call).rejects.toMatchObject({ status: 503 });
+    expect(calls).toBe(FAST_RETRIES.maxRetries + 1);
+  });
+
+  test('honours retry-after up to the maximum delay', () => {
+    const options: RetryOptions = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+    const shortWait = classifyAIError(apiError(429, { 'retry-after': '2' }));
+    const longWait = classifyAIError(apiError(429, { 'retry-after': '3600' }));
+
+    expect(getRetryDelay(0, shortWait, options)).toBe(2000);
+    expect(getRetryDelay(0, longWait, options)).toBe(30000);
+  });
+
+  test('keeps the backoff under the exponential ceiling', () => {
+    const options: RetryOptions = { maxRetries: 10, baseDelayMs: 100, maxDelayMs: 1000 };
+    const info = classifyAIError(apiError(500));
+
+    for (let attempt = 0; attempt < 6; attempt++) {
+      const delay = getRetryDelay(attempt, info, options);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(Math.min(1000, 100 * 2 ** attempt));
+    }
+  });
+});
+
+test.describe('AI resilience - circuit breaker', () => {
+  const failure: AIErrorInfo = { type: 'server', title: 'Server Error (500)', message: 'down', retryable: true };
+
+  test('opens after consecutive failures', () => {
+    const breaker = new CircuitBreaker({ threshold: 2, cooldownMs: 60000 });
+
+    breaker.recordFailure(failure);
+    expect(breaker.isOpen()).toBe(false);
+    breaker.recordFailure(failure);
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getRemainingCooldownMs()).toBeGreaterThan(59000);
+  });
+
+  test('lets a single trial call through after the cooldown', async () => {
+    const breaker = new CircuitBreaker({ threshold: 1, cooldownMs: 20 });
+    breaker.recordFailure(failure);
+    await sleep(30);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.isOpen()).toBe(true);
+
+    breaker.recordSuccess();
+
+    expect(breaker.isOpen()).toBe(false);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  test('reopens when the trial call fails', async () => {
+    const breaker = new CircuitBreaker({ threshold: 3, cooldownMs: 20 });
+    for (let i = 0; i < 3; i++) breaker.recordFailure(failure);
+    await sleep(30);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure(failure);
+
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.getRemainingCooldownMs()).toBeGreaterThan(0);
+  });
+
+  test('sends one trial request from the client while half-open', async () => {
+    const provider = new StubProvider(
+      apiError(529),
+      () => sleep(50).then(() => 'recovered'),
+      'OK'
+    );
+
+    await withEnv(
+      { AI_CIRCUIT_BREAKER_THRESHOLD: '1', AI_CIRCUIT_BREAKER_COOLDOWN_MS: '20', AI_MAX_RETRIES: '0' },
+      async () => {
+        const client = createStubbedClient(provider);
+
+        await expect(client.ask('Question', undefined, { model: 'haiku' })).rejects.toThrow(AIDegradedError);
+        expect(client.isDegraded()).toBe(true);
+        await sleep(30);
+
+        const [trial, concurrent] = await Promise.allSettled([
+          client.ask('Question', undefined, { model: 'haiku' }),
+          client.ask('Question', undefined, { model: 'haiku' }),
+        ]);
+
+        expect(trial).toEqual({ status: 'fulfilled', value: 'recovered' });
+        expect(concurrent.status).toBe('rejected');
+        expect((concurrent as PromiseRejectedResult).reason).toBeInstanceOf(AIDegradedError);
+        expect(client.isDegraded()).toBe(false);
+        expect(provider.requests).toHaveLength(2);
+      }
+    );
+  });
+});
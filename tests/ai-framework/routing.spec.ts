@@ -0,0 +1,104 @@
+/**
+ * AI Model Routing
+ *
+ * Route resolution from the defaults, AI_ROUTE_* variables and per-test
+ * overrides, and validation of every setting. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/routing.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { MODEL_VERSIONS } from '../../config/model-versions';
+import {
+  DEFAULT_MODEL_ROUTES,
+  ModelRouter,
+  ModelRoutingError,
+  getDefaultModel,
+  loadModelRoute,
+  validateModelRoutes,
+} from '../../config/ai-routing';
+import { StubProvider, createStubbedClient, withEnv } from './helpers';
+
+test.describe('AI routing - environment', () => {
+  test('reads AI_ROUTE_<FEATURE>_* over the defaults', async () => {
+    const route = await withEnv(
+      {
+        AI_ROUTE_ASSERTIONS_VISUAL_MODEL: 'opus',
+        AI_ROUTE_ASSERTIONS_VISUAL_MAX_TOKENS: '1000',
+        AI_ROUTE_ASSERTIONS_VISUAL_TEMPERATURE: '0.5',
+      },
+      () => loadModelRoute('assertions.visual')
+    );
+
+    expect(route).toEqual({ model: 'opus', maxTokens: 1000, temperature: 0.5 });
+    expect(loadModelRoute('healing')).toEqual(DEFAULT_MODEL_ROUTES.healing);
+  });
+
+  test('accepts model IDs as well as tiers', async () => {
+    await withEnv({ AI_MODEL: MODEL_VERSIONS.haiku.toUpperCase() }, () => {
+      expect(getDefaultModel()).toBe('haiku');
+    });
+    await withEnv({ AI_MODEL: undefined }, () => {
+      expect(getDefaultModel()).toBe('sonnet');
+    });
+  });
+
+  test('lists every invalid setting at once', async () => {
+    await withEnv(
+      {
+        AI_MODEL: 'gpt-4',
+        AI_ROUTE_HEALING_MAX_TOKENS: '1.5',
+        AI_ROUTE_OTP_TEMPERATURE: '2',
+        AI_ROUTE_HEALNG_MODEL: 'haiku',
+      },
+      () => {
+        let error: unknown;
+        try {
+          validateModelRoutes();
+        } catch (e) {
+          error = e;
+        }
+
+        expect(error).toBeInstanceOf(ModelRoutingError);
+        const message = (error as Error).message;
+        expect(message).toMatch(/^Invalid AI model routing:\n/);
+        expect(message).toContain('Invalid AI_MODEL: "gpt-4" (expected haiku, sonnet, opus or one of:');
+        expect(message).toContain('Invalid AI_ROUTE_HEALING_MAX_TOKENS: "1.5" (expected a positive integer)');
+        expect(message).toContain('Invalid AI_ROUTE_OTP_TEMPERATURE: "2" (expected a number between 0 and 1)');
+        expect(message).toContain('Unknown feature in AI_ROUTE_HEALNG_MODEL');
+      }
+    );
+  });
+
+  test('passes a valid configuration', async () => {
+    await withEnv({ AI_MODEL: 'opus', AI_ROUTE_PLANNING_MODEL: 'haiku' }, () => {
+      expect(() => validateModelRoutes()).not.toThrow();
+    });
+  });
+});
+
+test.describe('AI routing - per test', () => {
+  test.use({ aiModelRoutes: { otp: { model: 'opus', maxTokens: 32 } } });
+
+  test('sends a feature call with its route and the test overrides', async () => {
+    const provider = new StubProvider('123456');
+    const client = createStubbedClient(provider);
+
+    await client.ask('Extract the code', undefined, { feature: 'otp' });
+    await client.ask('Extract the code', undefined, { feature: 'otp', model: 'haiku' });
+
+    expect(provider.requests[0]).toMatchObject({ model: MODEL_VERSIONS.opus, maxTokens: 32, temperature: 0 });
+    expect(provider.requests[1].model).toBe(MODEL_VERSIONS.haiku);
+  });
+
+  test('rejects an override for an unknown feature or model', () => {
+    const router = new ModelRouter();
+
+    expect(() => router.setTestOverrides({ healng: { model: 'opus' } } as any)).toThrow(
+      /^Unknown feature in aiModelRoutes: "healng"/
+    );
+    expect(() => router.setTestOverrides({ healing: { model: 'gpt-4' as any } })).toThrow(
+      /^Invalid aiModelRoutes\['healing'\]\.model: "gpt-4"/
+    );
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * AI Transcripts
+ *
+ * The JSONL audit log of the calls made through a client with a stubbed
+ * provider. Runs without an API key.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/transcript.spec.ts
+ */
+
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { hashImage } from '../../config/ai-request';
+import { TranscriptEntry, getImageRef, getTranscriptMode } from '../../config/ai-transcript';
+import { StubProvider, createStubbedClient, withEnv } from './helpers';
+
+const SCREENSHOT = Buffer.from('screenshot bytes').toString('base64');
+
+function parseJSONL(jsonl: string): TranscriptEntry[] {
+  return jsonl.trimEnd().split('\n').map((line) => JSON.parse(line));
+}
+
+test.describe('AI transcripts', () => {
+  test('writes one JSONL line per call with usage, prompt and response', async () => {
+    const client = createStubbedClient(new StubProvider('A login form'));
+    const transcript = client.startTranscript();
+
+    await client.askWithImage('Describe the page', SCREENSHOT, 'image/png', {
+      model: 'haiku',
+      feature: 'assertions.visual',
+      prompt: { id: 'assertions.visual', version: '1.0.0' },
+    });
+    client.stopTranscript();
+
+    const imageRef = getImageRef(hashImage(SCREENSHOT), 'image/png');
+    const [entry] = parseJSONL(transcript.toJSONL());
+    expect(entry).toMatchObject({
+      model: 'claude-3-haiku-20240307',
+      feature: 'assertions.visual',
+      prompt: { id: 'assertions.visual', version: '1.0.0' },
+      source: 'live',
+      inputTokens: 100,
+      outputTokens: 20,
+      response: 'A login form',
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'image', imageRef, mediaType: 'image/png' },
+            { type: 'text', text: 'Describe the page' },
+          ],
+        },
+      ],
+    });
+    expect(entry.costUsd).toBeCloseTo(0.00005);
+    expect(transcript.toJSONL()).not.toContain(SCREENSHOT);
+    expect(transcript.getImages()).toEqual([
+      { name: imageRef, data: Buffer.from(SCREENSHOT, 'base64'), mediaType: 'image/png' },
+    ]);
+  });
+
+  test('records failed calls with their error', async () => {
+    const client = createStubbedClient(new StubProvider(Object.assign(new Error('Bad request'), { status: 400 })));
+    const transcript = client.startTranscript();
+
+    await expect(client.ask('Question', undefined, { model: 'haiku' })).rejects.toThrow('Bad request');
+
+    const entries = parseJSONL(transcript.toJSONL());
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ source: 'live', error: 'Error: Bad request' });
+    expect(entries[0]).not.toHaveProperty('response');
+  });
+
+  test('keeps each image once and stops recording when stopped', async () => {
+    const client = createStubbedClient(new StubProvider('OK'));
+    const transcript = client.startTranscript();
+
+    await client.askWithImage('First look', SCREENSHOT, 'image/png', { model: 'haiku' });
+    await client.askWithImage('Second look', SCREENSHOT, 'image/png', { model: 'haiku' });
+    client.stopTranscript();
+    await client.ask('Not recorded', undefined, { model: 'haiku' });
+
+    expect(transcript.getEntries()).toHaveLength(2);
+    expect(transcript.getImages()).toHaveLength(1);
+  });
+
+  test('validates AI_TRANSCRIPT', async () => {
+    await withEnv({ AI_TRANSCRIPT: undefined }, () => {
+      expect(getTranscriptMode()).toBe('retain-on-failure');
+    });
+    await withEnv({ AI_TRANSCRIPT: 'always' }, () => {
+      expect(() => getTranscriptMode()).toThrow('Invalid AI_TRANSCRIPT: "always" (expected on, off or retain-on-failure)');
+    });
+  });
+});
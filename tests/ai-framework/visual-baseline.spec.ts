@@ -0,0 +1,162 @@
+/**
+ * Visual Baselines
+ *
+ * Baseline naming, the diff threshold, pixel diffs and the AI-explained
+ * visual regression check. The "settings" tests run without a browser;
+ * the others render small pages in Chromium, and answer the AI with a
+ * stubbed backend.
+ *
+ * Run just this suite with: npx playwright test tests/ai-framework/visual-baseline.spec.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page } from '@playwright/test';
+import { test, expect } from '../../fixtures/ai-fixtures';
+import { AIAssertion } from '../../utils/ai-helpers/ai-assertions';
+import { diffScreenshots, getBaselinePath, getDiffThreshold } from '../../utils/ai-helpers/visual-baseline';
+import { StubProvider, withEnv, withStubbedAIClient } from './helpers';
+
+const AI_ENV = {
+  AI_ESCALATION_ENABLED: 'false',
+  AI_ASSERTION_INCONCLUSIVE: undefined,
+};
+
+function box(color: string, width: number = 20, height: number = 10): string {
+  return `<body style="margin: 0; background: #fff"><div style="width: ${width}px; height: ${height}px; background: ${color}"></div></body>`;
+}
+
+async function useSmallViewport({ page }: { page: Page }): Promise<void> {
+  await page.setViewportSize({ width: 40, height: 40 });
+}
+
+async function screenshot(page: Page, html: string, height: number = 20): Promise<Buffer> {
+  await page.setContent(html);
+  return page.screenshot({ clip: { x: 0, y: 0, width: 40, height } });
+}
+
+test.describe('Visual baselines - settings', () => {
+  test('reads the diff threshold', async () => {
+    expect(await withEnv({ AI_VISUAL_DIFF_THRESHOLD: undefined }, getDiffThreshold)).toBe(0.1);
+    expect(await withEnv({ AI_VISUAL_DIFF_THRESHOLD: '0' }, getDiffThreshold)).toBe(0);
+    await expect(withEnv({ AI_VISUAL_DIFF_THRESHOLD: '1.5' }, getDiffThreshold)).rejects.toThrow(
+      'Invalid AI_VISUAL_DIFF_THRESHOLD: "1.5"'
+    );
+  });
+
+  test('stores baselines per browser, next to the spec', async ({}, testInfo) => {
+    const page = { context: () => ({ browser: () => ({ browserType: () => ({ name: () => 'firefox' }) }) }) };
+
+    const baselinePath = getBaselinePath(testInfo, page as unknown as Page, 'checkout page.png');
+
+    expect(path.basename(baselinePath)).toBe(`checkout-page-firefox-${testInfo.project.name}-${process.platform}.png`);
+    expect(path.basename(path.dirname(baselinePath))).toBe('visual-baseline.spec.ts-snapshots');
+  });
+});
+
+test.describe('Visual baselines - diff', () => {
+  test.beforeEach(useSmallViewport);
+
+  test('finds the changed pixels and their region', async ({ page }) => {
+    const baseline = await screenshot(page, box('#000'));
+    const current = await screenshot(page, box('#00f'));
+
+    const diff = await diffScreenshots(page, baseline, current, 0.1);
+
+    expect(diff).toMatchObject({
+      changedPixels: 20 * 10,
+      totalPixels: 40 * 20,
+      region: { x: 0, y: 0, width: 20, height: 10 },
+    });
+    expect(diff.image.subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  test('ignores colour changes within the threshold', async ({ page }) => {
+    const baseline = await screenshot(page, box('#000'));
+    const current = await screenshot(page, box('#101010'));
+
+    expect((await diffScreenshots(page, baseline, current, 0.1)).region).toBeNull();
+    expect((await diffScreenshots(page, baseline, current, 0)).changedPixels).toBe(20 * 10);
+  });
+
+  test('counts the missing area of a resized screenshot as changed', async ({ page }) => {
+    const baseline = await screenshot(page, box('#000'), 20);
+    const current = await screenshot(page, box('#000'), 30);
+
+    const diff = await diffScreenshots(page, baseline, current);
+
+    expect(diff.baselineSize).toEqual({ width: 40, height: 20 });
+    expect(diff.currentSize).toEqual({ width: 40, height: 30 });
+    expect(diff.region).toEqual({ x: 0, y: 20, width: 40, height: 10 });
+  });
+});
+
+test.describe('Visual baselines - AI check', () => {
+  const name = 'ai-framework-visual-baseline';
+
+  test.beforeEach(useSmallViewport);
+
+  // Baselines are written next to the spec, don't leave them in the tree
+  test.afterEach(async ({ page }, testInfo) => {
+    const baselinePath = getBaselinePath(testInfo, page, name);
+    fs.rmSync(baselinePath, { force: true });
+    if (fs.existsSync(path.dirname(baselinePath)) && fs.readdirSync(path.dirname(baselinePath)).length === 0) {
+      fs.rmdirSync(path.dirname(baselinePath));
+    }
+  });
+
+  test('writes a missing baseline and fails, like toHaveScreenshot', async ({ page }, testInfo) => {
+    await page.setContent(box('#000'));
+
+    const result = await new AIAssertion().checkNoMeaningfulVisualChange(page, name);
+
+    expect(result).toMatchObject({ status: 'failed', final: true });
+    expect(fs.existsSync(getBaselinePath(testInfo, page, name))).toBe(true);
+  });
+
+  test('passes an unchanged page without asking the AI', async ({ page }) => {
+    const provider = new StubProvider();
+    await page.setContent(box('#000'));
+    await new AIAssertion().checkNoMeaningfulVisualChange(page, name);
+
+    const result = await withEnv(AI_ENV, () =>
+      withStubbedAIClient(provider, () => new AIAssertion().checkNoMeaningfulVisualChange(page, name))
+    );
+
+    expect(result.status).toBe('passed');
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  test('asks the AI about a pixel change, with the baseline, current and diff images', async ({ page }, testInfo) => {
+    const provider = new StubProvider(
+      JSON.stringify({
+        meaningfulChange: true,
+        confidence: 0.9,
+        changes: [{ description: 'The banner turned blue', kind: 'regression' }],
+        explanation: 'The banner colour changed',
+      })
+    );
+    await page.setContent(box('#000'));
+    await new AIAssertion().checkNoMeaningfulVisualChange(page, name);
+    await page.setContent(box('#00f'));
+
+    const result = await withEnv(AI_ENV, () =>
+      withStubbedAIClient(provider, () =>
+        new AIAssertion().checkNoMeaningfulVisualChange(page, name, { expectedChanges: 'the clock' })
+      )
+    );
+
+    expect(result.status).toBe('failed');
+    expect(result.message).toContain('  - The banner turned blue');
+    expect(provider.requests).toHaveLength(1);
+    const content = provider.requests[0].messages[0].content;
+    expect(Array.isArray(content) && content.filter((block) => block.type === 'image')).toHaveLength(3);
+    expect(provider.prompts[0]).toContain('200 of 1600 pixels changed');
+    expect(provider.prompts[0]).toContain('the clock');
+    expect(testInfo.attachments.map((attachment) => attachment.name)).toEqual([
+      `${name}-expected.png`,
+      `${name}-actual.png`,
+      `${name}-diff.png`,
+    ]);
+  });
+});
@@ -9,6 +9,11 @@ import { test, expect } from '../../fixtures/ai-fixtures';
  * 3. Semantic content validation
  * 4. Layout verification
  * 5. Accessibility checks
+ * 6. Element-scoped visual checks (Locator or selector)
+ * 7. Soft assertions and confidence thresholds
+ * 8. AI expect matchers (polling, .not)
+ * 9. AI-explained visual regression against a stored baseline
+ * 10. Semantic description snapshots
  *
  * Note: These tests use the Playwright website as an example.
  * Replace with your actual application URL and selectors.
@@ -41,6 +46,58 @@ test.describe('AI-Powered Testing Features', () => {
     );
   });
 
+  test('element-scoped visual assertion', async ({ aiPage, aiAssertions }) => {
+    // Only the navigation bar is sent (a padded crop), with a page thumbnail for context
+    await aiAssertions.expectVisualState(
+      aiPage.getByRole('navigation').first(),
+      'A navigation bar with the Playwright logo, documentation links and a search box',
+      { thumbnail: true }
+    );
+
+    // Same with a selector
+    await aiAssertions.expectLayout(aiPage, 'Title and call-to-action buttons are centered', {
+      element: 'header',
+    });
+  });
+
+  test('soft assertions with a confidence threshold', async ({ aiPage, aiAssertions }) => {
+    // Soft failures don't stop the test: all of them are reported together at the end
+    await aiAssertions.soft.expectVisualState(aiPage, 'The hero section has a dark background');
+    await aiAssertions.soft.expectLayout(aiPage, 'The navigation bar is at the top of the page');
+
+    // Below 0.9 the verdict is inconclusive: check again once before failing
+    await aiAssertions.expectSemanticContent(aiPage, 'h1', 'A tool for testing web applications', {
+      minConfidence: 0.9,
+      onInconclusive: 'retry',
+    });
+  });
+
+  test('AI expect matchers', async ({ aiPage }) => {
+    // Same checks as aiAssertions, through expect: they poll until the condition holds
+    await expect(aiPage).toMatchVisualDescription('A documentation website with a hero section', { timeout: 15_000 });
+    await expect(aiPage.locator('h1').first()).toMeanSemantically('A framework for testing web applications');
+    await expect(aiPage).toHaveLayout('The navigation bar is at the top of the page');
+    await expect(aiPage.getByRole('navigation').first()).toBeAccessibleByAI({ focus: 'link names' });
+
+    // .not passes when the model confidently says the description doesn't match
+    await expect(aiPage).not.toMatchVisualDescription('An error page saying the site is down');
+  });
+
+  test('visual regression against a baseline', async ({ aiPage, aiAssertions }) => {
+    // The first run stores the baseline next to this spec (and fails, like toHaveScreenshot).
+    // Later runs only ask the AI when pixels changed, and fail on meaningful changes only.
+    await aiAssertions.expectNoMeaningfulVisualChange(aiPage, 'home', {
+      expectedChanges: 'the GitHub star count and the release version',
+    });
+  });
+
+  test('description snapshot', async ({ aiPage, aiAssertions }) => {
+    // The first run writes a structured description next to this spec, to review and commit.
+    // Later runs describe the page again and fail only on structure, content or state differences.
+    await aiAssertions.expectDescriptionSnapshot(aiPage.getByRole('navigation').first(), 'navigation');
+    await expect(aiPage.locator('header')).toMatchAIDescriptionSnapshot('hero', { ignore: 'the GitHub star count' });
+  });
+
   test('semantic content validation', async ({ aiPage, aiAssertions }) => {
     // Validates that text content matches semantic meaning
     // Doesn't require exact text match - AI understands synonyms and paraphrasing
@@ -63,8 +120,8 @@ test.describe('AI-Powered Testing Features', () => {
   });
 
   test('accessibility check', async ({ aiPage, aiAssertions }) => {
-    // AI performs comprehensive accessibility analysis
-    // Checks both programmatic and visual accessibility issues
+    // WCAG rules run in the page (contrast, labels, headings, ARIA...)
+    // AI ranks the violations and suggests fixes when the check fails
     await aiAssertions.expectAccessible(aiPage);
   });
 
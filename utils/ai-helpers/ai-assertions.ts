@@ -1,357 +1,1431 @@
-import { Page, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Locator, Page, expect, test } from '@playwright/test';
 import { aiClient } from '../../config/ai-client';
+import { AIDegradedError } from '../../config/ai-errors';
+import { ensureAIAvailable } from '../../config/ai-availability';
+import { JSONSchema } from '../../config/ai-json';
+import { PromptRef, formatPromptRef, prompts } from '../../config/ai-prompts';
+import { takeRedactedScreenshot } from '../../config/ai-redaction';
+import {
+  detectInjection,
+  detectPageInjection,
+  detectUntrustedInjection,
+  getCrossCheckMode,
+  wrapUntrusted,
+} from '../../config/ai-injection';
+import { AIContentBlock, AIFeature } from '../../config/ai-request';
+import { ModelName } from '../../config/model-versions';
+import { isEstimateOnly } from '../../config/ai-estimate';
+import {
+  InconclusivePolicy,
+  getInconclusivePolicy,
+  getInconclusiveRetries,
+  getInconclusiveRetryDelayMs,
+  getMinConfidence,
+  isSoftByDefault,
+} from '../../config/ai-confidence';
+import {
+  ElementScopeOptions,
+  captureElement,
+  describeElement,
+  resolveAssertionTarget,
+  toImageBlocks,
+  truncateAriaSnapshot,
+} from './element-capture';
+import { diffScreenshots, getBaselinePath, writeBaseline } from './visual-baseline';
+import {
+  WCAGImpact,
+  WCAGRuleOptions,
+  WCAGViolation,
+  formatViolation,
+  getAccessibilityFailOn,
+  meetsImpact,
+  runWCAGRules,
+} from './wcag-rules';
+import {
+  AIDescription,
+  DESCRIPTION_SCHEMA,
+  DescriptionSnapshot,
+  formatDescription,
+  getDefaultSnapshotName,
+  getSnapshotPath,
+  readSnapshot,
+  writeSnapshot,
+} from './description-snapshot';
+
+interface AIVerdict {
+  matches: boolean;
+  confidence: number;
+  /** The model noticed content trying to instruct it */
+  instructionsInContent?: boolean;
+  explanation: string;
+}
+
+const VERDICT_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    matches: { type: 'boolean' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    instructionsInContent: { type: 'boolean' },
+    explanation: { type: 'string' },
+  },
+  required: ['matches', 'confidence', 'explanation'],
+};
+
+/**
+ * The AI's reading of the rule engine findings: it orders them and
+ * explains them, the verdict doesn't depend on it
+ */
+interface AccessibilityPriorities {
+  summary: string;
+  findings: Array<{
+    /** F1, F2... as numbered in the prompt */
+    id: string;
+    priority: 'high' | 'medium' | 'low';
+    userImpact: string;
+    fix: string;
+  }>;
+  instructionsInContent?: boolean;
+}
+
+const ACCESSIBILITY_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+          userImpact: { type: 'string' },
+          fix: { type: 'string' },
+        },
+        required: ['id', 'priority', 'userImpact', 'fix'],
+      },
+    },
+    instructionsInContent: { type: 'boolean' },
+  },
+  required: ['summary', 'findings'],
+};
+
+const PRIORITY_ORDER = ['high', 'medium', 'low'];
+
+interface DataValidationResult {
+  valid: boolean;
+  confidence: number;
+  issues: string[];
+  instructionsInContent?: boolean;
+  explanation: string;
+}
+
+const DATA_VALIDATION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    valid: { type: 'boolean' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    issues: { type: 'array', items: { type: 'string' } },
+    instructionsInContent: { type: 'boolean' },
+    explanation: { type: 'string' },
+  },
+  required: ['valid', 'confidence', 'issues', 'explanation'],
+};
+
+interface VisualChangeVerdict {
+  meaningfulChange: boolean;
+  confidence: number;
+  changes: { description: string; kind: 'regression' | 'cosmetic' }[];
+  instructionsInContent?: boolean;
+  explanation: string;
+}
+
+const VISUAL_CHANGE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    meaningfulChange: { type: 'boolean' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          kind: { type: 'string', enum: ['regression', 'cosmetic'] },
+        },
+        required: ['description', 'kind'],
+      },
+    },
+    instructionsInContent: { type: 'boolean' },
+    explanation: { type: 'string' },
+  },
+  required: ['meaningfulChange', 'confidence', 'changes', 'explanation'],
+};
+
+interface DescriptionComparison {
+  matches: boolean;
+  confidence: number;
+  differences: { kind: 'structure' | 'content' | 'state'; description: string }[];
+  instructionsInContent?: boolean;
+  explanation: string;
+}
+
+const DESCRIPTION_COMPARISON_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    matches: { type: 'boolean' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    differences: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['structure', 'content', 'state'] },
+          description: { type: 'string' },
+        },
+        required: ['kind', 'description'],
+      },
+    },
+    instructionsInContent: { type: 'boolean' },
+    explanation: { type: 'string' },
+  },
+  required: ['matches', 'confidence', 'differences', 'explanation'],
+};
+
+/** Page ARIA snapshots sent with a description request, in characters */
+const MAX_PAGE_ARIA_SNAPSHOT_CHARS = 6000;
+
+interface CrossCheckVerdict {
+  contradicts: boolean;
+  confidence: number;
+  explanation: string;
+}
+
+const CROSS_CHECK_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    contradicts: { type: 'boolean' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    explanation: { type: 'string' },
+  },
+  required: ['contradicts', 'confidence', 'explanation'],
+};
+
+/**
+ * What a visual check sends: the page screenshot, or an element crop
+ * (plus optional thumbnail) with its description
+ */
+interface AssertionScreenshot {
+  page: Page;
+  /** The element judged, null for the whole page */
+  locator: Locator | null;
+  /** Image blocks to send before the prompt */
+  images: AIContentBlock[];
+  /** Main image (page screenshot or element crop), for the cross-check */
+  image: string;
+  /** Element description for the prompt ('' for the whole page) */
+  element: string;
+  thumbnail: boolean;
+  /** Shown in logs and failure messages */
+  label: string;
+}
+
+/**
+ * Per-call options of every AI assertion
+ */
+export interface AssertionOptions {
+  /** Minimum verdict confidence, below it the verdict is inconclusive (default: AI_ASSERTION_MIN_CONFIDENCE) */
+  minConfidence?: number;
+  /** What an inconclusive verdict does (default: AI_ASSERTION_INCONCLUSIVE) */
+  onInconclusive?: InconclusivePolicy;
+  /** Record a failure and go on, the test fails at the end (default: AI_ASSERTIONS_SOFT) */
+  soft?: boolean;
+  /** The caller relies on the assertion failing (expect(...).not): the failing verdict is cross-checked */
+  negated?: boolean;
+}
+
+/**
+ * Options of the visual assertions, which can be scoped to an element
+ */
+export type ScopedAssertionOptions = AssertionOptions & ElementScopeOptions;
+
+/**
+ * Options of expectAccessible
+ */
+export interface AccessibilityOptions extends ScopedAssertionOptions, WCAGRuleOptions {
+  /** Lowest violation impact that fails the assertion (default: AI_ACCESSIBILITY_FAIL_ON) */
+  failOn?: WCAGImpact;
+}
+
+/**
+ * Options of expectDescriptionSnapshot
+ */
+export interface DescriptionSnapshotOptions extends ScopedAssertionOptions {
+  /** Differences that don't count, e.g. "the number of items in the feed" */
+  ignore?: string;
+}
+
+/**
+ * Options of expectNoMeaningfulVisualChange
+ */
+export interface VisualChangeOptions extends AssertionOptions {
+  /** Compare the full scrollable page instead of the viewport */
+  fullPage?: boolean;
+  /** Per-pixel colour tolerance from 0 to 1 (default: AI_VISUAL_DIFF_THRESHOLD) */
+  threshold?: number;
+  /** Pass without asking the AI when at most this many pixels changed (default: 0) */
+  maxDiffPixels?: number;
+  /** What legitimately differs between runs, e.g. "the clock and the news feed" */
+  expectedChanges?: string;
+}
+
+/**
+ * Thrown when an AI assertion fails (verdict, cross-check or inconclusive)
+ */
+export class AIAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIAssertionError';
+  }
+}
+
+/**
+ * Thrown when a verdict is below the minimum confidence with the fail policy
+ * (or still is after the last retry)
+ */
+export class AIInconclusiveError extends AIAssertionError {
+  constructor(message: string, readonly confidence: number, readonly minConfidence: number) {
+    super(message);
+    this.name = 'AIInconclusiveError';
+  }
+}
+
+export interface SoftAssertionFailure {
+  check: string;
+  error: AIAssertionError;
+}
+
+/**
+ * Soft assertion failures of the current test
+ *
+ * Collection is started and reported by the aiSoftAssertions fixture.
+ * Outside of it there is nowhere to report them later, so soft failures
+ * are thrown right away.
+ */
+class SoftAssertionCollector {
+  private failures: SoftAssertionFailure[] | null = null;
+
+  start(): void {
+    this.failures = [];
+  }
+
+  /**
+   * @returns false when no test is collecting soft failures
+   */
+  record(check: string, error: AIAssertionError): boolean {
+    if (!this.failures) {
+      return false;
+    }
+
+    this.failures.push({ check, error });
+    return true;
+  }
+
+  end(): SoftAssertionFailure[] {
+    const failures = this.failures ?? [];
+    this.failures = null;
+    return failures;
+  }
+}
+
+export const softAssertions = new SoftAssertionCollector();
+
+/**
+ * One message listing every soft failure, to fail the test with
+ */
+export function formatSoftAssertionFailures(failures: SoftAssertionFailure[]): string {
+  return [
+    `${failures.length} soft AI assertion(s) failed:`,
+    ...failures.map((failure, i) => `\n${i + 1}) ${failure.check}\n${failure.error.message}`),
+  ].join('\n');
+}
+
+export type AssertionStatus = 'passed' | 'failed' | 'inconclusive' | 'skipped';
+
+/**
+ * Result of one evaluation of an AI assertion (the check* methods)
+ */
+export interface AssertionResult {
+  status: AssertionStatus;
+  /** Failure or inconclusive details, the success line when passed */
+  message: string;
+  /** Set once the model gave a verdict */
+  confidence?: number;
+  minConfidence?: number;
+  explanation?: string;
+  /** Checking again can't change the result, e.g. a missing snapshot was just written */
+  final?: boolean;
+}
+
+/**
+ * Verdict of one evaluation of an assertion, before the confidence and
+ * cross-check are applied
+ */
+interface AssertionOutcome {
+  passed: boolean;
+  confidence: number;
+  model: ModelName;
+  prompt: PromptRef;
+  /** What was asserted, e.g. "Visual assertion: a login form" */
+  subject: string;
+  explanation: string;
+  /** Message of the AIAssertionError when the verdict fails */
+  failure: string;
+  /** Cross-check of the verdict the caller relies on, false when it was skipped */
+  confirm: (passed: boolean) => Promise<boolean>;
+  /** Logged once the assertion passed */
+  success: string;
+}
 
 export class AIAssertion {
   private enabled: boolean;
+  private softInstance?: AIAssertion;
 
-  constructor() {
+  /**
+   * @param defaults Options applied to every call (per-call options win)
+   */
+  constructor(private readonly defaults: AssertionOptions = {}) {
     this.enabled = process.env.ENABLE_AI_ASSERTIONS !== 'false';
   }
 
+  /**
+   * The same assertions in soft mode, like Playwright's expect.soft: a
+   * failure is recorded and the test goes on, then fails at the end with
+   * all AI assertion failures (aiSoftAssertions fixture)
+   *
+   * @example
+   * ```typescript
+   * await aiAssert.soft.expectVisualState(page, 'the header shows the logo');
+   * await aiAssert.soft.expectLayout(page, 'two columns on desktop');
+   * ```
+   */
+  get soft(): AIAssertion {
+    return (this.softInstance ??= new AIAssertion({ ...this.defaults, soft: true }));
+  }
+
   /**
    * Visual assertion using AI vision
    * Validates that the page matches a natural language description
+   *
+   * Pass a Locator (or options.element) to judge one element: the model gets
+   * a padded crop of it instead of the viewport (see element-capture.ts).
+   *
+   * @example
+   * ```typescript
+   * await aiAssert.expectVisualState(page.getByRole('dialog'), 'a confirmation dialog with two buttons');
+   * await aiAssert.expectVisualState(page, 'cart badge shows 3 items', { element: '#cart', thumbnail: true });
+   * ```
    */
-  async expectVisualState(page: Page, description: string): Promise<void> {
-    if (!this.enabled) {
-      console.log('⚠️  AI assertions disabled, skipping visual check');
-      return;
-    }
+  async expectVisualState(target: Page | Locator, description: string, options?: ScopedAssertionOptions): Promise<void> {
+    await this.enforce('visual check', options, () => this.checkVisualState(target, description, options));
+  }
 
-    console.log(`👁️  AI Visual Check: ${description}`);
+  /**
+   * Evaluate a visual assertion once, without throwing (see expectVisualState)
+   */
+  async checkVisualState(
+    target: Page | Locator,
+    description: string,
+    options?: ScopedAssertionOptions
+  ): Promise<AssertionResult> {
+    return this.check('visual check', 'assertions.visual', options, async () => {
+      const shot = await this.takeScreenshot(target, options, { fullPage: false }, 'assertions.visual');
+      console.log(`👁️  AI Visual Check: ${description}${shot.label}`);
+
+      const prompt = prompts.render('assertions.visual', {
+        description,
+        element: shot.element,
+        thumbnail: shot.thumbnail,
+      });
 
-    const screenshot = await page.screenshot({ fullPage: false });
-    const screenshotBase64 = screenshot.toString('base64');
+      // Starts on the routed model (Sonnet by default, needs good vision), escalates when unsure
+      const answer = await this.askOrSkip('visual check', () =>
+        aiClient.askJSONWithEscalation<AIVerdict>([...shot.images, { type: 'text', text: prompt.user }], VERDICT_SCHEMA, {
+          feature: 'assertions.visual',
+          prompt: prompt.ref,
+          getConfidence: (verdict) => verdict.confidence,
+          systemPrompt: prompt.system,
+        })
+      );
+      if (answer === null) {
+        return null;
+      }
+      const { value: result, model } = answer;
 
-    const prompt = `
-Analyze this screenshot and determine if it matches this description:
-"${description}"
+      return {
+        passed: result.matches,
+        confidence: result.confidence,
+        model,
+        prompt: prompt.ref,
+        subject: `Visual assertion: ${description}${shot.label}`,
+        explanation: result.explanation,
+        failure:
+          `Visual assertion failed: ${description}${shot.label}\n` +
+          `Confidence: ${result.confidence} (model: ${model}, prompt: ${formatPromptRef(prompt.ref)})\n` +
+          `Explanation: ${result.explanation}`,
+        confirm: (passed) =>
+          this.crossCheck(shot.page, 'visual check', {
+            passed,
+            expectation: description,
+            verdict: result,
+            model,
+            feature: 'assertions.visual',
+            image: shot.image,
+          }),
+        success: `✅ Visual check passed (confidence: ${result.confidence}, model: ${model}, prompt: ${formatPromptRef(prompt.ref)})`,
+      };
+    });
+  }
 
-Respond with a JSON object in this exact format:
-{
-  "matches": true or false,
-  "confidence": 0.0 to 1.0,
-  "explanation": "brief explanation of what you see and why it matches or doesn't match"
-}
+  /**
+   * Semantic text assertion
+   * Validates text content matches semantic meaning, not exact wording
+   */
+  async expectSemanticContent(
+    page: Page,
+    selector: string,
+    expectedMeaning: string,
+    options?: AssertionOptions
+  ): Promise<void> {
+    const target = page.locator(selector);
+    await this.enforce('semantic check', options, () => this.checkSemanticContent(target, expectedMeaning, options));
+  }
 
-Be strict but reasonable in your assessment.
-`;
-
-    const systemPrompt = `You are a QA visual validation expert. Analyze screenshots carefully and provide accurate assessments.
-Always respond with valid JSON only.
-IMPORTANT: Provide all explanations and messages in English only.`;
-
-    // Use Sonnet for visual assertions (needs good vision capabilities)
-    const response = await aiClient.askWithImage(
-      prompt,
-      screenshotBase64,
-      'image/png',
-      {
-        model: 'sonnet',
-        maxTokens: 2048
-      },
-      systemPrompt
-    );
+  /**
+   * Evaluate a semantic assertion on the text of an element once, without
+   * throwing (see expectSemanticContent)
+   */
+  async checkSemanticContent(target: Locator, expectedMeaning: string, options?: AssertionOptions): Promise<AssertionResult> {
+    return this.check('semantic check', 'assertions.semantic', options, async () => {
+      const actualText = await target.textContent();
+
+      if (!actualText) {
+        throw new Error(`No text found at: ${target}`);
+      }
+
+      const content = wrapUntrusted('page-text', actualText);
+      const prompt = prompts.render('assertions.semantic', { expectedMeaning, actualText: content });
+
+      // Starts on the routed model (Haiku by default, cost-efficient text comparison), escalates when unsure
+      const answer = await this.askOrSkip('semantic check', () =>
+        aiClient.askJSONWithEscalation<AIVerdict>(prompt.user, VERDICT_SCHEMA, {
+          feature: 'assertions.semantic',
+          prompt: prompt.ref,
+          getConfidence: (verdict) => verdict.confidence,
+          systemPrompt: prompt.system,
+        })
+      );
+      if (answer === null) {
+        return null;
+      }
+      const { value: result, model } = answer;
+
+      return {
+        passed: result.matches,
+        confidence: result.confidence,
+        model,
+        prompt: prompt.ref,
+        subject: `Semantic assertion: ${expectedMeaning}\nActual text: ${actualText}`,
+        explanation: result.explanation,
+        failure:
+          `Semantic assertion failed.\n` +
+          `Expected meaning: ${expectedMeaning}\n` +
+          `Actual text: ${actualText}\n` +
+          `Confidence: ${result.confidence} (model: ${model}, prompt: ${formatPromptRef(prompt.ref)})\n` +
+          `Explanation: ${result.explanation}`,
+        confirm: (passed) =>
+          this.crossCheck(target.page(), 'semantic check', {
+            passed,
+            expectation: `The text means: ${expectedMeaning}`,
+            verdict: result,
+            model,
+            feature: 'assertions.semantic',
+            content,
+          }),
+        success: `✅ Semantic check passed (confidence: ${result.confidence}, model: ${model}, prompt: ${formatPromptRef(prompt.ref)})`,
+      };
+    });
+  }
+
+  /**
+   * Layout assertion using AI vision
+   * Validates visual layout and arrangement of elements
+   *
+   * Pass a Locator (or options.element) to judge the layout of one element.
+   */
+  async expectLayout(target: Page | Locator, description: string, options?: ScopedAssertionOptions): Promise<void> {
+    await this.enforce('layout check', options, () => this.checkLayout(target, description, options));
+  }
 
-    // Parse response
-    const result = this.parseAIResponse(response);
+  /**
+   * Evaluate a layout assertion once, without throwing (see expectLayout)
+   */
+  async checkLayout(target: Page | Locator, description: string, options?: ScopedAssertionOptions): Promise<AssertionResult> {
+    return this.check('layout check', 'assertions.layout', options, async () => {
+      const shot = await this.takeScreenshot(target, options, { fullPage: true }, 'assertions.layout');
+      console.log(`📐 AI Layout Check: ${description}${shot.label}`);
+
+      const prompt = prompts.render('assertions.layout', {
+        description,
+        element: shot.element,
+        thumbnail: shot.thumbnail,
+      });
 
-    if (!result.matches) {
-      throw new Error(
-        `Visual assertion failed: ${description}\n` +
-        `Confidence: ${result.confidence}\n` +
-        `Explanation: ${result.explanation}`
+      // Starts on the routed model (Sonnet by default, needs good vision), escalates when unsure
+      const answer = await this.askOrSkip('layout check', () =>
+        aiClient.askJSONWithEscalation<AIVerdict>([...shot.images, { type: 'text', text: prompt.user }], VERDICT_SCHEMA, {
+          feature: 'assertions.layout',
+          prompt: prompt.ref,
+          getConfidence: (verdict) => verdict.confidence,
+          systemPrompt: prompt.system,
+        })
       );
-    }
+      if (answer === null) {
+        return null;
+      }
+      const { value: result, model } = answer;
 
-    console.log(`✅ Visual check passed (confidence: ${result.confidence})`);
+      return {
+        passed: result.matches,
+        confidence: result.confidence,
+        model,
+        prompt: prompt.ref,
+        subject: `Layout assertion: ${description}${shot.label}`,
+        explanation: result.explanation,
+        failure:
+          `Layout assertion failed: ${description}${shot.label}\n` +
+          `Confidence: ${result.confidence} (model: ${model}, prompt: ${formatPromptRef(prompt.ref)})\n` +
+          `Explanation: ${result.explanation}`,
+        confirm: (passed) =>
+          this.crossCheck(shot.page, 'layout check', {
+            passed,
+            expectation: description,
+            verdict: result,
+            model,
+            feature: 'assertions.layout',
+            image: shot.image,
+          }),
+        success: `✅ Layout check passed (confidence: ${result.confidence}, model: ${model}, prompt: ${formatPromptRef(prompt.ref)})`,
+      };
+    });
   }
 
   /**
-   * Semantic text assertion
-   * Validates text content matches semantic meaning, not exact wording
+   * Accessibility assertion
+   * Runs the WCAG rule engine in the page (contrast, labels, headings,
+   * landmarks, ARIA, keyboard, target size: see wcag-rules.ts) and fails on
+   * violations at or above options.failOn. The verdict is deterministic and
+   * doesn't need AI: the AI only prioritises the violations and explains
+   * them, from a screenshot, in the failure message. Like every AI
+   * assertion, it is skipped with ENABLE_AI_ASSERTIONS=false.
+   *
+   * Pass a Locator (or options.element) to check one element: the rules and
+   * the screenshot are limited to it. The focus ranks related violations first.
+   *
+   * @example
+   * ```typescript
+   * await aiAssert.expectAccessible(page);
+   * await aiAssert.expectAccessible(page.getByRole('form'), 'form labels', { failOn: 'serious' });
+   * ```
    */
-  async expectSemanticContent(page: Page, selector: string, expectedMeaning: string): Promise<void> {
+  async expectAccessible(target: Page | Locator, focus?: string, options?: AccessibilityOptions): Promise<void> {
+    await this.enforce('accessibility check', options, () => this.checkAccessible(target, focus, options));
+  }
+
+  /**
+   * Evaluate an accessibility assertion once, without throwing (see expectAccessible)
+   */
+  async checkAccessible(target: Page | Locator, focus?: string, options: AccessibilityOptions = {}): Promise<AssertionResult> {
+    // Unavailable or degraded AI only skips the prioritisation
     if (!this.enabled) {
-      console.log('⚠️  AI assertions disabled, skipping semantic check');
-      return;
+      console.log('⚠️  AI assertions disabled, skipping accessibility check');
+      return { status: 'skipped', message: 'AI accessibility check skipped' };
     }
 
-    const actualText = await page.locator(selector).textContent();
+    const { page, element } = resolveAssertionTarget(target, options);
+    const label = element ? ` (element: ${element})` : '';
+    const failOn = options.failOn ?? getAccessibilityFailOn();
+    console.log(`♿ Accessibility Check${focus ? `: ${focus}` : ''}${label}`);
 
-    if (!actualText) {
-      throw new Error(`No text found at selector: ${selector}`);
+    const report = await runWCAGRules(element ?? page.locator('html'), options);
+    const failing = report.violations.filter((violation) => meetsImpact(violation.impact, failOn));
+    const below = report.violations.filter((violation) => !meetsImpact(violation.impact, failOn));
+    const more = report.truncated > 0 ? `\n  ... and ${report.truncated} more` : '';
+
+    if (below.length > 0) {
+      console.log(`⚠️  Accessibility issues below ${failOn}:\n${below.map((v) => `  - ${formatViolation(v)}`).join('\n')}`);
     }
 
-    const prompt = `
-Compare these two pieces of text semantically:
+    if (failing.length === 0) {
+      const explanation = `No WCAG violation at ${failOn} impact or above (${report.rules.length} rules checked)`;
+      const message = `✅ Accessibility check passed: ${explanation}`;
+      console.log(message);
+      return { status: 'passed', message, explanation };
+    }
 
-Expected meaning: "${expectedMeaning}"
-Actual text: "${actualText}"
+    const prioritised = await this.prioritiseViolations(target, focus, options, failing);
+    const lines = prioritised
+      ? prioritised.violations.map(
+          ({ violation, priority, userImpact, fix }, i) =>
+            `  ${i + 1}. [${priority}] ${formatViolation(violation)}` +
+            (userImpact ? `\n     Impact: ${userImpact}` : '') +
+            (fix ? `\n     Fix: ${fix}` : '')
+        )
+      : failing.map((violation, i) => `  ${i + 1}. ${formatViolation(violation)}`);
+    const explanation =
+      prioritised?.summary ?? `${failing.length} WCAG violation(s) at ${failOn} impact or above`;
+
+    return {
+      status: 'failed',
+      message:
+        `Accessibility assertion failed!${label}${focus ? `\nFocus: ${focus}` : ''}\n` +
+        `${failing.length} WCAG violation(s) at ${failOn} impact or above (${report.rules.length} rules checked):\n` +
+        `${lines.join('\n')}${more}` +
+        (prioritised ? `\nSummary: ${prioritised.summary} (model: ${prioritised.model}, prompt: ${prioritised.prompt})` : ''),
+      explanation,
+    };
+  }
 
-Do they convey the same meaning? Consider synonyms, paraphrasing, and context.
+  /**
+   * Data-driven assertion
+   * Validates that displayed data makes sense given the context
+   */
+  async expectDataValid(page: Page, selector: string, dataContext: string, options?: AssertionOptions): Promise<void> {
+    await this.enforce('data validation', options, () => this.checkDataValid(page, selector, dataContext, options));
+  }
 
-Respond with JSON:
-{
-  "matches": true or false,
-  "confidence": 0.0 to 1.0,
-  "explanation": "brief explanation"
-}
-`;
+  /**
+   * Evaluate a data validation once, without throwing (see expectDataValid)
+   */
+  async checkDataValid(page: Page, selector: string, dataContext: string, options?: AssertionOptions): Promise<AssertionResult> {
+    return this.check('data validation', 'assertions.data', options, async () => {
+      const data = await page.locator(selector).textContent();
+
+      const content = wrapUntrusted('page-text', data);
+      const prompt = prompts.render('assertions.data', { data: content, dataContext });
+
+      // Starts on the routed model (Haiku by default, cost-efficient), escalates when unsure
+      const answer = await this.askOrSkip('data validation', () =>
+        aiClient.askJSONWithEscalation<DataValidationResult>(prompt.user, DATA_VALIDATION_SCHEMA, {
+          feature: 'assertions.data',
+          prompt: prompt.ref,
+          getConfidence: (verdict) => verdict.confidence,
+          systemPrompt: prompt.system,
+        })
+      );
+      if (answer === null) {
+        return null;
+      }
+      const { value: result, model } = answer;
 
-    // Use Haiku for simple text comparison (cost-efficient)
-    const response = await aiClient.ask(prompt, undefined, {
-      model: 'haiku',
-      maxTokens: 512
+      return {
+        passed: result.valid,
+        confidence: result.confidence,
+        model,
+        prompt: prompt.ref,
+        subject: `Data validation: ${dataContext}\nData: ${data}`,
+        explanation: result.explanation,
+        failure:
+          `Data validation failed.\n` +
+          `Data: ${data}\n` +
+          `Context: ${dataContext}\n` +
+          `Issues: ${result.issues.join(', ')}\n` +
+          `Explanation: ${result.explanation}\n` +
+          `Confidence: ${result.confidence} (model: ${model}, prompt: ${formatPromptRef(prompt.ref)})`,
+        confirm: (passed) =>
+          this.crossCheck(page, 'data validation', {
+            passed,
+            expectation: `The data is valid in this context: ${dataContext}`,
+            verdict: result,
+            model,
+            feature: 'assertions.data',
+            content,
+          }),
+        success: `✅ Data validation passed (confidence: ${result.confidence}, model: ${model}, prompt: ${formatPromptRef(prompt.ref)})`,
+      };
     });
-    const result = this.parseAIResponse(response);
-
-    if (!result.matches) {
-      throw new Error(
-        `Semantic assertion failed.\n` +
-        `Expected meaning: ${expectedMeaning}\n` +
-        `Actual text: ${actualText}\n` +
-        `Confidence: ${result.confidence}\n` +
-        `Explanation: ${result.explanation}`
-      );
-    }
+  }
 
-    console.log(`✅ Semantic check passed`);
+  /**
+   * Visual regression assertion against a stored baseline screenshot
+   * Fails only on meaningful changes: the model gets the baseline, the
+   * current screenshot and a pixel diff, and tells regressions from
+   * cosmetic noise (font rendering, timestamps...)
+   *
+   * The first run stores the baseline, --update-snapshots rewrites it (see
+   * visual-baseline.ts). Screenshots without changed pixels, or with at
+   * most maxDiffPixels, pass without an AI call.
+   *
+   * @example
+   * ```typescript
+   * await aiAssert.expectNoMeaningfulVisualChange(page, 'dashboard', { expectedChanges: 'the clock in the header' });
+   * ```
+   */
+  async expectNoMeaningfulVisualChange(page: Page, name: string, options?: VisualChangeOptions): Promise<void> {
+    await this.enforce('visual regression check', options, () => this.checkNoMeaningfulVisualChange(page, name, options));
   }
 
   /**
-   * Layout assertion using AI vision
-   * Validates visual layout and arrangement of elements
+   * Evaluate a visual regression assertion once, without throwing (see
+   * expectNoMeaningfulVisualChange). Writes missing or updated baselines.
    */
-  async expectLayout(page: Page, description: string): Promise<void> {
-    if (!this.enabled) {
-      console.log('⚠️  AI assertions disabled, skipping layout check');
-      return;
-    }
+  async checkNoMeaningfulVisualChange(page: Page, name: string, options: VisualChangeOptions = {}): Promise<AssertionResult> {
+    const testInfo = test.info();
+    const update = testInfo.config.updateSnapshots;
+    const baselinePath = getBaselinePath(testInfo, page, name);
+    const current = await takeRedactedScreenshot(
+      page,
+      { fullPage: options.fullPage ?? false },
+      'assertions.visual-regression'
+    );
 
-    console.log(`📐 AI Layout Check: ${description}`);
+    if (!fs.existsSync(baselinePath)) {
+      const message = `A visual baseline doesn't exist at ${baselinePath}${update !== 'none' ? ', writing actual.' : '.'}`;
+      if (update !== 'none') {
+        writeBaseline(baselinePath, current);
+      }
+      console.log(`📸 ${message}`);
 
-    const screenshot = await page.screenshot({ fullPage: true });
-    const screenshotBase64 = screenshot.toString('base64');
+      // Like toHaveScreenshot: a new baseline only passes when updating explicitly
+      return { status: update === 'all' || update === 'changed' ? 'passed' : 'failed', message, final: true };
+    }
 
-    const prompt = `
-Analyze the layout of this page and verify if it matches this description:
-"${description}"
+    const baseline = fs.readFileSync(baselinePath);
+    const diff = await diffScreenshots(page, baseline, current, options.threshold);
 
-Focus on:
-- Element positioning and alignment
-- Visual hierarchy
-- Spacing and margins
-- Responsive design aspects
-- Overall composition
+    if (update === 'all' || (update === 'changed' && diff.changedPixels > 0)) {
+      if (!baseline.equals(current)) {
+        writeBaseline(baselinePath, current);
+        console.log(`📸 ${baselinePath} updated (${diff.changedPixels} pixel(s) changed)`);
+      }
+      return { status: 'passed', message: `${baselinePath} running with --update-snapshots, writing actual.`, final: true };
+    }
 
-Respond with JSON:
-{
-  "matches": true or false,
-  "confidence": 0.0 to 1.0,
-  "explanation": "what you observed about the layout"
-}
-`;
-
-    const systemPrompt = `You are a QA visual layout expert. Analyze page layouts carefully.
-IMPORTANT: Provide all explanations and observations in English only.`;
-
-    // Use Sonnet for layout analysis (needs good vision)
-    const response = await aiClient.askWithImage(
-      prompt,
-      screenshotBase64,
-      'image/png',
-      {
-        model: 'sonnet',
-        maxTokens: 2048
-      },
-      systemPrompt
-    );
-    const result = this.parseAIResponse(response);
+    if (diff.changedPixels <= (options.maxDiffPixels ?? 0)) {
+      const message = `✅ No visual change in ${name} (${diff.changedPixels} pixel(s) changed)`;
+      console.log(message);
+      return { status: 'passed', message };
+    }
+
+    const attachmentName = name.replace(/\.png$/i, '');
+    await testInfo.attach(`${attachmentName}-expected.png`, { body: baseline, contentType: 'image/png' });
+    await testInfo.attach(`${attachmentName}-actual.png`, { body: current, contentType: 'image/png' });
+    await testInfo.attach(`${attachmentName}-diff.png`, { body: diff.image, contentType: 'image/png' });
+
+    return this.check('visual regression check', 'assertions.visual-regression', options, async () => {
+      const changedPercent = ((diff.changedPixels / diff.totalPixels) * 100).toFixed(2);
+      const pixelSummary = `${diff.changedPixels} of ${diff.totalPixels} pixels changed (${changedPercent}%)`;
+      console.log(`🔍 AI Visual Regression Check: ${name} (${pixelSummary})`);
+
+      const { baselineSize: before, currentSize: after, region } = diff;
+      const prompt = prompts.render('assertions.visual-regression', {
+        changedPixels: diff.changedPixels,
+        totalPixels: diff.totalPixels,
+        changedPercent,
+        region: region ? `x=${region.x}, y=${region.y}, width=${region.width}, height=${region.height} (screenshot pixels)` : '',
+        sizeChange:
+          before.width !== after.width || before.height !== after.height
+            ? `${before.width}x${before.height} → ${after.width}x${after.height}`
+            : '',
+        expectedChanges: options.expectedChanges ?? '',
+      });
 
-    if (!result.matches) {
-      throw new Error(
-        `Layout assertion failed: ${description}\n` +
-        `Confidence: ${result.confidence}\n` +
-        `Explanation: ${result.explanation}`
+      const images: AIContentBlock[] = [baseline, current, diff.image].map((image) => ({
+        type: 'image',
+        data: image.toString('base64'),
+        mediaType: 'image/png',
+      }));
+
+      // Starts on the routed model (Sonnet by default, compares three images), escalates when unsure
+      const answer = await this.askOrSkip('visual regression check', () =>
+        aiClient.askJSONWithEscalation<VisualChangeVerdict>(
+          [...images, { type: 'text', text: prompt.user }],
+          VISUAL_CHANGE_SCHEMA,
+          {
+            feature: 'assertions.visual-regression',
+            prompt: prompt.ref,
+            getConfidence: (verdict) => verdict.confidence,
+            systemPrompt: prompt.system,
+          }
+        )
       );
-    }
+      if (answer === null) {
+        return null;
+      }
+      const { value: result, model } = answer;
 
-    console.log(`✅ Layout check passed`);
+      const regressions = result.changes.filter((change) => change.kind === 'regression');
+      const cosmetic = result.changes.filter((change) => change.kind === 'cosmetic');
+
+      return {
+        passed: !result.meaningfulChange,
+        confidence: result.confidence,
+        model,
+        prompt: prompt.ref,
+        subject: `Visual regression check: ${name} (${pixelSummary})`,
+        explanation: result.explanation,
+        failure:
+          `Visual regression: ${name}\n` +
+          `Meaningful changes (confidence: ${result.confidence}, model: ${model}, prompt: ${formatPromptRef(prompt.ref)}):\n` +
+          `${regressions.map((change) => `  - ${change.description}`).join('\n') || '  (none listed)'}\n` +
+          (cosmetic.length > 0 ? `Cosmetic changes: ${cosmetic.map((change) => change.description).join('; ')}\n` : '') +
+          `Pixel diff: ${pixelSummary}\n` +
+          `Explanation: ${result.explanation}\n` +
+          `Baseline: ${baselinePath} (run with --update-snapshots if the change is intended)`,
+        // No cross-check: its inverted question takes a single image, not a comparison
+        confirm: async () => true,
+        success:
+          `✅ No meaningful visual change in ${name} (${cosmetic.length} cosmetic change(s), ` +
+          `confidence: ${result.confidence}, model: ${model}, prompt: ${formatPromptRef(prompt.ref)})`,
+      };
+    });
   }
 
   /**
-   * Accessibility assertion using AI
-   * Checks for accessibility issues and best practices
+   * Description snapshot assertion
+   * Compares a structured AI description of the page (or element) with the
+   * reviewed snapshot stored next to the spec. The comparison is semantic:
+   * only structural, content and state differences fail.
+   *
+   * The first run writes the snapshot, --update-snapshots rewrites it (see
+   * description-snapshot.ts). Without a name, the test title and a counter
+   * name the snapshot.
+   *
+   * @example
+   * ```typescript
+   * await aiAssert.expectDescriptionSnapshot(page, 'checkout');
+   * await aiAssert.expectDescriptionSnapshot(page.getByRole('dialog'), 'confirm-dialog', { ignore: 'the order number' });
+   * ```
    */
-  async expectAccessible(page: Page, focus?: string): Promise<void> {
-    if (!this.enabled) {
-      console.log('⚠️  AI assertions disabled, skipping accessibility check');
-      return;
+  async expectDescriptionSnapshot(
+    target: Page | Locator,
+    name?: string,
+    options?: DescriptionSnapshotOptions
+  ): Promise<void> {
+    const snapshotName = name ?? getDefaultSnapshotName(test.info());
+    await this.enforce('description snapshot check', options, () =>
+      this.checkDescriptionSnapshot(target, snapshotName, options)
+    );
+  }
+
+  /**
+   * Evaluate a description snapshot assertion once, without throwing (see
+   * expectDescriptionSnapshot). Writes missing or updated snapshots.
+   */
+  async checkDescriptionSnapshot(
+    target: Page | Locator,
+    name: string,
+    options: DescriptionSnapshotOptions = {}
+  ): Promise<AssertionResult> {
+    const testInfo = test.info();
+    const update = testInfo.config.updateSnapshots;
+    const snapshotPath = getSnapshotPath(testInfo, name);
+    const exists = fs.existsSync(snapshotPath);
+    const skipped: AssertionResult = { status: 'skipped', message: 'AI description snapshot check skipped' };
+
+    if (!exists && update === 'none') {
+      return { status: 'failed', message: `A description snapshot doesn't exist at ${snapshotPath}.`, final: true };
     }
 
-    console.log(`♿ AI Accessibility Check${focus ? `: ${focus}` : ''}`);
+    if (!exists || update === 'all') {
+      if (this.shouldSkip('description snapshot check')) {
+        return skipped;
+      }
 
-    const screenshot = await page.screenshot({ fullPage: false });
-    const screenshotBase64 = screenshot.toString('base64');
+      const described = await this.describe(target, name, options);
+      if (described === null) {
+        return skipped;
+      }
 
-    // Also get the HTML structure for better analysis
-    const accessibilityInfo = await page.evaluate(() => {
-      const issues: string[] = [];
+      writeSnapshot(snapshotPath, described.snapshot);
+      const message = exists
+        ? `${snapshotPath} running with --update-snapshots, writing actual.`
+        : `A description snapshot doesn't exist at ${snapshotPath}, writing actual. Review it before committing.`;
+      console.log(`📝 ${message}`);
 
-      // Check for common a11y issues
-      document.querySelectorAll('img:not([alt])').forEach(() => {
-        issues.push('Image without alt attribute');
-      });
+      // Like Playwright snapshots: a new snapshot only passes when updating explicitly
+      return { status: exists || update === 'changed' ? 'passed' : 'failed', message, final: true };
+    }
 
-      document.querySelectorAll('button:not([aria-label]):empty').forEach(() => {
-        issues.push('Button without text or aria-label');
-      });
+    const stored = readSnapshot(snapshotPath);
 
-      document.querySelectorAll('input:not([aria-label]):not([id])').forEach(() => {
-        issues.push('Input without label or aria-label');
+    return this.check('description snapshot check', 'assertions.description-compare', options, async () => {
+      const described = await this.describe(target, name, options);
+      if (described === null) {
+        return null;
+      }
+      const { snapshot: current, subject } = described;
+
+      const prompt = prompts.render('assertions.description-compare', {
+        subject,
+        snapshot: formatDescription(stored.description),
+        current: wrapUntrusted('page-description', formatDescription(current.description)),
+        ignore: options.ignore ?? '',
       });
 
-      return { issues };
+      // Starts on the routed model (Haiku by default, text comparison), escalates when unsure
+      const answer = await this.askOrSkip('description snapshot check', () =>
+        aiClient.askJSONWithEscalation<DescriptionComparison>(prompt.user, DESCRIPTION_COMPARISON_SCHEMA, {
+          feature: 'assertions.description-compare',
+          prompt: prompt.ref,
+          getConfidence: (verdict) => verdict.confidence,
+          systemPrompt: prompt.system,
+        })
+      );
+      if (answer === null) {
+        return null;
+      }
+      const { value: result, model } = answer;
+
+      if (!result.matches) {
+        await testInfo.attach(`${path.basename(snapshotPath, '.ai.json')}-actual.ai.json`, {
+          body: JSON.stringify(current, null, 2),
+          contentType: 'application/json',
+        });
+      }
+
+      // --update-snapshots=changed: a differing snapshot is rewritten instead of failing
+      const rewrite = !result.matches && update === 'changed';
+      if (rewrite) {
+        writeSnapshot(snapshotPath, current);
+      }
+
+      return {
+        passed: result.matches || rewrite,
+        confidence: result.confidence,
+        model,
+        prompt: prompt.ref,
+        subject: `Description snapshot check: ${name}`,
+        explanation: result.explanation,
+        failure:
+          `Description snapshot mismatch: ${name}\n` +
+          `Differences (confidence: ${result.confidence}, model: ${model}, prompt: ${formatPromptRef(prompt.ref)}):\n` +
+          `${result.differences.map((d) => `  - ${d.kind}: ${d.description}`).join('\n') || '  (none listed)'}\n` +
+          `Explanation: ${result.explanation}\n` +
+          `Snapshot: ${snapshotPath} (run with --update-snapshots if the change is intended)`,
+        // No cross-check: both sides are model-written descriptions, the current one already wrapped as untrusted
+        confirm: async () => true,
+        success: rewrite
+          ? `📝 ${snapshotPath} does not match, writing actual.`
+          : `✅ Description snapshot ${name} matches (confidence: ${result.confidence}, model: ${model}, prompt: ${formatPromptRef(prompt.ref)})`,
+      };
     });
+  }
 
-    const prompt = `
-Analyze this page for accessibility issues.
-${focus ? `Focus specifically on: ${focus}` : 'Check general accessibility.'}
-
-Programmatic issues found: ${JSON.stringify(accessibilityInfo.issues)}
-
-Also check the visual aspects for:
-- Color contrast
-- Text readability
-- Focus indicators
-- Touch target sizes
-- Visual hierarchy
-
-Respond with JSON:
-{
-  "accessible": true or false,
-  "severity": "none" | "minor" | "moderate" | "critical",
-  "issues": ["list", "of", "issues"],
-  "explanation": "summary of accessibility state"
-}
-`;
-
-    const systemPrompt = `You are an accessibility expert. Analyze pages for WCAG compliance and a11y best practices.
-IMPORTANT: Provide all issues, explanations, and recommendations in English only.`;
-
-    // Use Sonnet for accessibility analysis (requires comprehensive understanding)
-    const response = await aiClient.askWithImage(
-      prompt,
-      screenshotBase64,
-      'image/png',
-      {
-        model: 'sonnet',
-        maxTokens: 2048
+  /**
+   * Structured description of the page (or element): full-page screenshot
+   * or element crop, plus the ARIA snapshot
+   *
+   * @returns null when the AI call was skipped
+   */
+  private async describe(
+    target: Page | Locator,
+    name: string,
+    options: DescriptionSnapshotOptions
+  ): Promise<{ snapshot: DescriptionSnapshot; subject: string } | null> {
+    const shot = await this.takeScreenshot(target, options, { fullPage: true }, 'assertions.description');
+    const subject = shot.element ? 'element' : 'page';
+    console.log(`📝 AI Description: ${name}${shot.label}`);
+
+    // Element captures already carry their ARIA snapshot in the element description
+    const ariaSnapshot = shot.element
+      ? ''
+      : wrapUntrusted(
+          'aria-snapshot',
+          truncateAriaSnapshot(await shot.page.locator('body').ariaSnapshot(), MAX_PAGE_ARIA_SNAPSHOT_CHARS)
+        );
+
+    const prompt = prompts.render('assertions.description', {
+      subject,
+      element: shot.element,
+      thumbnail: shot.thumbnail,
+      ariaSnapshot,
+    });
+
+    // Routed model (Sonnet by default, vision and a long answer), escalates only when unparseable
+    const answer = await this.askOrSkip('description snapshot check', () =>
+      aiClient.askJSONWithEscalation<AIDescription>(
+        [...shot.images, { type: 'text', text: prompt.user }],
+        DESCRIPTION_SCHEMA,
+        {
+          feature: 'assertions.description',
+          prompt: prompt.ref,
+          systemPrompt: prompt.system,
+        }
+      )
+    );
+    if (answer === null) {
+      return null;
+    }
+
+    return {
+      snapshot: {
+        name,
+        target: shot.locator ? String(shot.locator) : 'page',
+        prompt: formatPromptRef(prompt.ref),
+        description: answer.value,
       },
-      systemPrompt
+      subject,
+    };
+  }
+
+  /**
+   * Ask the AI to rank WCAG violations by their impact on users, with a fix
+   * for each. Findings the model leaves out keep their place, after the
+   * ranked ones.
+   *
+   * @returns null when the AI was skipped or the page tried to instruct the model
+   */
+  private async prioritiseViolations(
+    target: Page | Locator,
+    focus: string | undefined,
+    options: AccessibilityOptions,
+    violations: WCAGViolation[]
+  ): Promise<{
+    violations: Array<{ violation: WCAGViolation; priority: string; userImpact: string; fix: string }>;
+    summary: string;
+    model: ModelName;
+    prompt: string;
+  } | null> {
+    const check = 'accessibility prioritisation';
+    if (this.shouldSkip(check)) {
+      return null;
+    }
+
+    const shot = await this.takeScreenshot(target, options, { fullPage: false }, 'assertions.accessibility');
+    const findings = violations.map((violation, i) => `F${i + 1}. ${formatViolation(violation)}`).join('\n');
+    const prompt = prompts.render('assertions.accessibility', {
+      subject: shot.element ? 'element' : 'page',
+      findings: wrapUntrusted('wcag-findings', findings),
+      focus: focus ?? '',
+      element: shot.element,
+      thumbnail: shot.thumbnail,
+    });
+
+    // Routed model (Sonnet by default), escalates only on unparseable answers
+    const answer = await this.askOrSkip(check, () =>
+      aiClient.askJSONWithEscalation<AccessibilityPriorities>(
+        [...shot.images, { type: 'text', text: prompt.user }],
+        ACCESSIBILITY_SCHEMA,
+        {
+          feature: 'assertions.accessibility',
+          prompt: prompt.ref,
+          systemPrompt: prompt.system,
+        }
+      )
     );
-    const result = JSON.parse(this.extractJSON(response));
-
-    if (!result.accessible && result.severity !== 'minor') {
-      throw new Error(
-        `Accessibility assertion failed!\n` +
-        `Severity: ${result.severity}\n` +
-        `Issues found:\n${result.issues.map((i: string) => `  - ${i}`).join('\n')}\n` +
-        `${result.explanation}`
-      );
+    if (answer === null) {
+      return null;
     }
+    const { value: result, model } = answer;
 
-    if (result.issues.length > 0) {
-      console.log(`⚠️  Minor accessibility issues: ${result.issues.join(', ')}`);
+    if (result.instructionsInContent) {
+      console.warn(`🛡️  Possible prompt injection reported by the model, ignoring the ${check}`);
+      return null;
     }
 
-    console.log(`✅ Accessibility check passed`);
+    const ranked = new Map(result.findings.map((finding, rank) => [finding.id.trim().toUpperCase(), { ...finding, rank }]));
+
+    return {
+      violations: violations
+        .map((violation, i) => {
+          const finding = ranked.get(`F${i + 1}`);
+          return {
+            violation,
+            priority: finding?.priority ?? 'unranked',
+            userImpact: finding?.userImpact ?? '',
+            fix: finding?.fix ?? '',
+            order: finding ? [PRIORITY_ORDER.indexOf(finding.priority), finding.rank] : [PRIORITY_ORDER.length, i],
+          };
+        })
+        .sort((a, b) => a.order[0] - b.order[0] || a.order[1] - b.order[1])
+        .map(({ order, ...rest }) => rest),
+      summary: result.summary,
+      model,
+      prompt: formatPromptRef(prompt.ref),
+    };
   }
 
   /**
-   * Data-driven assertion
-   * Validates that displayed data makes sense given the context
+   * Evaluate an assertion once: skip checks, the minimum confidence, the
+   * verdict and the cross-check of the verdict the caller relies on (a
+   * pass, or a fail when negated)
+   *
+   * evaluate() returns null when the AI call was skipped.
    */
-  async expectDataValid(page: Page, selector: string, dataContext: string): Promise<void> {
-    if (!this.enabled) {
-      console.log('⚠️  AI assertions disabled, skipping data validation');
-      return;
+  private async check(
+    check: string,
+    feature: AIFeature,
+    options: AssertionOptions | undefined,
+    evaluate: () => Promise<AssertionOutcome | null>
+  ): Promise<AssertionResult> {
+    const skipped: AssertionResult = { status: 'skipped', message: `AI ${check} skipped` };
+    if (this.shouldSkip(check)) {
+      return skipped;
     }
 
-    const data = await page.locator(selector).textContent();
+    const { minConfidence = getMinConfidence(feature), negated = false } = { ...this.defaults, ...options };
 
-    const prompt = `
-Validate if this data makes sense in the given context:
+    const outcome = await evaluate();
+    if (outcome === null) {
+      return skipped;
+    }
 
-Data: "${data}"
-Context: ${dataContext}
+    const verdict = { confidence: outcome.confidence, minConfidence, explanation: outcome.explanation };
 
-Check for:
-- Logical consistency
-- Format correctness
-- Reasonable values
-- No obvious errors
+    if (outcome.confidence < minConfidence) {
+      return {
+        status: 'inconclusive',
+        message:
+          `${outcome.subject}\n` +
+          `Inconclusive: confidence ${outcome.confidence} is below the minimum of ${minConfidence}\n` +
+          `Verdict: ${outcome.passed ? 'pass' : 'fail'} (model: ${outcome.model}, prompt: ${formatPromptRef(outcome.prompt)})\n` +
+          `Explanation: ${outcome.explanation}`,
+        ...verdict,
+      };
+    }
 
-Respond with JSON:
-{
-  "valid": true or false,
-  "confidence": 0.0 to 1.0,
-  "issues": ["any", "problems", "found"],
-  "explanation": "brief explanation"
-}
-`;
+    if (outcome.passed !== negated) {
+      try {
+        if (!(await outcome.confirm(outcome.passed))) {
+          return skipped;
+        }
+      } catch (error) {
+        if (!(error instanceof AIAssertionError)) {
+          throw error;
+        }
+
+        // A contradicted fail means the expectation is met after all, so the negated assertion fails
+        return negated
+          ? { status: 'passed', message: error.message, ...verdict, explanation: error.message }
+          : { status: 'failed', message: error.message, ...verdict };
+      }
+    }
 
-    // Use Haiku for simple data validation (cost-efficient)
-    const response = await aiClient.ask(prompt, undefined, {
-      model: 'haiku',
-      maxTokens: 512
-    });
-    const result = JSON.parse(this.extractJSON(response));
-
-    if (!result.valid) {
-      throw new Error(
-        `Data validation failed.\n` +
-        `Data: ${data}\n` +
-        `Context: ${dataContext}\n` +
-        `Issues: ${result.issues.join(', ')}\n` +
-        `Explanation: ${result.explanation}`
-      );
+    if (!outcome.passed) {
+      return { status: 'failed', message: outcome.failure, ...verdict };
     }
 
-    console.log(`✅ Data validation passed`);
+    console.log(outcome.success);
+    return { status: 'passed', message: outcome.success, ...verdict };
   }
 
-  private parseAIResponse(response: string): { matches: boolean; confidence: number; explanation: string } {
-    try {
-      const jsonStr = this.extractJSON(response);
-      const parsed = JSON.parse(jsonStr);
+  /**
+   * Turn the result of a check into a pass or an error: applies the
+   * inconclusive policy (retries run the check again) and soft mode
+   */
+  private async enforce(
+    check: string,
+    options: AssertionOptions | undefined,
+    run: () => Promise<AssertionResult>
+  ): Promise<void> {
+    const { onInconclusive = getInconclusivePolicy(), soft = isSoftByDefault() } = { ...this.defaults, ...options };
+    const retries = onInconclusive === 'retry' ? getInconclusiveRetries() : 0;
+
+    let result = await run();
+    for (let attempt = 1; result.status === 'inconclusive' && attempt <= retries; attempt++) {
+      console.warn(
+        `🔁 Inconclusive ${check} (confidence: ${result.confidence} < ${result.minConfidence}), ` +
+        `retrying (${attempt}/${retries})`
+      );
+      await new Promise((resolve) => setTimeout(resolve, getInconclusiveRetryDelayMs()));
+      result = await run();
+    }
+
+    if (result.status === 'passed' || result.status === 'skipped') {
+      return;
+    }
+
+    if (result.status === 'inconclusive' && onInconclusive === 'warn') {
+      console.warn(`⚠️  ${result.message}`);
+      return;
+    }
+
+    const error =
+      result.status === 'inconclusive'
+        ? new AIInconclusiveError(result.message, result.confidence!, result.minConfidence!)
+        : new AIAssertionError(result.message);
 
+    if (soft && softAssertions.record(check, error)) {
+      console.error(`❌ Soft ${check} failed, reported at the end of the test:\n${error.message}`);
+      return;
+    }
+    throw error;
+  }
+
+  /**
+   * Screenshot for a visual check: the page, or a crop of the target element
+   */
+  private async takeScreenshot(
+    target: Page | Locator,
+    options: ElementScopeOptions | undefined,
+    pageOptions: { fullPage: boolean },
+    feature: AIFeature
+  ): Promise<AssertionScreenshot> {
+    const { page, element } = resolveAssertionTarget(target, options);
+
+    if (!element) {
+      const image = (await takeRedactedScreenshot(page, pageOptions, feature)).toString('base64');
       return {
-        matches: parsed.matches || parsed.accessible || parsed.valid || false,
-        confidence: parsed.confidence || 0.5,
-        explanation: parsed.explanation || 'No explanation provided',
+        page,
+        locator: null,
+        images: [{ type: 'image', data: image, mediaType: 'image/png' }],
+        image,
+        element: '',
+        thumbnail: false,
+        label: '',
       };
-    } catch (error) {
-      console.error('Failed to parse AI response:', response);
-      throw new Error(`Failed to parse AI response: ${error}`);
     }
+
+    const capture = await captureElement(element, options, feature);
+    return {
+      page,
+      locator: element,
+      images: toImageBlocks(capture),
+      image: capture.crop.toString('base64'),
+      element: describeElement(capture),
+      thumbnail: capture.thumbnail !== undefined,
+      label: ` (element: ${element})`,
+    };
+  }
+
+  private shouldSkip(check: string): boolean {
+    if (!this.enabled) {
+      console.log(`⚠️  AI assertions disabled, skipping ${check}`);
+      return true;
+    }
+
+    // Policy 'skip' by default, throws AIUnavailableError with policy 'fail'
+    if (!ensureAIAvailable('assertions')) {
+      console.warn(`⚠️  AI unavailable, skipping ${check}`);
+      return true;
+    }
+
+    if (aiClient.isDegraded()) {
+      console.warn(`⚠️  AI backend degraded, skipping ${check}`);
+      return true;
+    }
+
+    return false;
   }
 
-  private extractJSON(text: string): string {
-    // Try to extract JSON from markdown code blocks
-    const codeBlockMatch = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
-    if (codeBlockMatch) {
-      return codeBlockMatch[1].trim();
+  /**
+   * Confirm the verdict the caller relies on with an inverted question:
+   * a pass, or a fail under expect(...).not
+   *
+   * Runs on every such verdict with AI_INJECTION_CROSS_CHECK=always, and by
+   * default only when the page or the asserted content contains
+   * instruction-like text, or the model reported that the content tried to
+   * instruct it. The explanation of the verdict is checked too: an answer
+   * that echoes a payload is suspicious in itself.
+   *
+   * @returns false when the backend went into degraded mode (check skipped)
+   * @throws AIAssertionError when the cross-check contradicts the verdict
+   */
+  private async crossCheck(
+    page: Page,
+    check: string,
+    options: {
+      /** Verdict to confirm */
+      passed: boolean;
+      expectation: string;
+      verdict: { instructionsInContent?: boolean; explanation: string };
+      model: ModelName;
+      feature: AIFeature;
+      content?: string;
+      image?: string;
+    }
+  ): Promise<boolean> {
+    const mode = getCrossCheckMode();
+    if (mode === 'off') {
+      return true;
+    }
+
+    const findings = [
+      ...(await detectPageInjection(page)),
+      ...(options.content ? detectUntrustedInjection(options.content) : []),
+      ...detectInjection(options.verdict.explanation),
+    ];
+    const suspicious = findings.length > 0 || options.verdict.instructionsInContent === true;
+    if (!suspicious && mode === 'suspicious') {
+      return true;
+    }
+
+    const reasons = [
+      ...new Set(findings.map((finding) => finding.rule)),
+      ...(options.verdict.instructionsInContent ? ['reported by model'] : []),
+    ];
+    if (suspicious) {
+      console.warn(`🛡️  Possible prompt injection (${reasons.join(', ')}), cross-checking ${check}`);
     }
 
-    // Try to find JSON object in text
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return jsonMatch[0];
+    const prompt = prompts.render('assertions.cross-check', {
+      check,
+      expectation: options.expectation,
+      content: options.content,
+      hasImage: options.image !== undefined,
+      failed: !options.passed,
+    });
+
+    const answer = await this.askOrSkip(check, () =>
+      aiClient.askJSON<CrossCheckVerdict>(prompt.user, CROSS_CHECK_SCHEMA, {
+        model: options.model,
+        maxTokens: 1024,
+        feature: options.feature,
+        prompt: prompt.ref,
+        systemPrompt: prompt.system,
+        image: options.image,
+      })
+    );
+    if (answer === null) {
+      return false;
+    }
+
+    if (answer.contradicts) {
+      throw new AIAssertionError(
+        `Cross-check failed for ${check}: ${options.expectation}\n` +
+        `The verdict ${options.passed ? 'passed' : 'failed'}, but an independent check contradicts it` +
+        `${suspicious ? ` (possible prompt injection: ${reasons.join(', ')})` : ''}.\n` +
+        `Confidence: ${answer.confidence} (model: ${options.model}, prompt: ${formatPromptRef(prompt.ref)})\n` +
+        `Explanation: ${answer.explanation}`
+      );
     }
 
-    return text.trim();
+    return true;
+  }
+
+  /**
+   * Run an AI call, returning null when the backend goes into degraded mode
+   * or the call was only estimated (placeholder answer)
+   */
+  private async askOrSkip<T>(check: string, call: () => Promise<T>): Promise<T | null> {
+    try {
+      const result = await call();
+
+      if (isEstimateOnly()) {
+        console.log(`🧮 Estimate only, not evaluating ${check}`);
+        return null;
+      }
+
+      return result;
+    } catch (error) {
+      if (error instanceof AIDegradedError) {
+        console.warn(`⚠️  ${error.message}, skipping ${check}`);
+        return null;
+      }
+      throw error;
+    }
   }
 }
 
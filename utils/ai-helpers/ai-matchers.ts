@@ -0,0 +1,202 @@
+/**
+ * AI Expect Matchers - AI assertions as Playwright expect matchers
+ *
+ * Registered on the expect exported by fixtures/ai-fixtures.ts:
+ *
+ *   await expect(page).toMatchVisualDescription('a login form with an error message');
+ *   await expect(page.locator('.status')).toMeanSemantically('the order was shipped');
+ *   await expect(page).toHaveLayout('sidebar on the left of the content');
+ *   await expect(page.getByRole('form')).toBeAccessibleByAI({ focus: 'form labels' });
+ *   await expect(page).not.toMatchVisualDescription('an error banner');
+ *   await expect(page.locator('#cart')).toMatchAIDescriptionSnapshot('cart');
+ *
+ * Unlike the aiAssert helpers, the matchers poll: the check runs again
+ * until the condition holds (with .not, until the model confidently says
+ * it doesn't) or the timeout expires. With .not, the failing verdict is the
+ * one cross-checked on pages that look like prompt injection. Inconclusive verdicts keep polling,
+ * and fail both ways at the end unless the inconclusive policy is warn.
+ * Use expect.soft(...) for soft assertions.
+ *
+ * The timeout is the expect timeout (5s unless configured) or the timeout
+ * option. The first check always runs to completion, so an AI call slower
+ * than the timeout means a single check.
+ *
+ * When AI assertions are skipped (disabled, unavailable, degraded or only
+ * estimated), the matchers pass, with or without .not. toBeAccessibleByAI
+ * is only skipped when AI assertions are disabled: its verdict comes from
+ * the WCAG rule engine.
+ */
+
+import { ExpectMatcherState, Locator, MatcherReturnType, Page, test } from '@playwright/test';
+import { getInconclusivePolicy } from '../../config/ai-confidence';
+import {
+  AccessibilityOptions,
+  AssertionOptions,
+  AssertionResult,
+  DescriptionSnapshotOptions,
+  ScopedAssertionOptions,
+  aiAssert,
+} from './ai-assertions';
+import { getDefaultSnapshotName } from './description-snapshot';
+import { getAccessibilityFailOn } from './wcag-rules';
+
+export interface AIMatcherOptions {
+  /** How long to poll, in milliseconds (default: the expect timeout) */
+  timeout?: number;
+  /** Waits between checks in milliseconds, the last one repeats (default: [1000, 2000, 5000]) */
+  intervals?: number[];
+}
+
+/** Soft mode comes from expect.soft and negation from .not, not from the assertion options */
+type MatcherControlled = 'soft' | 'negated';
+
+export type AIMatcherAssertionOptions = Omit<AssertionOptions, MatcherControlled> & AIMatcherOptions;
+export type AIScopedMatcherOptions = Omit<ScopedAssertionOptions, MatcherControlled> & AIMatcherOptions;
+export type AIAccessibilityMatcherOptions = Omit<AccessibilityOptions, MatcherControlled> &
+  AIMatcherOptions & { focus?: string };
+export type AIDescriptionSnapshotMatcherOptions = Omit<DescriptionSnapshotOptions, MatcherControlled> & AIMatcherOptions;
+
+const DEFAULT_INTERVALS = [1000, 2000, 5000];
+const DEFAULT_EXPECT_TIMEOUT = 5000;
+
+/**
+ * Run a check until it settles or the timeout expires, and build the matcher result
+ */
+async function poll(
+  state: ExpectMatcherState,
+  name: string,
+  expected: string,
+  options: AIMatcherAssertionOptions,
+  check: () => Promise<AssertionResult>
+): Promise<MatcherReturnType> {
+  const timeout = options.timeout ?? state.timeout ?? DEFAULT_EXPECT_TIMEOUT;
+  const intervals = options.intervals ?? DEFAULT_INTERVALS;
+  const deadline = Date.now() + timeout;
+  const log: string[] = [];
+
+  let result: AssertionResult;
+  for (let attempt = 0; ; attempt++) {
+    result = await check();
+    log.push(
+      `  - check ${attempt + 1}: ${result.status}` +
+      (result.confidence !== undefined ? ` (confidence: ${result.confidence})` : '')
+    );
+
+    const settled =
+      result.final || result.status === 'skipped' || result.status === (state.isNot ? 'failed' : 'passed');
+    const wait = intervals[Math.min(attempt, intervals.length - 1)];
+    if (settled || Date.now() + wait >= deadline) {
+      break;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+
+  const inconclusiveWarning =
+    result.status === 'inconclusive' && (options.onInconclusive ?? getInconclusivePolicy()) === 'warn';
+  if (inconclusiveWarning) {
+    console.warn(`⚠️  ${result.message}`);
+  }
+
+  // Playwright fails a .not matcher when pass is true
+  const pass =
+    result.status === 'skipped' || inconclusiveWarning
+      ? !state.isNot
+      : result.status === 'inconclusive'
+        ? state.isNot
+        : result.status === 'passed';
+
+  const details = result.status === 'passed' ? `Explanation: ${result.explanation}` : result.message;
+  const message = () =>
+    state.utils.matcherHint(name, undefined, undefined, { isNot: state.isNot, promise: state.promise }) +
+    '\n\n' +
+    `Expected: ${state.isNot ? 'not ' : ''}${state.utils.printExpected(expected)}\n` +
+    `Received: ${result.status}` +
+    (result.confidence !== undefined ? ` (confidence: ${result.confidence})` : '') +
+    `\n\n${details}\n\n` +
+    `Checks (timeout ${timeout}ms):\n${log.join('\n')}`;
+
+  return { pass, message, name, expected, actual: result.status, log };
+}
+
+/**
+ * Matchers for expect.extend
+ */
+export const aiMatchers = {
+  /**
+   * The page (or element) matches a natural language description, judged on a screenshot
+   */
+  async toMatchVisualDescription(
+    this: ExpectMatcherState,
+    received: Page | Locator,
+    description: string,
+    options: AIScopedMatcherOptions = {}
+  ): Promise<MatcherReturnType> {
+    return poll(this, 'toMatchVisualDescription', description, options, () =>
+      aiAssert.checkVisualState(received, description, { ...options, negated: this.isNot })
+    );
+  },
+
+  /**
+   * The text of the element means the same as the expected meaning, in any wording
+   */
+  async toMeanSemantically(
+    this: ExpectMatcherState,
+    received: Locator,
+    expectedMeaning: string,
+    options: AIMatcherAssertionOptions = {}
+  ): Promise<MatcherReturnType> {
+    return poll(this, 'toMeanSemantically', expectedMeaning, options, () =>
+      aiAssert.checkSemanticContent(received, expectedMeaning, { ...options, negated: this.isNot })
+    );
+  },
+
+  /**
+   * The layout of the page (or element) matches a description
+   */
+  async toHaveLayout(
+    this: ExpectMatcherState,
+    received: Page | Locator,
+    description: string,
+    options: AIScopedMatcherOptions = {}
+  ): Promise<MatcherReturnType> {
+    return poll(this, 'toHaveLayout', description, options, () =>
+      aiAssert.checkLayout(received, description, { ...options, negated: this.isNot })
+    );
+  },
+
+  /**
+   * No WCAG violation at or above the failOn impact on the page (or
+   * element), the AI prioritises the violations found
+   */
+  async toBeAccessibleByAI(
+    this: ExpectMatcherState,
+    received: Page | Locator,
+    options: AIAccessibilityMatcherOptions = {}
+  ): Promise<MatcherReturnType> {
+    const failOn = options.failOn ?? getAccessibilityFailOn();
+    const expected = `no WCAG violations at ${failOn} impact or above${options.focus ? ` (focus: ${options.focus})` : ''}`;
+
+    return poll(this, 'toBeAccessibleByAI', expected, options, () =>
+      aiAssert.checkAccessible(received, options.focus, { ...options, negated: this.isNot })
+    );
+  },
+
+  /**
+   * A fresh AI description of the page (or element) matches the reviewed
+   * snapshot semantically (the first run writes it, see description-snapshot.ts)
+   */
+  async toMatchAIDescriptionSnapshot(
+    this: ExpectMatcherState,
+    received: Page | Locator,
+    name?: string,
+    options: AIDescriptionSnapshotMatcherOptions = {}
+  ): Promise<MatcherReturnType> {
+    // Named once, not on every poll
+    const snapshotName = name ?? getDefaultSnapshotName(test.info());
+
+    return poll(this, 'toMatchAIDescriptionSnapshot', snapshotName, options, () =>
+      aiAssert.checkDescriptionSnapshot(received, snapshotName, { ...options, negated: this.isNot })
+    );
+  },
+};
@@ -0,0 +1,131 @@
+/**
+ * Description Snapshots - Structured AI descriptions of a page or element,
+ * stored as reviewed snapshot files (aiAssert.expectDescriptionSnapshot and
+ * expect(...).toMatchAIDescriptionSnapshot())
+ *
+ * The first run asks the model to describe the page: its components with
+ * their place in the hierarchy, visible texts and states. The description
+ * is written next to the spec, where aria snapshots go (<spec>-snapshots/
+ * by default), as <name>.ai.json, to be reviewed and committed. Later runs
+ * describe the page again and compare both descriptions semantically, so
+ * rewording by the model is not a difference.
+ *
+ * Snapshots are written and updated like Playwright snapshots
+ * (--update-snapshots): see visual-baseline.ts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestInfo } from '@playwright/test';
+import { JSONSchema } from '../../config/ai-json';
+
+export interface DescribedComponent {
+  /** Place in the hierarchy, e.g. "main > form 'Sign in'" */
+  path: string;
+  /** Kind of component, e.g. "button", "navigation", "product card" */
+  type: string;
+  /** Accessible name or heading, '' when it has none */
+  label: string;
+  /** Visible texts, verbatim */
+  texts: string[];
+  /** e.g. "disabled", "selected", "expanded", "error" */
+  states: string[];
+}
+
+export interface AIDescription {
+  summary: string;
+  components: DescribedComponent[];
+}
+
+export const DESCRIPTION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    components: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          type: { type: 'string' },
+          label: { type: 'string' },
+          texts: { type: 'array', items: { type: 'string' } },
+          states: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['path', 'type', 'label', 'texts', 'states'],
+      },
+    },
+  },
+  required: ['summary', 'components'],
+};
+
+/**
+ * Content of a snapshot file
+ */
+export interface DescriptionSnapshot {
+  name: string;
+  /** What was described, e.g. "page" or "locator('#cart')" */
+  target: string;
+  /** Prompt template the description was written with */
+  prompt: string;
+  description: AIDescription;
+}
+
+const snapshotCounters = new WeakMap<TestInfo, number>();
+
+/**
+ * Name for a snapshot without an explicit name: the test title and a
+ * counter, so each call in a test gets its own file
+ */
+export function getDefaultSnapshotName(testInfo: TestInfo): string {
+  const count = (snapshotCounters.get(testInfo) ?? 0) + 1;
+  snapshotCounters.set(testInfo, count);
+
+  return `${testInfo.titlePath.slice(1).join(' ')}-${count}`;
+}
+
+/**
+ * Snapshot file for a name in the current test (aria snapshot location:
+ * shared by projects and browsers, the description doesn't depend on them)
+ */
+export function getSnapshotPath(testInfo: TestInfo, name: string): string {
+  const baseName = name.replace(/\.ai\.json$/i, '').replace(/[^a-zA-Z0-9._-]+/g, '-');
+
+  // snapshotPath() turns the inner dot of ".ai.json" into a dash, so only its directory is used
+  const snapshotDir = path.dirname(testInfo.snapshotPath(`${baseName}.json`, { kind: 'aria' }));
+  return path.join(snapshotDir, `${baseName}.ai.json`);
+}
+
+export function readSnapshot(snapshotPath: string): DescriptionSnapshot {
+  const snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as DescriptionSnapshot;
+
+  if (!snapshot.description || !Array.isArray(snapshot.description.components)) {
+    throw new Error(`Invalid description snapshot (no description.components): ${snapshotPath}`);
+  }
+
+  return snapshot;
+}
+
+export function writeSnapshot(snapshotPath: string, snapshot: DescriptionSnapshot): void {
+  fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+  fs.writeFileSync(snapshotPath, JSON.stringify(snapshot, null, 2) + '\n');
+}
+
+/**
+ * Compact text form of a description for the comparison prompt
+ */
+export function formatDescription(description: AIDescription): string {
+  const lines = [`Summary: ${description.summary}`];
+
+  for (const component of description.components) {
+    const label = component.label ? ` "${component.label}"` : '';
+    const states = component.states.length > 0 ? ` [${component.states.join(', ')}]` : '';
+    lines.push(`- ${component.path}: ${component.type}${label}${states}`);
+
+    for (const text of component.texts) {
+      lines.push(`    text: ${text}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,203 @@
+/**
+ * Element Capture - Screenshots of one element for AI assertions
+ *
+ * Instead of the whole page, the model gets a crop of the element with a
+ * small margin of surrounding page, optionally a full-page thumbnail with
+ * the element outlined in red, and a text description: its bounding box
+ * and ARIA snapshot (roles, names, states).
+ *
+ * Sensitive elements are masked as in full-page screenshots.
+ *
+ * Configuration (.env):
+ *   AI_ELEMENT_PADDING=16        (page margin around the crop, in CSS pixels, default: 16)
+ *   AI_ELEMENT_THUMBNAIL=false   (add the full-page thumbnail by default, default: false)
+ */
+
+import { Locator, Page } from '@playwright/test';
+import { AIContentBlock, AIFeature } from '../../config/ai-request';
+import { takeRedactedScreenshot } from '../../config/ai-redaction';
+import { wrapUntrusted } from '../../config/ai-injection';
+
+/**
+ * Scope of a visual AI assertion
+ */
+export interface ElementScopeOptions {
+  /** Judge this element (selector or Locator) instead of the whole page */
+  element?: string | Locator;
+  /** Page margin around the element crop, in CSS pixels */
+  padding?: number;
+  /** Add a small full-page thumbnail with the element outlined */
+  thumbnail?: boolean;
+}
+
+export interface ElementBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ElementCapture {
+  locator: Locator;
+  /** Padded crop of the element (PNG) */
+  crop: Buffer;
+  /** Full-page thumbnail with the element outlined (PNG) */
+  thumbnail?: Buffer;
+  /** Element position in page coordinates (CSS pixels) */
+  box: ElementBox;
+  ariaSnapshot: string;
+}
+
+const THUMBNAIL_MAX_WIDTH = 320;
+const THUMBNAIL_MAX_HEIGHT = 960;
+const MAX_ARIA_SNAPSHOT_CHARS = 1500;
+
+function getDefaultPadding(): number {
+  const padding = parseInt(process.env.AI_ELEMENT_PADDING || '16', 10);
+  return Number.isNaN(padding) || padding < 0 ? 16 : padding;
+}
+
+/**
+ * Page and element (null for the whole page) a visual assertion applies to
+ */
+export function resolveAssertionTarget(
+  target: Page | Locator,
+  options: ElementScopeOptions = {}
+): { page: Page; element: Locator | null } {
+  if (isLocator(target)) {
+    return { page: target.page(), element: target };
+  }
+
+  const element = typeof options.element === 'string' ? target.locator(options.element) : options.element ?? null;
+  return { page: target, element };
+}
+
+function isLocator(target: Page | Locator): target is Locator {
+  return typeof (target as Locator).page === 'function';
+}
+
+/**
+ * Screenshot one element with its surroundings, for the AI
+ *
+ * @throws Error if the element is not visible or matches several elements
+ */
+export async function captureElement(
+  element: Locator,
+  options: ElementScopeOptions = {},
+  feature?: AIFeature
+): Promise<ElementCapture> {
+  const page = element.page();
+  const padding = options.padding ?? getDefaultPadding();
+
+  await element.waitFor({ state: 'visible' });
+
+  // Page coordinates, so crops of elements outside the viewport work too
+  const { box, documentWidth, documentHeight } = await element.evaluate((el) => {
+    const rect = el.getBoundingClientRect();
+    return {
+      box: { x: rect.left + window.scrollX, y: rect.top + window.scrollY, width: rect.width, height: rect.height },
+      documentWidth: document.documentElement.scrollWidth,
+      documentHeight: document.documentElement.scrollHeight,
+    };
+  });
+
+  if (box.width === 0 || box.height === 0) {
+    throw new Error(`Element has no size, nothing to screenshot: ${element}`);
+  }
+
+  const x = Math.max(0, box.x - padding);
+  const y = Math.max(0, box.y - padding);
+  const clip = {
+    x,
+    y,
+    width: Math.min(documentWidth, box.x + box.width + padding) - x,
+    height: Math.min(documentHeight, box.y + box.height + padding) - y,
+  };
+
+  const crop = await takeRedactedScreenshot(page, { fullPage: true, clip }, feature);
+
+  const withThumbnail = options.thumbnail ?? process.env.AI_ELEMENT_THUMBNAIL === 'true';
+  const thumbnail = withThumbnail
+    ? await renderThumbnail(page, await takeRedactedScreenshot(page, { fullPage: true }, feature), box, documentWidth)
+    : undefined;
+
+  return {
+    locator: element,
+    crop,
+    thumbnail,
+    box,
+    ariaSnapshot: truncateAriaSnapshot(await element.ariaSnapshot()),
+  };
+}
+
+/**
+ * Keep an ARIA snapshot within a prompt budget
+ */
+export function truncateAriaSnapshot(ariaSnapshot: string, maxChars: number = MAX_ARIA_SNAPSHOT_CHARS): string {
+  return ariaSnapshot.length > maxChars ? `${ariaSnapshot.slice(0, maxChars)}\n[truncated]` : ariaSnapshot;
+}
+
+/**
+ * Downscale a full-page screenshot and outline the element, in the browser
+ */
+async function renderThumbnail(page: Page, screenshot: Buffer, box: ElementBox, documentWidth: number): Promise<Buffer> {
+  const base64 = await page.evaluate(
+    async ({ data, box, documentWidth, maxWidth, maxHeight }) => {
+      const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+      const bitmap = await createImageBitmap(new Blob([bytes], { type: 'image/png' }));
+
+      // Screenshot pixels per CSS pixel (device scale factor)
+      const ratio = bitmap.width / documentWidth;
+      const scale = Math.min(1, maxWidth / bitmap.width, maxHeight / bitmap.height);
+
+      const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+      const context = canvas.getContext('2d')!;
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      context.strokeStyle = '#ff0000';
+      context.lineWidth = 2;
+      context.strokeRect(box.x * ratio * scale, box.y * ratio * scale, box.width * ratio * scale, box.height * ratio * scale);
+
+      const png = new Uint8Array(await (await canvas.convertToBlob({ type: 'image/png' })).arrayBuffer());
+      let binary = '';
+      for (let i = 0; i < png.length; i += 0x8000) {
+        binary += String.fromCharCode(...png.subarray(i, i + 0x8000));
+      }
+      return btoa(binary);
+    },
+    {
+      data: screenshot.toString('base64'),
+      box,
+      documentWidth,
+      maxWidth: THUMBNAIL_MAX_WIDTH,
+      maxHeight: THUMBNAIL_MAX_HEIGHT,
+    }
+  );
+
+  return Buffer.from(base64, 'base64');
+}
+
+/**
+ * Text for the prompt's element section (box and ARIA snapshot)
+ */
+export function describeElement(capture: ElementCapture): string {
+  const { x, y, width, height } = capture.box;
+  const round = (value: number) => Math.round(value);
+
+  return [
+    `Locator: ${capture.locator}`,
+    `Bounding box (CSS pixels, page coordinates): x=${round(x)}, y=${round(y)}, width=${round(width)}, height=${round(height)}`,
+    'ARIA snapshot:',
+    wrapUntrusted('aria-snapshot', capture.ariaSnapshot),
+  ].join('\n');
+}
+
+/**
+ * Image blocks of a capture: the crop, then the thumbnail
+ */
+export function toImageBlocks(capture: ElementCapture): AIContentBlock[] {
+  const blocks: AIContentBlock[] = [{ type: 'image', data: capture.crop.toString('base64'), mediaType: 'image/png' }];
+  if (capture.thumbnail) {
+    blocks.push({ type: 'image', data: capture.thumbnail.toString('base64'), mediaType: 'image/png' });
+  }
+  return blocks;
+}
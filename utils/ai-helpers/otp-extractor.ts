@@ -9,10 +9,14 @@
  * - More resilient to format changes
  * - Very low cost (~$0.0001 per extraction using Haiku)
  *
- * Falls back to regex patterns if AI is disabled.
+ * Falls back to regex patterns if AI is disabled or unavailable
+ * (no ANTHROPIC_API_KEY), following the 'otp' degradation policy.
  */
 
 import { aiClient } from '../../config/ai-client';
+import { ensureAIAvailable, isAIAvailable } from '../../config/ai-availability';
+import { prompts } from '../../config/ai-prompts';
+import { wrapUntrusted } from '../../config/ai-injection';
 
 export class OTPExtractor {
   private enableAI: boolean;
@@ -30,7 +34,7 @@ export class OTPExtractor {
    */
   async extractOTP(emailContent: string, subject?: string): Promise<string> {
     // Try AI extraction first (more robust)
-    if (this.enableAI) {
+    if (this.enableAI && ensureAIAvailable('otp')) {
       try {
         return await this.extractWithAI(emailContent, subject);
       } catch (error) {
@@ -44,30 +48,21 @@ export class OTPExtractor {
   }
 
   /**
-   * Extract OTP using Claude AI (Haiku model for low cost)
+   * Extract OTP using Claude AI (routed to Haiku by default for low cost)
+   *
+   * Throws instead of falling back to regex; used directly by the eval
+   * harness (scripts/eval-models.ts).
    */
-  private async extractWithAI(emailContent: string, subject?: string): Promise<string> {
-    const contextMessage = subject ? `Email subject: ${subject}\n\n` : '';
-
-    const prompt = `${contextMessage}Extract the verification code (OTP) from this email content.
-
-Requirements:
-- Return ONLY the numeric or alphanumeric code
-- No explanations, no extra text, just the code
-- If there are multiple codes, return the most prominent one
-- Common patterns: 6-digit numbers, 4-digit PINs, alphanumeric codes
-
-Email content:
-${emailContent.slice(0, 2000)}`; // Limit content to reduce tokens
-
-    const response = await aiClient.ask(
-      prompt,
-      'You are an OTP code extractor. Return only the code, nothing else.',
-      {
-        model: 'haiku', // Cheap and fast
-        maxTokens: 64,
-      }
-    );
+  async extractWithAI(emailContent: string, subject?: string): Promise<string> {
+    const prompt = prompts.render('otp.extract', {
+      subject: subject && wrapUntrusted('email-subject', subject),
+      emailContent: wrapUntrusted('email', emailContent.slice(0, 2000)), // Limit content to reduce tokens
+    });
+
+    const response = await aiClient.ask(prompt.user, prompt.system, {
+      feature: 'otp',
+      prompt: prompt.ref,
+    });
 
     const code = response.trim();
 
@@ -76,6 +71,12 @@ ${emailContent.slice(0, 2000)}`; // Limit content to reduce tokens
       throw new Error(`Invalid OTP code extracted: ${code}`);
     }
 
+    // An email can't talk the model into inventing a code: it has to be in the email
+    const normalize = (text: string) => text.replace(/[\s-]/g, '');
+    if (!normalize(`${subject || ''} ${emailContent}`).includes(normalize(code))) {
+      throw new Error(`Extracted OTP code does not appear in the email: ${code}`);
+    }
+
     return code;
   }
 
@@ -135,6 +136,6 @@ ${emailContent.slice(0, 2000)}`; // Limit content to reduce tokens
    * Check if OTP extraction is available
    */
   isAvailable(): boolean {
-    return this.enableAI && !!process.env.ANTHROPIC_API_KEY;
+    return this.enableAI && isAIAvailable();
   }
 }
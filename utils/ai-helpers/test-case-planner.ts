@@ -1,5 +1,10 @@
 import { chromium, Page } from '@playwright/test';
 import { aiClient } from '../../config/ai-client';
+import { ensureAIAvailable } from '../../config/ai-availability';
+import { formatPromptRef, prompts } from '../../config/ai-prompts';
+import { takeRedactedScreenshot } from '../../config/ai-redaction';
+import { ESTIMATE_FLAG, handleEstimateFlag, isEstimateOnly } from '../../config/ai-estimate';
+import { wrapUntrusted } from '../../config/ai-injection';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -28,6 +33,8 @@ export class TestCasePlanner {
       exploreDuration = 5000,
     } = options;
 
+    ensureAIAvailable('planning');
+
     console.log(`📋 Generating test case documentation for: ${screenName}`);
 
     let screenshotBase64: string;
@@ -58,6 +65,11 @@ export class TestCasePlanner {
       interactiveElements
     );
 
+    if (isEstimateOnly()) {
+      console.log('🧮 Estimate only, no documentation written');
+      return '';
+    }
+
     // Save the documentation
     const fileName = `${screenName.toUpperCase()}-TEST-CASES.md`;
     const fullPath = path.join(outputPath, fileName);
@@ -87,7 +99,7 @@ export class TestCasePlanner {
       await page.waitForTimeout(exploreDuration);
 
       const pageTitle = await page.title();
-      const screenshot = await page.screenshot({ fullPage: true });
+      const screenshot = await takeRedactedScreenshot(page, { fullPage: true }, 'planning');
       const screenshotBase64 = screenshot.toString('base64');
       const interactiveElements = await this.extractInteractiveElements(page);
 
@@ -186,159 +198,48 @@ export class TestCasePlanner {
       .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
       .join(' ');
 
-    const prompt = `
-Analyze this screenshot of a web application screen and generate comprehensive MANUAL TEST CASE DOCUMENTATION.
-
-Screen Name: ${screenNameTitle}
-${pageTitle ? `Page Title: ${pageTitle}` : ''}
-${interactiveElements.length > 0 ? `Interactive Elements Found:\n${JSON.stringify(interactiveElements, null, 2)}` : ''}
-
-Your task is to create a detailed test case document in Markdown format that:
-
-1. **Identifies Test Scenarios**: Group related test cases into logical scenarios
-2. **Creates Test Cases**: For each test case, include:
-   - Test Case ID (format: TC-${screenNameUpper.substring(0, 2)}-XXX, starting from 001)
-   - Test Name (descriptive, actionable)
-   - Priority (P1 for critical path, P2 for important features, P3 for nice-to-have)
-   - Type (Functional, UI/UX, Negative Testing, Performance, Security, etc.)
-   - Preconditions (what must be true before test)
-   - Steps (numbered, clear, actionable)
-   - Expected Result (what should happen)
-   - Notes (automation recommendations, edge cases, etc.)
-
-3. **Prioritize Tests**:
-   - P1 (Alta): Critical path, must work, high risk if broken
-   - P2 (Media): Important features, should work, medium risk
-   - P3 (Baja): Nice-to-have, edge cases, low risk
-
-4. **Provide Summary**:
-   - Total test cases count
-   - Breakdown by priority (P1/P2/P3)
-   - Recommended tests for automation (P1 tests)
-   - Tests to document but not automate (P2/P3 tests)
-
-5. **Consider Multiple Aspects**:
-   - Happy path scenarios (positive testing)
-   - Error handling (negative testing)
-   - UI/UX validation (visual correctness)
-   - Edge cases and boundary conditions
-   - Accessibility considerations
-   - Cross-browser compatibility concerns
-
-IMPORTANT:
-- Write ALL content in ENGLISH ONLY
-- Use the format TC-${screenNameUpper.substring(0, 2)}-XXX for test case IDs
-- Be specific and actionable in test steps
-- Focus on MANUAL test documentation, not automated test code
-- Prioritize realistically (not everything is P1)
-- Include automation recommendations in Notes section
-
-Return ONLY the Markdown documentation following this structure:
-
-# ${screenNameTitle} - Test Cases
-
-Auto-generated from screenshot analysis on ${date}
-
-## Test Scenarios Identified
-
-[List main scenarios here]
-
----
-
-## Test Cases
-
-### TC-XX-001: [Test name] (P1 - Alta)
-
-**Priority:** P1 (Critical Path)
-**Type:** [Type]
-**Estimated Effort:** [Low/Medium/High]
-
-**Preconditions:**
-- [List preconditions]
-
-**Steps:**
-1. [Step 1]
-2. [Step 2]
-
-**Expected Result:**
-- [Expected outcome]
-
-**Notes:**
-- [Automation recommendations, edge cases, etc.]
-
----
-
-[More test cases...]
-
----
-
-## Summary
-
-**Total Test Cases:** X
-**P1 (Alta):** X test cases
-**P2 (Media):** X test cases
-**P3 (Baja):** X test cases
-
-**Recommended for Automation (P1):**
-- TC-XX-001: [Test name]
-- TC-XX-002: [Test name]
-
-**Document but Don't Automate (P2/P3):**
-- TC-XX-XXX: [Test name]
-- TC-XX-XXX: [Test name]
-
----
-
-## Next Steps
-
-1. Review and adjust priorities with team
-2. Add any missing scenarios or edge cases
-3. Use \`/new-screen ${screenName}\` command to automate P1 tests
-4. Keep P2/P3 as documentation for future implementation
-`;
-
-    const systemPrompt = `You are an expert QA Test Analyst specializing in test case design and documentation.
-Your role is to analyze application screenshots and create comprehensive, well-structured manual test case documentation.
-
-Focus on:
-- Identifying realistic test scenarios from visual analysis
-- Creating clear, actionable test cases with proper structure
-- Prioritizing tests appropriately (not everything is P1)
-- Providing automation recommendations
-- Considering multiple testing aspects (functional, UI/UX, negative, edge cases)
-
-IMPORTANT: Generate ALL documentation in English only.
-This includes test case names, steps, expected results, notes, and all other content.`;
+    const prompt = prompts.render('planning.test-cases', {
+      screenName,
+      screenNameTitle,
+      idPrefix: screenNameUpper.substring(0, 2),
+      date,
+      pageTitle: pageTitle && wrapUntrusted('page-title', pageTitle),
+      interactiveElements: interactiveElements.length > 0
+        ? wrapUntrusted('page-elements', JSON.stringify(interactiveElements, null, 2))
+        : '',
+    });
 
-    // Use Sonnet for balanced quality and cost in test planning
+    // Routed to Sonnet by default for balanced quality and cost in test planning
     const documentation = await aiClient.askWithImage(
-      prompt,
+      prompt.user,
       screenshotBase64,
       'image/png',
       {
-        model: 'sonnet',
-        maxTokens: 4096,
+        feature: 'planning',
+        prompt: prompt.ref,
       },
-      systemPrompt
+      prompt.system
     );
 
-    return documentation.trim();
+    // Record which prompt revision produced the document
+    return `<!-- prompt: ${formatPromptRef(prompt.ref)} -->\n${documentation.trim()}`;
   }
 }
 
 // CLI interface
 if (require.main === module) {
-  const args = process.argv.slice(2);
+  const args = handleEstimateFlag(process.argv.slice(2));
 
   if (args.length < 2) {
     console.log(`
 📋 Test Case Planner - Generate manual test documentation from screenshots
 
-Usage: npm run ai:plan-tests <url-or-screenshot> <screen-name>
+Usage: npm run ai:plan-tests <url-or-screenshot> <screen-name> [${ESTIMATE_FLAG}]
 
 Arguments:
   url-or-screenshot  URL to capture screenshot from OR path to existing screenshot
   screen-name        Name for the screen (used in file naming and test IDs)
+  ${ESTIMATE_FLAG}         Print the estimated AI cost without calling the API
 
 Examples:
   # From URL
@@ -376,6 +277,7 @@ Next steps after generation:
   planner
     .generateTestCases({ urlOrScreenshot, screenName })
     .then((filePath) => {
+      if (!filePath) return;
       console.log(`\n🎉 Test case documentation saved to: ${filePath}`);
       console.log('\nNext steps:');
       console.log('1. Review the generated test cases');
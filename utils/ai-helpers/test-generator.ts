@@ -1,5 +1,10 @@
 import { chromium, Page } from '@playwright/test';
 import { aiClient } from '../../config/ai-client';
+import { ensureAIAvailable } from '../../config/ai-availability';
+import { formatPromptRef, prompts } from '../../config/ai-prompts';
+import { takeRedactedScreenshot } from '../../config/ai-redaction';
+import { ESTIMATE_FLAG, handleEstimateFlag, isEstimateOnly } from '../../config/ai-estimate';
+import { wrapUntrusted } from '../../config/ai-injection';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -19,6 +24,8 @@ export class TestGenerator {
       exploreDuration = 5000,
     } = options;
 
+    ensureAIAvailable('generation');
+
     console.log(`🤖 Generating tests for: ${url}`);
 
     const browser = await chromium.launch({ headless: true });
@@ -32,61 +39,41 @@ export class TestGenerator {
       // Capture page information
       const pageTitle = await page.title();
       const pageHTML = await page.content();
-      const screenshot = await page.screenshot({ fullPage: true });
+      const screenshot = await takeRedactedScreenshot(page, { fullPage: true }, 'generation');
       const screenshotBase64 = screenshot.toString('base64');
 
       // Get interactive elements
       const interactiveElements = await this.extractInteractiveElements(page);
 
       // Generate tests using AI
-      const prompt = `
-Analyze this web page and generate comprehensive Playwright tests.
-
-URL: ${url}
-Page Title: ${pageTitle}
-${description ? `User Description: ${description}` : ''}
-
-Interactive Elements Found:
-${JSON.stringify(interactiveElements, null, 2)}
-
-Generate a complete Playwright test file that:
-1. Tests the main user flows and interactions
-2. Validates key elements are present
-3. Tests form submissions if applicable
-4. Includes proper assertions
-5. Uses modern Playwright best practices with TypeScript
-6. Uses data-testid selectors where possible, falling back to accessible roles
-
-IMPORTANT: Write ALL code, comments, and test descriptions in ENGLISH ONLY.
-
-Return ONLY the TypeScript code for the test file, including necessary imports.
-Start with:
-import { test, expect } from '@playwright/test';
-
-Make the tests descriptive and maintainable.
-`;
-
-      const systemPrompt = `You are an expert QA automation engineer specializing in Playwright test creation.
-Generate clean, maintainable, and comprehensive test code following industry best practices.
-Focus on user-centric test scenarios and proper error handling.
-
-IMPORTANT: Generate ALL code, comments, test descriptions, and variable names in English only.
-This includes test case names, assertion messages, JSDoc comments, and any inline comments.`;
+      const prompt = prompts.render('generation.tests', {
+        url,
+        pageTitle: wrapUntrusted('page-title', pageTitle),
+        description,
+        interactiveElements: wrapUntrusted('page-elements', JSON.stringify(interactiveElements, null, 2)),
+      });
 
-      // Use Sonnet for balanced quality and cost in test generation
+      // Routed to Sonnet by default for balanced quality and cost in test generation
       const testCode = await aiClient.askWithImage(
-        prompt,
+        prompt.user,
         screenshotBase64,
         'image/png',
         {
-          model: 'sonnet',
-          maxTokens: 4096
+          feature: 'generation',
+          prompt: prompt.ref,
         },
-        systemPrompt
+        prompt.system
       );
 
-      // Extract code from markdown if present
-      const cleanedCode = this.extractCodeFromMarkdown(testCode);
+      if (isEstimateOnly()) {
+        console.log('🧮 Estimate only, no test file written');
+        return '';
+      }
+
+      // Extract code from markdown if present, and record which prompt produced it
+      const cleanedCode =
+        `// Generated by npm run ai:generate (prompt: ${formatPromptRef(prompt.ref)})\n` +
+        this.extractCodeFromMarkdown(testCode);
 
       // Save the generated test
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -173,11 +160,13 @@ This includes test case names, assertion messages, JSDoc comments, and any inlin
 
 // CLI interface
 if (require.main === module) {
-  const args = process.argv.slice(2);
+  const args = handleEstimateFlag(process.argv.slice(2));
 
   if (args.length === 0) {
     console.log(`
-Usage: npm run ai:generate <url> [description]
+Usage: npm run ai:generate <url> [description] [${ESTIMATE_FLAG}]
+
+  ${ESTIMATE_FLAG}  Print the estimated AI cost without calling the API
 
 Example:
   npm run ai:generate https://example.com "Login flow tests"
@@ -192,6 +181,7 @@ Example:
   generator
     .generateTests({ url, description })
     .then((filePath) => {
+      if (!filePath) return;
       console.log(`\n🎉 Tests saved to: ${filePath}`);
       console.log('\nRun them with: npm test');
     })
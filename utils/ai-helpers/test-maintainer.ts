@@ -1,6 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { aiClient } from '../../config/ai-client';
+import { ensureAIAvailable } from '../../config/ai-availability';
+import { JSONSchema } from '../../config/ai-json';
+import { formatPromptRef, prompts } from '../../config/ai-prompts';
+import { ESTIMATE_FLAG, handleEstimateFlag, isEstimateOnly } from '../../config/ai-estimate';
 import { glob } from 'glob';
 
 interface MaintenanceReport {
@@ -8,8 +12,28 @@ interface MaintenanceReport {
   issues: string[];
   suggestions: string[];
   codeQuality: number;
+  /** Prompt template the analysis came from, e.g. "maintenance.analyze@1.0.0" */
+  prompt?: string;
 }
 
+interface AnalysisResult {
+  codeQuality: number;
+  issues: string[];
+  suggestions: string[];
+  criticalProblems?: string[];
+}
+
+const ANALYSIS_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    codeQuality: { type: 'number', minimum: 0, maximum: 100 },
+    issues: { type: 'array', items: { type: 'string' } },
+    suggestions: { type: 'array', items: { type: 'string' } },
+    criticalProblems: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['codeQuality', 'issues', 'suggestions'],
+};
+
 export class TestMaintainer {
   private testDir: string;
 
@@ -21,6 +45,8 @@ export class TestMaintainer {
    * Analyze all tests and provide maintenance recommendations
    */
   async analyzeTests(): Promise<MaintenanceReport[]> {
+    ensureAIAvailable('maintenance');
+
     console.log('🔍 Analyzing test suite...\n');
 
     const testFiles = await glob(`${this.testDir}/**/*.spec.ts`);
@@ -47,50 +73,22 @@ export class TestMaintainer {
   private async analyzeTestFile(filePath: string): Promise<MaintenanceReport> {
     const content = fs.readFileSync(filePath, 'utf-8');
 
-    const prompt = `
-Analyze this Playwright test file for maintenance issues and improvements:
-
-\`\`\`typescript
-${content}
-\`\`\`
-
-Evaluate:
-1. Code quality and maintainability
-2. Test organization and structure
-3. Selector reliability (prefer data-testid, roles)
-4. DRY principle violations
-5. Hard-coded values that should be constants
-6. Missing error handling
-7. Outdated patterns
-8. Performance concerns
-9. Test flakiness risks
-
-Provide a JSON response:
-{
-  "codeQuality": 0-100,
-  "issues": ["list of specific issues found"],
-  "suggestions": ["actionable improvements"],
-  "criticalProblems": ["urgent issues that need fixing"]
-}
-`;
-
-    const systemPrompt = `You are a senior QA automation engineer expert in Playwright and test maintenance.
-Provide specific, actionable feedback. Be thorough but practical.
-IMPORTANT: All issues, suggestions, and feedback must be written in English only.`;
+    const prompt = prompts.render('maintenance.analyze', { content });
 
     try {
-      // Use Sonnet for test analysis (needs good understanding of code patterns)
-      const response = await aiClient.ask(prompt, systemPrompt, {
-        model: 'sonnet',
-        maxTokens: 3072
+      // Routed to Sonnet by default (needs good understanding of code patterns)
+      const result = await aiClient.askJSON<AnalysisResult>(prompt.user, ANALYSIS_SCHEMA, {
+        feature: 'maintenance',
+        prompt: prompt.ref,
+        systemPrompt: prompt.system,
       });
-      const result = JSON.parse(this.extractJSON(response));
 
       return {
         file: filePath,
-        issues: [...(result.issues || []), ...(result.criticalProblems || [])],
-        suggestions: result.suggestions || [],
-        codeQuality: result.codeQuality || 50,
+        issues: [...result.issues, ...(result.criticalProblems || [])],
+        suggestions: result.suggestions,
+        codeQuality: result.codeQuality,
+        prompt: formatPromptRef(prompt.ref),
       };
     } catch (error) {
       console.error(`Error analyzing ${filePath}:`, error);
@@ -107,49 +105,29 @@ IMPORTANT: All issues, suggestions, and feedback must be written in English only
    * Automatically refactor a test file based on AI suggestions
    */
   async refactorTest(filePath: string, dryRun: boolean = true): Promise<string> {
+    ensureAIAvailable('maintenance');
+
     console.log(`\n♻️  Refactoring: ${filePath}`);
 
     const content = fs.readFileSync(filePath, 'utf-8');
 
-    const prompt = `
-Refactor this Playwright test file to improve maintainability:
-
-\`\`\`typescript
-${content}
-\`\`\`
-
-Apply these improvements:
-1. Extract hard-coded selectors to constants
-2. Replace brittle selectors with data-testid or roles
-3. Remove code duplication
-4. Improve test descriptions
-5. Add proper types
-6. Extract common logic to helper functions
-7. Improve error messages
-8. Add proper waits and assertions
-9. Follow Playwright best practices
-
-Return ONLY the refactored TypeScript code, no explanations.
-Preserve all test logic and coverage.
-
-IMPORTANT: All code, comments, and test descriptions must be in English only.
-`;
-
-    const systemPrompt = `You are an expert at refactoring Playwright tests.
-Output clean, maintainable code following best practices.
-Keep tests comprehensive while improving readability.
-IMPORTANT: Write all code, comments, and test descriptions in English only.`;
+    const prompt = prompts.render('maintenance.refactor', { content });
 
     try {
-      // Use Sonnet for refactoring (needs strong code understanding)
-      const response = await aiClient.ask(prompt, systemPrompt, {
-        model: 'sonnet',
-        maxTokens: 4096
+      // Routed to Sonnet by default (needs strong code understanding)
+      const response = await aiClient.ask(prompt.user, prompt.system, {
+        feature: 'maintenance',
+        prompt: prompt.ref,
       });
+      if (isEstimateOnly()) {
+        console.log('🧮 Estimate only, nothing to preview or apply');
+        return '';
+      }
+
       const refactoredCode = this.extractCodeFromMarkdown(response);
 
       if (dryRun) {
-        console.log('✅ Refactoring complete (dry run)');
+        console.log(`✅ Refactoring complete (dry run, prompt: ${formatPromptRef(prompt.ref)})`);
         console.log('Preview of changes:\n');
         console.log(refactoredCode);
         return refactoredCode;
@@ -161,7 +139,7 @@ IMPORTANT: Write all code, comments, and test descriptions in English only.`;
 
         // Write refactored code
         fs.writeFileSync(filePath, refactoredCode);
-        console.log(`✅ File updated: ${filePath}`);
+        console.log(`✅ File updated: ${filePath} (prompt: ${formatPromptRef(prompt.ref)})`);
 
         return refactoredCode;
       }
@@ -214,6 +192,11 @@ IMPORTANT: Write all code, comments, and test descriptions in English only.`;
       return;
     }
 
+    if (isEstimateOnly()) {
+      console.log(`\n🧮 Estimate only, no report for ${reports.length} file(s)`);
+      return;
+    }
+
     console.log('\n' + '='.repeat(80));
     console.log('TEST SUITE MAINTENANCE REPORT');
     console.log('='.repeat(80) + '\n');
@@ -255,20 +238,6 @@ IMPORTANT: Write all code, comments, and test descriptions in English only.`;
     console.log(`\n📋 Full report saved to: ${reportPath}`);
   }
 
-  private extractJSON(text: string): string {
-    const codeBlockMatch = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
-    if (codeBlockMatch) {
-      return codeBlockMatch[1].trim();
-    }
-
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return jsonMatch[0];
-    }
-
-    return text.trim();
-  }
-
   private extractCodeFromMarkdown(text: string): string {
     const codeBlockMatch = text.match(/```(?:typescript|ts)?\s*\n?([\s\S]*?)\n?```/);
     if (codeBlockMatch) {
@@ -283,8 +252,7 @@ IMPORTANT: Write all code, comments, and test descriptions in English only.`;
 if (require.main === module) {
   const maintainer = new TestMaintainer();
 
-  const command = process.argv[2];
-  const args = process.argv.slice(3);
+  const [command, ...args] = handleEstimateFlag(process.argv.slice(2));
 
   switch (command) {
     case 'analyze':
@@ -323,10 +291,13 @@ Usage:
   npm run ai:maintain refactor <file> --apply - Apply refactoring
   npm run ai:maintain update-selector <old> <new> - Update selectors across tests
 
+  Add ${ESTIMATE_FLAG} to analyze/refactor to print the estimated AI cost without calling the API
+
 Examples:
   npm run ai:maintain analyze
   npm run ai:maintain refactor tests/example.spec.ts
   npm run ai:maintain refactor tests/example.spec.ts --apply
+  npm run ai:maintain analyze ${ESTIMATE_FLAG}
   npm run ai:maintain update-selector "#old-id" "[data-testid='new-id']"
       `);
   }
@@ -0,0 +1,149 @@
+/**
+ * Visual Baselines - Stored screenshots and pixel diffs for AI-explained
+ * visual regression (aiAssert.expectNoMeaningfulVisualChange)
+ *
+ * Baselines are stored where Playwright stores toHaveScreenshot snapshots
+ * (next to the spec in <spec>-snapshots/ by default, suffixed with the
+ * project and platform), one per browser: <name>-<browser>-<project>-<platform>.png.
+ * They are taken with the redaction masks, so no secret ends up in the repo.
+ *
+ * Baselines are updated like Playwright snapshots (--update-snapshots):
+ *   missing (default)  a missing baseline is written and the check fails
+ *   none               a missing baseline fails, nothing is written
+ *   changed            baselines with a pixel difference are rewritten, without AI
+ *   all                every baseline is rewritten, without AI
+ *
+ * Configuration (.env):
+ *   AI_VISUAL_DIFF_THRESHOLD=0.1   (per-pixel colour tolerance from 0 to 1, default: 0.1)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page, TestInfo } from '@playwright/test';
+
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VisualDiff {
+  changedPixels: number;
+  totalPixels: number;
+  /** Bounding box of the changed pixels (screenshot pixels), null when nothing changed */
+  region: DiffRegion | null;
+  baselineSize: { width: number; height: number };
+  currentSize: { width: number; height: number };
+  /** Current screenshot faded, with the changed pixels in red (PNG) */
+  image: Buffer;
+}
+
+export function getDiffThreshold(): number {
+  const raw = process.env.AI_VISUAL_DIFF_THRESHOLD;
+  if (raw === undefined || raw === '') return 0.1;
+
+  const value = parseFloat(raw);
+  if (isNaN(value) || value < 0 || value > 1) {
+    throw new Error(`Invalid AI_VISUAL_DIFF_THRESHOLD: "${raw}" (expected a number between 0 and 1)`);
+  }
+
+  return value;
+}
+
+/**
+ * Baseline file of a named screenshot for the current test, project and browser
+ */
+export function getBaselinePath(testInfo: TestInfo, page: Page, name: string): string {
+  const browser = page.context().browser()?.browserType().name() ?? 'browser';
+  const baseName = name.replace(/\.png$/i, '').replace(/[^a-zA-Z0-9._-]+/g, '-');
+
+  return testInfo.snapshotPath(`${baseName}-${browser}.png`, { kind: 'screenshot' });
+}
+
+export function writeBaseline(baselinePath: string, screenshot: Buffer): void {
+  fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+  fs.writeFileSync(baselinePath, screenshot);
+}
+
+/**
+ * Compare two screenshots pixel by pixel, in the browser
+ *
+ * A pixel changed when one of its channels differs by more than the
+ * threshold. Screenshots of different sizes are compared on the larger
+ * size, the missing area counting as changed.
+ */
+export async function diffScreenshots(
+  page: Page,
+  baseline: Buffer,
+  current: Buffer,
+  threshold: number = getDiffThreshold()
+): Promise<VisualDiff> {
+  const result = await page.evaluate(
+    async ({ baseline, current, threshold }) => {
+      const load = (data: string) =>
+        createImageBitmap(new Blob([Uint8Array.from(atob(data), (c) => c.charCodeAt(0))], { type: 'image/png' }));
+      const [before, after] = await Promise.all([load(baseline), load(current)]);
+
+      const width = Math.max(before.width, after.width);
+      const height = Math.max(before.height, after.height);
+      const pixels = (bitmap: ImageBitmap) => {
+        const context = new OffscreenCanvas(width, height).getContext('2d')!;
+        context.drawImage(bitmap, 0, 0);
+        return context.getImageData(0, 0, width, height).data;
+      };
+      const a = pixels(before);
+      const b = pixels(after);
+
+      const canvas = new OffscreenCanvas(width, height);
+      const context = canvas.getContext('2d')!;
+      const diff = context.createImageData(width, height);
+      const tolerance = threshold * 255;
+      let changedPixels = 0;
+      let minX = width, minY = height, maxX = -1, maxY = -1;
+
+      for (let i = 0; i < a.length; i += 4) {
+        const changed =
+          Math.abs(a[i] - b[i]) > tolerance ||
+          Math.abs(a[i + 1] - b[i + 1]) > tolerance ||
+          Math.abs(a[i + 2] - b[i + 2]) > tolerance ||
+          Math.abs(a[i + 3] - b[i + 3]) > tolerance;
+
+        if (changed) {
+          const x = (i / 4) % width;
+          const y = Math.floor(i / 4 / width);
+          changedPixels++;
+          minX = Math.min(minX, x);
+          minY = Math.min(minY, y);
+          maxX = Math.max(maxX, x);
+          maxY = Math.max(maxY, y);
+          diff.data.set([255, 0, 0, 255], i);
+        } else {
+          // Faded grey of the current screenshot, so the red stands out
+          const grey = 0.3 * b[i] + 0.59 * b[i + 1] + 0.11 * b[i + 2];
+          const faded = Math.round(255 - (255 - grey) * 0.25);
+          diff.data.set([faded, faded, faded, 255], i);
+        }
+      }
+      context.putImageData(diff, 0, 0);
+
+      const png = new Uint8Array(await (await canvas.convertToBlob({ type: 'image/png' })).arrayBuffer());
+      let binary = '';
+      for (let i = 0; i < png.length; i += 0x8000) {
+        binary += String.fromCharCode(...png.subarray(i, i + 0x8000));
+      }
+
+      return {
+        changedPixels,
+        totalPixels: width * height,
+        region: maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+        baselineSize: { width: before.width, height: before.height },
+        currentSize: { width: after.width, height: after.height },
+        image: btoa(binary),
+      };
+    },
+    { baseline: baseline.toString('base64'), current: current.toString('base64'), threshold }
+  );
+
+  return { ...result, image: Buffer.from(result.image, 'base64') };
+}
@@ -0,0 +1,813 @@
+/**
+ * WCAG Rules - Deterministic accessibility checks run inside the page
+ * (underneath aiAssert.expectAccessible)
+ *
+ * Each rule maps to a WCAG 2.2 success criterion and reports violations
+ * with a CSS selector of the element, so the same page always gives the
+ * same findings. The AI only interprets and prioritises them.
+ *
+ *   color-contrast       1.4.3  text contrast from computed styles (4.5:1, 3:1 for large text)
+ *   image-alt            1.1.1  images without a text alternative
+ *   label                4.1.2  form fields without a label (a placeholder is not one)
+ *   label-for            1.3.1  <label for> pointing to no field
+ *   button-name          4.1.2  buttons without an accessible name
+ *   link-name            2.4.4  links without an accessible name
+ *   heading-order        1.3.1  skipped heading levels
+ *   empty-heading        2.4.6  headings without text
+ *   landmark-main        2.4.1  no main landmark (whole page only)
+ *   landmark-unique      1.3.1  several main, banner or contentinfo landmarks (whole page only)
+ *   aria-role            4.1.2  unknown or abstract roles
+ *   aria-attr            4.1.2  unknown aria-* attributes and invalid values
+ *   aria-required-attr   4.1.2  roles missing a required state (e.g. checkbox without aria-checked)
+ *   aria-reference       1.3.1  aria-labelledby, aria-controls... pointing to missing ids
+ *   aria-hidden-focus    4.1.2  focusable elements inside aria-hidden content
+ *   keyboard-focusable   2.1.1  custom controls and click handlers not reachable by keyboard
+ *   tabindex-positive    2.4.3  tabindex above 0
+ *   target-size          2.5.8  targets smaller than 24x24 px without enough spacing
+ *   html-lang            3.1.1  missing or invalid <html lang> (whole page only)
+ *   document-title       2.4.2  missing <title> (whole page only)
+ *
+ * Backgrounds are computed from the element's ancestors: text over a
+ * background image, or positioned over another element's background, is
+ * not checked for contrast.
+ *
+ * Configuration (.env):
+ *   AI_ACCESSIBILITY_FAIL_ON=moderate   (lowest impact that fails expectAccessible: minor | moderate | serious | critical)
+ */
+
+import { Locator } from '@playwright/test';
+
+export type WCAGImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+/** From least to most severe */
+export const WCAG_IMPACTS: readonly WCAGImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+export type WCAGRuleId =
+  | 'color-contrast'
+  | 'image-alt'
+  | 'label'
+  | 'label-for'
+  | 'button-name'
+  | 'link-name'
+  | 'heading-order'
+  | 'empty-heading'
+  | 'landmark-main'
+  | 'landmark-unique'
+  | 'aria-role'
+  | 'aria-attr'
+  | 'aria-required-attr'
+  | 'aria-reference'
+  | 'aria-hidden-focus'
+  | 'keyboard-focusable'
+  | 'tabindex-positive'
+  | 'target-size'
+  | 'html-lang'
+  | 'document-title';
+
+export interface WCAGRule {
+  /** Success criterion, e.g. "1.4.3" */
+  criterion: string;
+  level: 'A' | 'AA';
+  impact: WCAGImpact;
+}
+
+export const WCAG_RULES: Record<WCAGRuleId, WCAGRule> = {
+  'color-contrast': { criterion: '1.4.3', level: 'AA', impact: 'serious' },
+  'image-alt': { criterion: '1.1.1', level: 'A', impact: 'critical' },
+  'label': { criterion: '4.1.2', level: 'A', impact: 'critical' },
+  'label-for': { criterion: '1.3.1', level: 'A', impact: 'moderate' },
+  'button-name': { criterion: '4.1.2', level: 'A', impact: 'critical' },
+  'link-name': { criterion: '2.4.4', level: 'A', impact: 'serious' },
+  'heading-order': { criterion: '1.3.1', level: 'A', impact: 'moderate' },
+  'empty-heading': { criterion: '2.4.6', level: 'AA', impact: 'minor' },
+  'landmark-main': { criterion: '2.4.1', level: 'A', impact: 'moderate' },
+  'landmark-unique': { criterion: '1.3.1', level: 'A', impact: 'moderate' },
+  'aria-role': { criterion: '4.1.2', level: 'A', impact: 'serious' },
+  'aria-attr': { criterion: '4.1.2', level: 'A', impact: 'serious' },
+  'aria-required-attr': { criterion: '4.1.2', level: 'A', impact: 'critical' },
+  'aria-reference': { criterion: '1.3.1', level: 'A', impact: 'serious' },
+  'aria-hidden-focus': { criterion: '4.1.2', level: 'A', impact: 'serious' },
+  'keyboard-focusable': { criterion: '2.1.1', level: 'A', impact: 'serious' },
+  'tabindex-positive': { criterion: '2.4.3', level: 'A', impact: 'moderate' },
+  'target-size': { criterion: '2.5.8', level: 'AA', impact: 'moderate' },
+  'html-lang': { criterion: '3.1.1', level: 'A', impact: 'serious' },
+  'document-title': { criterion: '2.4.2', level: 'A', impact: 'serious' },
+};
+
+export interface WCAGViolation {
+  rule: WCAGRuleId;
+  criterion: string;
+  level: 'A' | 'AA';
+  impact: WCAGImpact;
+  /** CSS selector of the element, unique in the page */
+  selector: string;
+  message: string;
+}
+
+export interface WCAGReport {
+  /** Most severe first */
+  violations: WCAGViolation[];
+  /** Rules that ran */
+  rules: WCAGRuleId[];
+  /** Violations left out of the report beyond the limit */
+  truncated: number;
+}
+
+export interface WCAGRuleOptions {
+  /** Run only these rules (default: all) */
+  rules?: WCAGRuleId[];
+  /** Rules not to run */
+  skipRules?: WCAGRuleId[];
+}
+
+const MAX_VIOLATIONS = 200;
+
+export function getAccessibilityFailOn(): WCAGImpact {
+  const impact = (process.env.AI_ACCESSIBILITY_FAIL_ON || 'moderate').toLowerCase();
+
+  if (!WCAG_IMPACTS.includes(impact as WCAGImpact)) {
+    throw new Error(`Invalid AI_ACCESSIBILITY_FAIL_ON: "${impact}" (expected minor, moderate, serious or critical)`);
+  }
+
+  return impact as WCAGImpact;
+}
+
+/**
+ * Whether an impact is at least as severe as a threshold
+ */
+export function meetsImpact(impact: WCAGImpact, threshold: WCAGImpact): boolean {
+  return WCAG_IMPACTS.indexOf(impact) >= WCAG_IMPACTS.indexOf(threshold);
+}
+
+/**
+ * One line per violation, for logs, failure messages and the prompt
+ */
+export function formatViolation(violation: WCAGViolation): string {
+  return (
+    `${violation.criterion} ${violation.rule} (${violation.impact}) ` +
+    `at ${violation.selector}: ${violation.message}`
+  );
+}
+
+/**
+ * Run the rules on an element and its descendants, or on the whole page
+ * when the root is <html> (the page-level rules only run then)
+ */
+export async function runWCAGRules(root: Locator, options: WCAGRuleOptions = {}): Promise<WCAGReport> {
+  const rules = (options.rules ?? (Object.keys(WCAG_RULES) as WCAGRuleId[])).filter(
+    (rule) => !options.skipRules?.includes(rule)
+  );
+
+  const { found, truncated } = await root.evaluate(evaluateRules, { rules, maxViolations: MAX_VIOLATIONS });
+
+  const violations = found
+    .map(({ rule, selector, message }, index) => ({ index, violation: { rule, ...WCAG_RULES[rule], selector, message } }))
+    .sort(
+      (a, b) =>
+        WCAG_IMPACTS.indexOf(b.violation.impact) - WCAG_IMPACTS.indexOf(a.violation.impact) || a.index - b.index
+    )
+    .map(({ violation }) => violation);
+
+  return { violations, rules, truncated };
+}
+
+/**
+ * The rule engine, serialized into the page: self-contained, no imports
+ */
+function evaluateRules(
+  scope: Element,
+  { rules, maxViolations }: { rules: WCAGRuleId[]; maxViolations: number }
+): { found: Array<{ rule: WCAGRuleId; selector: string; message: string }>; truncated: number } {
+  const found: Array<{ rule: WCAGRuleId; selector: string; message: string }> = [];
+  let truncated = 0;
+  const enabled = new Set(rules);
+  const documentScope = scope === document.documentElement;
+
+  // The scope element itself and everything inside it
+  const findAll = (selector: string): Element[] => [
+    ...(scope.matches(selector) ? [scope] : []),
+    ...Array.from(scope.querySelectorAll(selector)),
+  ];
+
+  const selectorOf = (el: Element): string => {
+    const parts: string[] = [];
+    for (let node: Element | null = el; node && node !== document.documentElement; node = node.parentElement) {
+      if (node.id && document.querySelectorAll(`#${CSS.escape(node.id)}`).length === 1) {
+        parts.unshift(`#${CSS.escape(node.id)}`);
+        return parts.join(' > ');
+      }
+      const tag = node.localName;
+      const siblings = node.parentElement
+        ? Array.from(node.parentElement.children).filter((child) => child.localName === tag)
+        : [node];
+      parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag);
+    }
+    return parts.length > 0 ? parts.join(' > ') : 'html';
+  };
+
+  const report = (rule: WCAGRuleId, el: Element, message: string) => {
+    if (!enabled.has(rule)) return;
+    if (found.length >= maxViolations) {
+      truncated++;
+      return;
+    }
+    found.push({ rule, selector: selectorOf(el), message });
+  };
+
+  const excerpt = (text: string) => (text.length > 40 ? `${text.slice(0, 40)}…` : text);
+  const textOf = (el: Element) => (el.textContent || '').replace(/\s+/g, ' ').trim();
+
+  const isRendered = (el: Element) => {
+    const style = getComputedStyle(el);
+    return style.display !== 'none' && style.visibility !== 'hidden' && el.getClientRects().length > 0;
+  };
+  // Rendered and exposed to assistive technology
+  const isExposed = (el: Element) => isRendered(el) && !el.closest('[aria-hidden="true"]');
+
+  const NATIVE_FOCUSABLE =
+    'a[href], area[href], button, input:not([type="hidden"]), select, textarea, iframe, summary, ' +
+    '[contenteditable=""], [contenteditable="true"], audio[controls], video[controls]';
+  // In the tab order
+  const isFocusable = (el: Element) => {
+    if (el.hasAttribute('tabindex')) {
+      return parseInt(el.getAttribute('tabindex')!, 10) >= 0 && !(el as HTMLButtonElement).disabled;
+    }
+    return el.matches(NATIVE_FOCUSABLE) && !(el as HTMLButtonElement).disabled;
+  };
+
+  const byIds = (ids: string) =>
+    ids
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((id) => document.getElementById(id));
+
+  const nameFromContent = (el: Element): string => {
+    let name = '';
+    el.childNodes.forEach((child) => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        name += ` ${child.textContent}`;
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        const element = child as Element;
+        if (element.getAttribute('aria-hidden') === 'true' || !isRendered(element)) return;
+        name += ` ${
+          element.getAttribute('aria-label') ||
+          (element.localName === 'img' ? element.getAttribute('alt') || '' : nameFromContent(element))
+        }`;
+      }
+    });
+    return name.replace(/\s+/g, ' ').trim();
+  };
+
+  // Without the placeholder, which disappears once the field is filled
+  const accessibleName = (el: Element): string => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const name = byIds(labelledBy)
+        .map((label) => (label ? nameFromContent(label) : ''))
+        .join(' ')
+        .trim();
+      if (name) return name;
+    }
+
+    const ariaLabel = (el.getAttribute('aria-label') || '').trim();
+    if (ariaLabel) return ariaLabel;
+
+    const labels = (el as HTMLInputElement).labels;
+    if (labels && labels.length > 0) {
+      const name = Array.from(labels).map(nameFromContent).join(' ').trim();
+      if (name) return name;
+    }
+
+    const type = (el.getAttribute('type') || '').toLowerCase();
+    if (el.localName === 'img' || el.localName === 'area' || (el.localName === 'input' && type === 'image')) {
+      const alt = (el.getAttribute('alt') || '').trim();
+      if (alt) return alt;
+    } else if (el.localName === 'input' && ['button', 'submit', 'reset'].includes(type)) {
+      const value = (el as HTMLInputElement).value.trim();
+      if (value) return value;
+      if (type !== 'button') return type === 'submit' ? 'Submit' : 'Reset';
+    } else if (!['input', 'select', 'textarea'].includes(el.localName)) {
+      const name = nameFromContent(el);
+      if (name) return name;
+    }
+
+    return (el.getAttribute('title') || '').trim();
+  };
+
+  const isInSectioning = (el: Element) => !!el.parentElement?.closest('article, aside, main, nav, section');
+
+  const implicitRole = (el: Element): string => {
+    const type = (el.getAttribute('type') || 'text').toLowerCase();
+    switch (el.localName) {
+      case 'a':
+      case 'area':
+        return el.hasAttribute('href') ? 'link' : '';
+      case 'button':
+        return 'button';
+      case 'input':
+        if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+        if (type === 'checkbox' || type === 'radio') return type;
+        if (type === 'range') return 'slider';
+        if (type === 'number') return 'spinbutton';
+        if (type === 'search') return 'searchbox';
+        if (['hidden', 'password', 'color', 'date', 'datetime-local', 'file', 'month', 'time', 'week'].includes(type)) return '';
+        return el.hasAttribute('list') ? 'combobox' : 'textbox';
+      case 'select':
+        return (el as HTMLSelectElement).multiple || (el as HTMLSelectElement).size > 1 ? 'listbox' : 'combobox';
+      case 'textarea':
+        return 'textbox';
+      case 'img':
+        return el.getAttribute('alt') === '' ? 'presentation' : 'img';
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return 'heading';
+      case 'main':
+        return 'main';
+      case 'nav':
+        return 'navigation';
+      case 'aside':
+        return 'complementary';
+      case 'header':
+        return isInSectioning(el) ? '' : 'banner';
+      case 'footer':
+        return isInSectioning(el) ? '' : 'contentinfo';
+      default:
+        return '';
+    }
+  };
+
+  const VALID_ROLES = new Set([
+    'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption', 'cell',
+    'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'deletion',
+    'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure', 'form', 'generic', 'grid', 'gridcell',
+    'group', 'heading', 'img', 'image', 'insertion', 'link', 'list', 'listbox', 'listitem', 'log', 'main',
+    'mark', 'marquee', 'math', 'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'meter',
+    'navigation', 'none', 'note', 'option', 'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup',
+    'region', 'row', 'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider',
+    'spinbutton', 'status', 'strong', 'subscript', 'superscript', 'switch', 'tab', 'table', 'tablist',
+    'tabpanel', 'term', 'textbox', 'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem',
+    'doc-abstract', 'doc-acknowledgments', 'doc-afterword', 'doc-appendix', 'doc-backlink', 'doc-biblioentry',
+    'doc-bibliography', 'doc-biblioref', 'doc-chapter', 'doc-colophon', 'doc-conclusion', 'doc-cover',
+    'doc-credit', 'doc-credits', 'doc-dedication', 'doc-endnote', 'doc-endnotes', 'doc-epigraph', 'doc-epilogue',
+    'doc-errata', 'doc-example', 'doc-footnote', 'doc-foreword', 'doc-glossary', 'doc-glossref', 'doc-index',
+    'doc-introduction', 'doc-noteref', 'doc-notice', 'doc-pagebreak', 'doc-pagelist', 'doc-part', 'doc-preface',
+    'doc-prologue', 'doc-pullquote', 'doc-qna', 'doc-subtitle', 'doc-tip', 'doc-toc',
+    'graphics-document', 'graphics-object', 'graphics-symbol',
+  ]);
+
+  // First valid role in the role attribute (the others are fallbacks), else the implicit role
+  const roleOf = (el: Element): string => {
+    const explicit = (el.getAttribute('role') || '').trim().toLowerCase().split(/\s+/).find((role) => VALID_ROLES.has(role));
+    return explicit || implicitRole(el);
+  };
+
+  const TRUE_FALSE = ['true', 'false'];
+  const TRUE_FALSE_UNDEFINED = ['true', 'false', 'undefined'];
+  const TRISTATE = ['true', 'false', 'mixed'];
+  const INTEGER = /^-?\d+$/;
+  const NUMBER = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+  // null: any string or id reference
+  const ARIA_ATTRIBUTES: Record<string, string[] | RegExp | null> = {
+    'aria-activedescendant': null,
+    'aria-atomic': TRUE_FALSE,
+    'aria-autocomplete': ['inline', 'list', 'both', 'none'],
+    'aria-braillelabel': null,
+    'aria-brailleroledescription': null,
+    'aria-busy': TRUE_FALSE,
+    'aria-checked': [...TRISTATE, 'undefined'],
+    'aria-colcount': INTEGER,
+    'aria-colindex': INTEGER,
+    'aria-colindextext': null,
+    'aria-colspan': INTEGER,
+    'aria-controls': null,
+    'aria-current': ['page', 'step', 'location', 'date', 'time', 'true', 'false'],
+    'aria-describedby': null,
+    'aria-description': null,
+    'aria-details': null,
+    'aria-disabled': TRUE_FALSE,
+    'aria-dropeffect': null,
+    'aria-errormessage': null,
+    'aria-expanded': TRUE_FALSE_UNDEFINED,
+    'aria-flowto': null,
+    'aria-grabbed': TRUE_FALSE_UNDEFINED,
+    'aria-haspopup': ['true', 'false', 'menu', 'listbox', 'tree', 'grid', 'dialog'],
+    'aria-hidden': TRUE_FALSE_UNDEFINED,
+    'aria-invalid': ['true', 'false', 'grammar', 'spelling'],
+    'aria-keyshortcuts': null,
+    'aria-label': null,
+    'aria-labelledby': null,
+    'aria-level': INTEGER,
+    'aria-live': ['off', 'polite', 'assertive'],
+    'aria-modal': TRUE_FALSE,
+    'aria-multiline': TRUE_FALSE,
+    'aria-multiselectable': TRUE_FALSE,
+    'aria-orientation': ['horizontal', 'vertical', 'undefined'],
+    'aria-owns': null,
+    'aria-placeholder': null,
+    'aria-posinset': INTEGER,
+    'aria-pressed': [...TRISTATE, 'undefined'],
+    'aria-readonly': TRUE_FALSE,
+    'aria-relevant': null,
+    'aria-required': TRUE_FALSE,
+    'aria-roledescription': null,
+    'aria-rowcount': INTEGER,
+    'aria-rowindex': INTEGER,
+    'aria-rowindextext': null,
+    'aria-rowspan': INTEGER,
+    'aria-selected': TRUE_FALSE_UNDEFINED,
+    'aria-setsize': INTEGER,
+    'aria-sort': ['ascending', 'descending', 'none', 'other'],
+    'aria-valuemax': NUMBER,
+    'aria-valuemin': NUMBER,
+    'aria-valuenow': NUMBER,
+    'aria-valuetext': null,
+  };
+
+  // States a role can't do without, when the element doesn't provide them natively
+  const REQUIRED_ATTRIBUTES: Record<string, string[]> = {
+    checkbox: ['aria-checked'],
+    radio: ['aria-checked'],
+    switch: ['aria-checked'],
+    menuitemcheckbox: ['aria-checked'],
+    menuitemradio: ['aria-checked'],
+    combobox: ['aria-expanded'],
+    slider: ['aria-valuenow'],
+    scrollbar: ['aria-controls', 'aria-valuenow'],
+  };
+
+  // Inputs that keep their checked state or value whatever their role
+  const NATIVE_STATE = 'input[type="checkbox" i], input[type="radio" i], input[type="range" i]';
+
+  const ID_REFERENCES = [
+    'aria-labelledby',
+    'aria-describedby',
+    'aria-controls',
+    'aria-owns',
+    'aria-activedescendant',
+    'aria-errormessage',
+    'aria-details',
+    'aria-flowto',
+  ];
+
+  const INTERACTIVE_ROLES = new Set([
+    'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
+    'textbox', 'searchbox', 'combobox', 'slider', 'spinbutton',
+  ]);
+
+  // --- Page ---
+
+  if (documentScope) {
+    if (!document.title.trim()) {
+      report('document-title', document.documentElement, 'The page has no <title>');
+    }
+
+    const lang = (document.documentElement.getAttribute('lang') || '').trim();
+    if (!lang) {
+      report('html-lang', document.documentElement, 'The <html> element has no lang attribute');
+    } else if (!/^[a-z]{2,3}(-[a-z0-9]{1,8})*$/i.test(lang)) {
+      report('html-lang', document.documentElement, `lang="${lang}" is not a valid language tag`);
+    }
+
+    const landmarks = (role: string) =>
+      Array.from(document.querySelectorAll('*')).filter((el) => roleOf(el) === role && isExposed(el));
+    const mains = landmarks('main');
+    if (mains.length === 0) {
+      report('landmark-main', document.body ?? document.documentElement, 'The page has no main landmark');
+    }
+    for (const role of ['main', 'banner', 'contentinfo']) {
+      const elements = role === 'main' ? mains : landmarks(role);
+      for (const el of elements.slice(1)) {
+        report('landmark-unique', el, `The page has ${elements.length} ${role} landmarks, it should have one`);
+      }
+    }
+  }
+
+  // --- Text alternatives ---
+
+  for (const el of findAll('img, [role~="img"], input[type="image" i]')) {
+    if (!isExposed(el)) continue;
+    const role = (el.getAttribute('role') || '').trim();
+    if (role === 'presentation' || role === 'none') continue;
+
+    if (el.localName === 'img' && !el.hasAttribute('alt') && !accessibleName(el)) {
+      report('image-alt', el, 'Image has no alt attribute (use alt="" for decorative images)');
+    } else if (el.localName !== 'img' && !accessibleName(el)) {
+      report('image-alt', el, el.localName === 'input' ? 'Image button has no alt text' : 'role="img" has no accessible name');
+    }
+  }
+
+  // --- Forms ---
+
+  const FIELDS =
+    'input:not([type="hidden" i]):not([type="button" i]):not([type="submit" i]):not([type="reset" i]):not([type="image" i]), ' +
+    'select, textarea, [role="textbox"], [role="searchbox"], [role="combobox"], [role="listbox"], [role="checkbox"], ' +
+    '[role="radio"], [role="switch"], [role="slider"], [role="spinbutton"]';
+  for (const el of findAll(FIELDS)) {
+    if (!isExposed(el) || accessibleName(el)) continue;
+    const placeholder = (el.getAttribute('placeholder') || '').trim();
+    report(
+      'label',
+      el,
+      placeholder
+        ? `Form field has only a placeholder ("${excerpt(placeholder)}"), which is not a label`
+        : 'Form field has no label'
+    );
+  }
+
+  for (const label of findAll('label[for]')) {
+    const id = label.getAttribute('for')!;
+    const field = document.getElementById(id);
+    if (!field) {
+      report('label-for', label, `<label for="${id}"> points to no element`);
+    } else if (!field.matches('input:not([type="hidden" i]), select, textarea, button, meter, output, progress')) {
+      report('label-for', label, `<label for="${id}"> points to a <${field.localName}>, which can't be labelled`);
+    }
+  }
+
+  // --- Buttons and links ---
+
+  for (const el of findAll('button, input[type="button" i], input[type="submit" i], input[type="reset" i], [role="button"]')) {
+    if (isExposed(el) && !accessibleName(el)) {
+      report('button-name', el, 'Button has no text, aria-label or title');
+    }
+  }
+
+  for (const el of findAll('a[href], [role="link"]')) {
+    if (isExposed(el) && roleOf(el) === 'link' && !accessibleName(el)) {
+      report('link-name', el, 'Link has no text, aria-label or title');
+    }
+  }
+
+  // --- Headings ---
+
+  let previousLevel = 0;
+  for (const el of findAll('h1, h2, h3, h4, h5, h6, [role="heading"]')) {
+    if (!isExposed(el) || roleOf(el) !== 'heading') continue;
+
+    const level = parseInt(el.getAttribute('aria-level') || el.localName.slice(1), 10) || 2;
+    if (previousLevel > 0 && level > previousLevel + 1) {
+      report('heading-order', el, `Heading level jumps from ${previousLevel} to ${level}`);
+    }
+    previousLevel = level;
+
+    if (!accessibleName(el)) {
+      report('empty-heading', el, 'Heading has no text');
+    }
+  }
+
+  // --- ARIA ---
+
+  for (const el of findAll('*')) {
+    const roleAttribute = el.getAttribute('role');
+    if (roleAttribute !== null && roleAttribute.trim()) {
+      const roles = roleAttribute.trim().toLowerCase().split(/\s+/);
+      if (!roles.some((role) => VALID_ROLES.has(role))) {
+        report('aria-role', el, `role="${roleAttribute.trim()}" is not a valid ARIA role`);
+      }
+    }
+
+    for (const attribute of Array.from(el.attributes)) {
+      if (!attribute.name.startsWith('aria-')) continue;
+
+      if (!(attribute.name in ARIA_ATTRIBUTES)) {
+        report('aria-attr', el, `${attribute.name} is not an ARIA attribute`);
+        continue;
+      }
+
+      const allowed = ARIA_ATTRIBUTES[attribute.name];
+      const value = attribute.value.trim();
+      const valid =
+        allowed === null ||
+        (Array.isArray(allowed) ? allowed.includes(value.toLowerCase()) : allowed.test(value));
+      if (!valid) {
+        report('aria-attr', el, `${attribute.name}="${excerpt(value)}" is not a valid value`);
+      }
+    }
+
+    const role = roleOf(el);
+    if (el.hasAttribute('role') && role !== implicitRole(el) && !el.matches(NATIVE_STATE)) {
+      const missing = (REQUIRED_ATTRIBUTES[role] || []).filter((name) => !el.hasAttribute(name));
+      if (missing.length > 0) {
+        report('aria-required-attr', el, `role="${role}" requires ${missing.join(', ')}`);
+      }
+    }
+
+    for (const name of ID_REFERENCES) {
+      const value = el.getAttribute(name);
+      // A collapsed popup may not be rendered yet
+      if (value === null || (name === 'aria-controls' && el.getAttribute('aria-expanded') === 'false')) continue;
+
+      const missing = value
+        .split(/\s+/)
+        .filter(Boolean)
+        .filter((id) => !document.getElementById(id));
+      if (missing.length > 0) {
+        report('aria-reference', el, `${name} refers to missing id(s): ${missing.join(', ')}`);
+      }
+    }
+  }
+
+  for (const el of findAll('*')) {
+    if (el.closest('[aria-hidden="true"]') && isFocusable(el) && isRendered(el)) {
+      report('aria-hidden-focus', el, 'Focusable element inside aria-hidden="true" content (add tabindex="-1" or inert)');
+    }
+  }
+
+  // --- Keyboard ---
+
+  for (const el of findAll('[role], [onclick]')) {
+    if (!isExposed(el) || isFocusable(el) || el.getAttribute('aria-disabled') === 'true') continue;
+
+    const role = roleOf(el);
+    if (el.hasAttribute('role') && INTERACTIVE_ROLES.has(role) && role !== implicitRole(el)) {
+      // tabindex="-1" is how widgets with a roving tabindex take items out of the tab order
+      if (el.hasAttribute('tabindex')) continue;
+      report('keyboard-focusable', el, `role="${role}" is not keyboard focusable (add tabindex="0")`);
+    } else if (
+      el.hasAttribute('onclick') &&
+      !INTERACTIVE_ROLES.has(role) &&
+      !el.querySelector(NATIVE_FOCUSABLE) &&
+      !el.parentElement?.closest(`${NATIVE_FOCUSABLE}, label`)
+    ) {
+      report('keyboard-focusable', el, `<${el.localName}> has a click handler but no role and is not keyboard focusable`);
+    }
+  }
+
+  for (const el of findAll('[tabindex]')) {
+    const tabindex = parseInt(el.getAttribute('tabindex')!, 10);
+    if (tabindex > 0) {
+      report('tabindex-positive', el, `tabindex="${tabindex}" changes the focus order`);
+    }
+  }
+
+  // --- Target size ---
+
+  if (enabled.has('target-size')) {
+    // Native checkboxes and radios are sized by the browser, which is an exception
+    const TARGETS =
+      'a[href], button, summary, input[type="button" i], input[type="submit" i], input[type="reset" i], input[type="image" i], ' +
+      '[role="button"], [role="link"], [role="checkbox"], [role="radio"], [role="switch"], [role="tab"], [role="menuitem"]';
+    const MIN_SIZE = 24;
+
+    // Neighbours from the whole page, a target next to the scope counts too
+    const targets = Array.from(document.querySelectorAll(TARGETS))
+      .filter(isExposed)
+      .map((el) => {
+        const rect = el.getBoundingClientRect();
+        return {
+          el,
+          rect,
+          undersized: rect.width < MIN_SIZE || rect.height < MIN_SIZE,
+          x: rect.left + rect.width / 2,
+          y: rect.top + rect.height / 2,
+        };
+      });
+
+    for (const target of targets) {
+      if (!target.undersized || !scope.contains(target.el)) continue;
+
+      // Links in a sentence are an exception
+      const parent = target.el.parentElement;
+      if (
+        getComputedStyle(target.el).display === 'inline' &&
+        parent &&
+        textOf(parent).length > textOf(target.el).length
+      ) {
+        continue;
+      }
+
+      // A 24px circle on the target's centre must not touch another target (or its circle)
+      const crowded = targets.some((other) => {
+        if (other === target || other.el.contains(target.el) || target.el.contains(other.el)) return false;
+        if (other.undersized) {
+          return Math.hypot(other.x - target.x, other.y - target.y) < MIN_SIZE;
+        }
+        const dx = Math.max(other.rect.left - target.x, 0, target.x - other.rect.right);
+        const dy = Math.max(other.rect.top - target.y, 0, target.y - other.rect.bottom);
+        return Math.hypot(dx, dy) < MIN_SIZE / 2;
+      });
+      if (crowded) {
+        report(
+          'target-size',
+          target.el,
+          `Target is ${Math.round(target.rect.width)}x${Math.round(target.rect.height)}px, ` +
+            `smaller than ${MIN_SIZE}x${MIN_SIZE}px and too close to other targets`
+        );
+      }
+    }
+  }
+
+  // --- Contrast ---
+
+  if (enabled.has('color-contrast')) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    // [r, g, b, a] with channels 0-255 and alpha 0-1
+    const parseColor = (value: string): number[] | null => {
+      const match = value.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+)(%?))?\s*\)$/);
+      if (match) {
+        const alpha = match[4] === undefined ? 1 : parseFloat(match[4]) / (match[5] ? 100 : 1);
+        return [parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3]), alpha];
+      }
+      if (!context) return null;
+      // Other colour spaces (oklch, color()...): let the canvas convert them
+      context.clearRect(0, 0, 1, 1);
+      context.fillStyle = value;
+      context.fillRect(0, 0, 1, 1);
+      const [r, g, b, a] = Array.from(context.getImageData(0, 0, 1, 1).data);
+      return [r, g, b, a / 255];
+    };
+
+    const blend = (top: number[], bottom: number[]) => [
+      top[0] * top[3] + bottom[0] * (1 - top[3]),
+      top[1] * top[3] + bottom[1] * (1 - top[3]),
+      top[2] * top[3] + bottom[2] * (1 - top[3]),
+      1,
+    ];
+
+    // Ancestor backgrounds down to the first opaque one, null behind an image
+    const backgroundOf = (el: Element): number[] | null => {
+      const layers: number[][] = [];
+      for (let node: Element | null = el; node; node = node.parentElement) {
+        const style = getComputedStyle(node);
+        if (style.backgroundImage !== 'none') return null;
+        const color = parseColor(style.backgroundColor);
+        if (color && color[3] > 0) {
+          layers.push(color);
+          if (color[3] >= 1) break;
+        }
+      }
+      return layers.reduceRight<number[]>((background, layer) => blend(layer, background), [255, 255, 255, 1]);
+    };
+
+    const opacityOf = (el: Element) => {
+      let opacity = 1;
+      for (let node: Element | null = el; node; node = node.parentElement) {
+        opacity *= parseFloat(getComputedStyle(node).opacity);
+      }
+      return opacity;
+    };
+
+    const luminance = (color: number[]) => {
+      const [r, g, b] = color.slice(0, 3).map((channel) => {
+        const c = channel / 255;
+        return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+      });
+      return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    };
+
+    const hex = (color: number[]) =>
+      `#${color
+        .slice(0, 3)
+        .map((channel) => Math.round(channel).toString(16).padStart(2, '0'))
+        .join('')}`;
+
+    for (const el of findAll('*')) {
+      const text = Array.from(el.childNodes)
+        .filter((child) => child.nodeType === Node.TEXT_NODE)
+        .map((child) => child.textContent || '')
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim();
+      // SVG text is drawn with fill, not color
+      if (!text || el.closest('svg') || !isRendered(el)) continue;
+
+      // Disabled controls are an exception
+      if (el.closest(':disabled, [aria-disabled="true"]')) continue;
+
+      const style = getComputedStyle(el);
+      const fontSize = parseFloat(style.fontSize);
+      const rect = el.getBoundingClientRect();
+      if (fontSize === 0 || rect.width <= 1 || rect.height <= 1) continue;
+
+      const opacity = opacityOf(el);
+      const color = parseColor(style.color);
+      const background = backgroundOf(el);
+      if (!color || !background || opacity < 0.1) continue;
+
+      const foreground = blend([color[0], color[1], color[2], color[3] * opacity], background);
+      const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+      const ratio = Math.floor(((lighter + 0.05) / (darker + 0.05)) * 100) / 100;
+
+      const bold = parseInt(style.fontWeight, 10) >= 700;
+      const large = fontSize >= 24 || (bold && fontSize >= 18.66);
+      const minimum = large ? 3 : 4.5;
+      if (ratio < minimum) {
+        report(
+          'color-contrast',
+          el,
+          `Contrast ${ratio}:1 is below ${minimum}:1 (${hex(foreground)} on ${hex(background)}, ` +
+            `${Math.round(fontSize)}px${bold ? ' bold' : ''} text "${excerpt(text)}")`
+        );
+      }
+    }
+  }
+
+  return { found, truncated };
+}
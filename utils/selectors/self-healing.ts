@@ -1,5 +1,18 @@
 import { Page, Locator } from '@playwright/test';
 import { aiClient } from '../../config/ai-client';
+import { ensureAIAvailable } from '../../config/ai-availability';
+import { getEscalationChain } from '../../config/ai-escalation';
+import { ModelName } from '../../config/model-versions';
+import { modelRouter } from '../../config/ai-routing';
+import { isEstimateOnly } from '../../config/ai-estimate';
+import { RenderedPrompt, formatPromptRef, prompts } from '../../config/ai-prompts';
+import {
+  aiRedactor,
+  getSensitiveSelectors,
+  isRedactionEnabled,
+  takeRedactedScreenshot,
+} from '../../config/ai-redaction';
+import { wrapUntrusted } from '../../config/ai-injection';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -8,6 +21,8 @@ interface SelectorHealingCache {
     healedSelector: string;
     timestamp: number;
     confidence: number;
+    /** Model and prompt template that produced the selector */
+    healedBy?: string;
   };
 }
 
@@ -15,6 +30,8 @@ export class SelfHealingSelector {
   private cache: SelectorHealingCache = {};
   private cacheFile = path.join(__dirname, '../../.selector-cache.json');
   private enabled: boolean;
+  // Suggestions per model tier (follow-ups reuse the same conversation)
+  private maxHealingAttempts = 2;
 
   constructor() {
     this.enabled = process.env.ENABLE_SELF_HEALING !== 'false';
@@ -74,10 +91,23 @@ export class SelfHealingSelector {
         }
       }
 
+      // Without AI, fall back to the plain locator (throws with policy 'fail')
+      if (!ensureAIAvailable('healing')) {
+        console.warn(`⚠️  AI unavailable, using the plain locator for: ${selector}`);
+        return page.locator(selector);
+      }
+
+      // Healing is disabled while the AI backend is degraded
+      if (aiClient.isDegraded()) {
+        console.warn(`⚠️  AI backend degraded, self-healing disabled`);
+        throw new Error(`Could not find selector: ${selector} (self-healing disabled: AI backend degraded)`);
+      }
+
       // Attempt AI healing
-      const healedSelector = await this.healSelector(page, selector, description);
+      const healed = await this.healSelector(page, selector, description);
 
-      if (healedSelector) {
+      if (healed) {
+        const { healedSelector, healedBy } = healed;
         console.log(`✅ Healed selector: ${healedSelector}`);
 
         // Update cache
@@ -85,6 +115,7 @@ export class SelfHealingSelector {
           healedSelector,
           timestamp: Date.now(),
           confidence: 0.8,
+          healedBy,
         };
         this.saveCache();
 
@@ -96,72 +127,114 @@ export class SelfHealingSelector {
     }
   }
 
-  private async healSelector(page: Page, originalSelector: string, description?: string): Promise<string | null> {
+  /**
+   * Ask the AI for a working replacement selector
+   *
+   * Doesn't read or write the healing cache; findElement() does. Also used
+   * by the eval harness (scripts/eval-models.ts).
+   */
+  async healSelector(
+    page: Page,
+    originalSelector: string,
+    description?: string
+  ): Promise<{ healedSelector: string; healedBy: string } | null> {
     try {
       // Get page screenshot and HTML structure
-      const screenshot = await page.screenshot({ fullPage: false });
+      const screenshot = await takeRedactedScreenshot(page, { fullPage: false }, 'healing');
       const screenshotBase64 = screenshot.toString('base64');
 
-      // Get page structure
-      const pageStructure = await page.evaluate(() => {
-        const getElementInfo = (el: Element) => ({
-          tag: el.tagName.toLowerCase(),
-          id: el.id || undefined,
-          classes: Array.from(el.classList),
-          text: el.textContent?.trim().substring(0, 100),
-          attributes: Array.from(el.attributes).reduce((acc, attr) => {
-            acc[attr.name] = attr.value;
-            return acc;
-          }, {} as Record<string, string>),
-        });
+      // Get page structure (text and attribute values of sensitive elements are withheld)
+      const sensitiveSelector = isRedactionEnabled() ? getSensitiveSelectors().join(', ') : null;
+      const { elements: pageStructure, redacted } = await page.evaluate((sensitiveSelector) => {
+        const identifyingAttributes = ['id', 'class', 'name', 'type', 'role', 'data-testid', 'aria-label'];
+        let redacted = 0;
+
+        const getElementInfo = (el: Element) => {
+          const sensitive = sensitiveSelector !== null && el.closest(sensitiveSelector) !== null;
+          if (sensitive) redacted++;
+
+          return {
+            tag: el.tagName.toLowerCase(),
+            id: el.id || undefined,
+            classes: Array.from(el.classList),
+            text: sensitive ? '[REDACTED:sensitive]' : el.textContent?.trim().substring(0, 100),
+            attributes: Array.from(el.attributes).reduce((acc, attr) => {
+              acc[attr.name] = sensitive && !identifyingAttributes.includes(attr.name) ? '[REDACTED:sensitive]' : attr.value;
+              return acc;
+            }, {} as Record<string, string>),
+          };
+        };
 
         // Get all interactive elements
         const elements = Array.from(
           document.querySelectorAll('button, a, input, select, textarea, [role="button"], [role="link"]')
         );
 
-        return elements.slice(0, 100).map(getElementInfo);
+        return { elements: elements.slice(0, 100).map(getElementInfo), redacted };
+      }, sensitiveSelector);
+
+      if (redacted > 0) {
+        aiRedactor.record('dom', 'sensitive-element', redacted, 'healing');
+      }
+
+      const prompt = prompts.render('healing.selector', {
+        originalSelector,
+        description,
+        pageStructure: wrapUntrusted('page-elements', JSON.stringify(pageStructure, null, 2)),
       });
 
-      const prompt = `
-The Playwright selector "${originalSelector}" is not working.
-${description ? `This element should be: ${description}` : ''}
-
-Available elements on the page:
-${JSON.stringify(pageStructure, null, 2)}
-
-Based on the screenshot and available elements, suggest a NEW working selector that would find the intended element.
-
-Consider:
-1. data-testid attributes (preferred)
-2. Accessible roles and labels
-3. Unique text content
-4. ID or class combinations
-5. Parent-child relationships
-
-Return ONLY the new selector string, nothing else. Examples:
-- [data-testid="submit-button"]
-- button:has-text("Submit")
-- #login-form >> button
-- [aria-label="Close dialog"]
-
-NEW SELECTOR:`;
-
-      const systemPrompt = `You are a Playwright selector expert. Analyze the page and suggest the most reliable selector.
-Prefer data-testid, then accessible roles, then stable attributes. Avoid brittle selectors based on DOM position.`;
-
-      // Use Haiku for cost-efficient selector healing
-      const response = await aiClient.askWithImage(
-        prompt,
-        screenshotBase64,
-        'image/png',
-        {
-          model: 'haiku',
-          maxTokens: 1024
-        },
-        systemPrompt
-      );
+      // Start on the routed model (Haiku by default, cost-efficient) and move
+      // up a tier when its suggestions don't work
+      const provider = aiClient.getProvider();
+      const chain = getEscalationChain(modelRouter.resolve('healing').model, (tier) => provider.resolveModel(tier));
+      for (const model of chain) {
+        const selector = await this.askForSelector(page, model, prompt, screenshotBase64);
+        if (selector) {
+          const healedBy = `${model}, prompt: ${formatPromptRef(prompt.ref)}`;
+          console.log(`🤖 Selector healed by ${healedBy}`);
+          return { healedSelector: selector, healedBy };
+        }
+
+        // Estimate mode: count the first suggestion only, as for a successful heal
+        if (isEstimateOnly()) {
+          return null;
+        }
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Error during selector healing:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Ask one model for a working selector
+   *
+   * A conversation lets us ask for another selector without re-sending the screenshot.
+   */
+  private async askForSelector(
+    page: Page,
+    model: ModelName,
+    prompt: RenderedPrompt,
+    screenshotBase64: string
+  ): Promise<string | null> {
+    const conversation = aiClient.createConversation(prompt.system, {
+      model,
+      feature: 'healing',
+      prompt: prompt.ref,
+    });
+
+    let response = await conversation.send([
+      { type: 'image', data: screenshotBase64, mediaType: 'image/png' },
+      { type: 'text', text: prompt.user },
+    ]);
+
+    if (isEstimateOnly()) {
+      return null;
+    }
 
+    for (let attempt = 1; ; attempt++) {
       // Clean the response
       const selector = response.trim().replace(/^["']|["']$/g, '');
 
@@ -170,12 +243,14 @@ Prefer data-testid, then accessible roles, then stable attributes. Avoid brittle
         await page.locator(selector).first().waitFor({ timeout: 2000 });
         return selector;
       } catch {
-        console.log(`❌ AI suggested selector doesn't work: ${selector}`);
+        console.log(`❌ AI suggested selector doesn't work (${model}): ${selector}`);
+      }
+
+      if (attempt >= this.maxHealingAttempts) {
         return null;
       }
-    } catch (error) {
-      console.error('Error during selector healing:', error);
-      return null;
+
+      response = await conversation.send(prompts.render('healing.retry', { selector }).user);
     }
   }
 